@@ -1,12 +1,198 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { BookListItem } from '@/components/BookListItem';
+import { BookShelfRow } from '@/components/BookShelfRow';
+import { ReadingListRow } from '@/components/ReadingListRow';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import React from 'react';
-import { StyleSheet } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import { Book, BOOKS_PAGE_SIZE, fetchBooks } from '@/lib/books';
+import { fetchFollowedLists, ReadingListSummary } from '@/lib/readingLists';
+import { ContinueReadingEntry, fetchContinueReading } from '@/lib/readingProgress';
 
 const HomeScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const [continueReading, setContinueReading] = useState<ContinueReadingEntry[]>([]);
+  const [followedLists, setFollowedLists] = useState<ReadingListSummary[]>([]);
+  const [books, setBooks] = useState<Book[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFirstPage = useCallback(async () => {
+    setError(null);
+    try {
+      const firstPage = await fetchBooks(0);
+      setBooks(firstPage);
+      setPage(0);
+      setHasMore(firstPage.length === BOOKS_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading books:', err);
+      setError('We could not load the catalog. Please check your connection.');
+    }
+  }, []);
+
+  const loadContinueReading = useCallback(async () => {
+    if (!userId) {
+      setContinueReading([]);
+      return;
+    }
+    try {
+      setContinueReading(await fetchContinueReading(userId));
+    } catch (err) {
+      console.error('Error loading continue reading shelf:', err);
+    }
+  }, [userId]);
+
+  const loadFollowedLists = useCallback(async () => {
+    if (!userId) {
+      setFollowedLists([]);
+      return;
+    }
+    try {
+      setFollowedLists(await fetchFollowedLists(userId));
+    } catch (err) {
+      console.error('Error loading followed reading lists:', err);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadFirstPage().finally(() => setLoading(false));
+  }, [loadFirstPage]);
+
+  // Positions change while reading and lists clear their badge once opened,
+  // so refresh both whenever Home regains focus.
+  useFocusEffect(
+    useCallback(() => {
+      loadContinueReading();
+      loadFollowedLists();
+    }, [loadContinueReading, loadFollowedLists])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([loadFirstPage(), loadContinueReading(), loadFollowedLists()]);
+    setRefreshing(false);
+  };
+
+  const handleLoadMore = async () => {
+    if (loading || loadingMore || refreshing || !hasMore || error) return;
+
+    setLoadingMore(true);
+    try {
+      const nextPage = await fetchBooks(page + 1);
+      setBooks((prev) => [...prev, ...nextPage]);
+      setPage(page + 1);
+      setHasMore(nextPage.length === BOOKS_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading more books:', err);
+      setHasMore(false);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const renderEmpty = () => {
+    if (loading) {
+      return (
+        <ThemedView style={styles.stateContainer}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </ThemedView>
+      );
+    }
+
+    if (error) {
+      return (
+        <ThemedView style={styles.stateContainer}>
+          <Ionicons name="cloud-offline" size={48} color={colors.icon} />
+          <ThemedText style={styles.stateText}>{error}</ThemedText>
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: colors.tint }]}
+            onPress={() => {
+              setLoading(true);
+              loadFirstPage().finally(() => setLoading(false));
+            }}
+            activeOpacity={0.8}
+          >
+            <ThemedText style={[styles.retryText, { color: colors.background }]}>Try Again</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      );
+    }
+
+    return (
+      <ThemedView style={styles.stateContainer}>
+        <Ionicons name="library" size={48} color={colors.icon} />
+        <ThemedText style={styles.stateText}>No books in the library yet.</ThemedText>
+      </ThemedView>
+    );
+  };
+
   return (
     <ThemedView style={styles.container}>
-      <ThemedText type="title">this my libary home page.</ThemedText>
+      <ThemedView style={styles.header}>
+        <ThemedText type="title" style={styles.headerTitle}>
+          Library
+        </ThemedText>
+        <ThemedText style={styles.headerSubtitle}>Browse the BCI catalog</ThemedText>
+        <TouchableOpacity
+          style={[styles.searchBar, { backgroundColor: colors.icon + '15' }]}
+          onPress={() => router.push('/search')}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="search" size={18} color={colors.icon} style={styles.searchIcon} />
+          <ThemedText style={[styles.searchPlaceholder, { color: colors.icon }]}>
+            Search by title, author or course code
+          </ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+
+      <FlatList
+        data={books}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => <BookListItem book={item} />}
+        ListHeaderComponent={
+          userId ? (
+            <ThemedView style={styles.listHeader}>
+              <BookShelfRow
+                title="Continue reading"
+                books={continueReading.map((entry) => entry.book)}
+                getCaption={(book) => {
+                  const entry = continueReading.find((item) => item.book.id === book.id);
+                  return entry ? `${Math.round(entry.progress.progress * 100)}% read` : undefined;
+                }}
+                onPressBook={(book) => router.push({ pathname: '/reader/[id]', params: { id: book.id } })}
+              />
+              <ReadingListRow lists={followedLists} />
+              <ThemedText type="subtitle" style={styles.sectionTitle}>
+                All books
+              </ThemedText>
+            </ThemedView>
+          ) : null
+        }
+        ListEmptyComponent={renderEmpty}
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footerLoader} color={colors.tint} /> : null
+        }
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />
+        }
+        contentContainerStyle={books.length === 0 ? styles.emptyContent : undefined}
+      />
     </ThemedView>
   );
 };
@@ -14,9 +200,67 @@ const HomeScreen = () => {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 44,
+    marginTop: 16,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchPlaceholder: {
+    fontSize: 15,
+  },
+  listHeader: {
+    paddingTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    paddingHorizontal: 20,
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  stateContainer: {
+    flex: 1,
     alignItems: 'center',
     justifyContent: 'center',
-    padding: 16,
+    padding: 32,
+  },
+  stateText: {
+    marginTop: 12,
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  retryText: {
+    fontWeight: '600',
+  },
+  footerLoader: {
+    paddingVertical: 16,
   },
 });
 
@@ -0,0 +1,391 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { BookShelfRow } from '@/components/BookShelfRow';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  createShelf,
+  deleteShelf,
+  fetchShelvesWithBooks,
+  renameShelf,
+  reorderShelves,
+  ShelfWithBooks,
+} from '@/lib/shelves';
+
+type NameEditor = { mode: 'create' } | { mode: 'rename'; shelf: ShelfWithBooks };
+
+const LibraryScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const [shelves, setShelves] = useState<ShelfWithBooks[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [nameEditor, setNameEditor] = useState<NameEditor | null>(null);
+  const [shelfName, setShelfName] = useState('');
+
+  const loadShelves = useCallback(async () => {
+    if (!userId) {
+      setShelves([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      setShelves(await fetchShelvesWithBooks(userId));
+    } catch (error) {
+      console.error('Error loading shelves:', error);
+      Alert.alert('Error', 'Could not load your library. Please try again.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [userId]);
+
+  // Books are added to shelves from the detail screen, so refresh on focus.
+  useFocusEffect(
+    useCallback(() => {
+      loadShelves();
+    }, [loadShelves])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadShelves();
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= shelves.length) return;
+
+    const previous = shelves;
+    const reordered = [...shelves];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setShelves(reordered);
+    try {
+      await reorderShelves(reordered.map((shelf) => shelf.id));
+    } catch (error) {
+      console.error('Error reordering shelves:', error);
+      setShelves(previous);
+      Alert.alert('Error', 'Could not save the new order. Please try again.');
+    }
+  };
+
+  const handleDelete = (shelf: ShelfWithBooks) => {
+    Alert.alert('Delete Collection', `Delete "${shelf.name}"? The books stay in the catalog.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteShelf(shelf.id);
+            setShelves((current) => current.filter((item) => item.id !== shelf.id));
+          } catch (error) {
+            console.error('Error deleting shelf:', error);
+            Alert.alert('Error', 'Could not delete the collection. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const openNameEditor = (editor: NameEditor) => {
+    setShelfName(editor.mode === 'rename' ? editor.shelf.name : '');
+    setNameEditor(editor);
+  };
+
+  const handleSaveName = async () => {
+    const name = shelfName.trim();
+    if (!userId || !nameEditor || !name) return;
+
+    try {
+      if (nameEditor.mode === 'create') {
+        const shelf = await createShelf(userId, name, shelves.length);
+        setShelves((current) => [...current, { ...shelf, books: [] }]);
+      } else {
+        await renameShelf(nameEditor.shelf.id, name);
+        setShelves((current) =>
+          current.map((item) => (item.id === nameEditor.shelf.id ? { ...item, name } : item))
+        );
+      }
+      setNameEditor(null);
+    } catch (error) {
+      console.error('Error saving shelf:', error);
+      Alert.alert('Error', 'Could not save the collection. Please try again.');
+    }
+  };
+
+  const renderShelfActions = (shelf: ShelfWithBooks, index: number) => {
+    if (!editing) {
+      return <ThemedText style={styles.count}>{shelf.books.length}</ThemedText>;
+    }
+    return (
+      <View style={styles.shelfActions}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleMove(index, -1)} disabled={index === 0}>
+          <Ionicons name="arrow-up" size={20} color={index === 0 ? colors.icon + '60' : colors.tint} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => handleMove(index, 1)}
+          disabled={index === shelves.length - 1}
+        >
+          <Ionicons
+            name="arrow-down"
+            size={20}
+            color={index === shelves.length - 1 ? colors.icon + '60' : colors.tint}
+          />
+        </TouchableOpacity>
+        {shelf.kind === 'custom' && (
+          <>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => openNameEditor({ mode: 'rename', shelf })}
+            >
+              <Ionicons name="pencil" size={20} color={colors.tint} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(shelf)}>
+              <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (!userId) {
+      return (
+        <ThemedView style={styles.centered}>
+          <Ionicons name="library-outline" size={48} color={colors.icon} />
+          <ThemedText style={styles.stateText}>Sign in to keep your own shelves and collections.</ThemedText>
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: colors.tint }]}
+            onPress={() => router.push('/login')}
+            activeOpacity={0.8}
+          >
+            <ThemedText style={[styles.primaryButtonText, { color: colors.background }]}>Sign In</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      );
+    }
+
+    if (loading) {
+      return (
+        <ThemedView style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </ThemedView>
+      );
+    }
+
+    return (
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />}
+      >
+        {shelves.map((shelf, index) => (
+          <BookShelfRow
+            key={shelf.id}
+            title={shelf.name}
+            books={shelf.books}
+            right={renderShelfActions(shelf, index)}
+            emptyText={
+              shelf.kind === 'custom'
+                ? 'No books yet. Add books from their detail page.'
+                : `No books marked "${shelf.name}" yet.`
+            }
+          />
+        ))}
+        <TouchableOpacity
+          style={[styles.newShelfButton, { borderColor: colors.tint }]}
+          onPress={() => openNameEditor({ mode: 'create' })}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="add" size={20} color={colors.tint} />
+          <ThemedText style={[styles.newShelfText, { color: colors.tint }]}>New collection</ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <ThemedView style={styles.headerRow}>
+          <ThemedText type="title" style={styles.headerTitle}>
+            My Library
+          </ThemedText>
+          {userId && shelves.length > 0 && (
+            <TouchableOpacity onPress={() => setEditing(!editing)} activeOpacity={0.7}>
+              <ThemedText style={[styles.editText, { color: colors.tint }]}>{editing ? 'Done' : 'Edit'}</ThemedText>
+            </TouchableOpacity>
+          )}
+        </ThemedView>
+        <ThemedText style={styles.headerSubtitle}>Your shelves and collections</ThemedText>
+      </ThemedView>
+
+      {renderContent()}
+
+      <Modal visible={nameEditor !== null} animationType="fade" transparent onRequestClose={() => setNameEditor(null)}>
+        <KeyboardAvoidingView style={styles.modalBackdrop} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <View style={[styles.modalCard, { backgroundColor: colors.background }]}>
+            <ThemedText type="subtitle" style={styles.modalTitle}>
+              {nameEditor?.mode === 'rename' ? 'Rename Collection' : 'New Collection'}
+            </ThemedText>
+            <TextInput
+              style={[styles.input, { color: colors.text, borderColor: colors.icon + '40' }]}
+              value={shelfName}
+              onChangeText={setShelfName}
+              placeholder="Collection name"
+              placeholderTextColor={colors.icon}
+              maxLength={60}
+              autoFocus
+              returnKeyType="done"
+              onSubmitEditing={handleSaveName}
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.modalButton} onPress={() => setNameEditor(null)}>
+                <ThemedText style={{ color: colors.icon }}>Cancel</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalButton} onPress={handleSaveName} disabled={!shelfName.trim()}>
+                <ThemedText style={{ color: shelfName.trim() ? colors.tint : colors.icon, fontWeight: '600' }}>
+                  Save
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  editText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  scrollContent: {
+    paddingBottom: 100,
+  },
+  count: {
+    opacity: 0.6,
+  },
+  shelfActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionButton: {
+    padding: 6,
+  },
+  newShelfButton: {
+    flexDirection: 'row',
+    height: 48,
+    marginHorizontal: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  newShelfText: {
+    marginLeft: 6,
+    fontWeight: '600',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  stateText: {
+    marginTop: 12,
+    marginBottom: 20,
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  primaryButton: {
+    height: 48,
+    paddingHorizontal: 32,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  modalCard: {
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    marginBottom: 16,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  modalButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+});
+
+export default LibraryScreen;
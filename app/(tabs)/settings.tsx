@@ -1,5 +1,5 @@
 import { Ionicons } from '@expo/vector-icons';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import React from 'react';
 import { ScrollView, StyleSheet, Switch, TouchableOpacity } from 'react-native';
 
@@ -8,13 +8,30 @@ import { ThemedView } from '@/components/ThemedView';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/hooks/useAuth';
 import { useTheme } from '@/hooks/useTheme';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { fetchProfile } from '@/lib/profile';
 
 const SettingsScreen = () => {
   const { theme, setTheme, toggleTheme } = useTheme();
-  const { user, signOut } = useAuth();
+  const { user, role, can, signOut } = useAuth();
   const colors = Colors[theme];
 
   const [darkMode, setDarkMode] = React.useState(theme === 'dark');
+  const [fullName, setFullName] = React.useState<string | null>(null);
+  const [deletionDate, setDeletionDate] = React.useState<string | null>(null);
+
+  // Reload on focus so edits made on the profile screen show up here.
+  useFocusEffect(
+    React.useCallback(() => {
+      if (!user) return;
+      fetchProfile(user.id)
+        .then((profile) => {
+          setFullName(profile?.full_name ?? null);
+          setDeletionDate(profile?.deletion_scheduled_for ?? null);
+        })
+        .catch((error) => console.error('Error loading profile:', error));
+    }, [user])
+  );
 
   // Sync darkMode state with theme changes
   React.useEffect(() => {
@@ -27,9 +44,47 @@ const SettingsScreen = () => {
       items: [
         {
           icon: 'person',
-          title: 'Profile',
-          subtitle: user?.email || 'Not signed in',
+          title: fullName || 'Profile',
+          subtitle: user ? [user.email, role && ROLE_LABELS[role]].filter(Boolean).join(' · ') : 'Not signed in',
+          type: 'navigate',
+          onPress: () => router.push('/account/profile'),
+        },
+        {
+          icon: 'bookmarks',
+          title: 'My Loans',
+          subtitle: 'Borrowed books, holds and returns',
+          type: 'navigate',
+          onPress: () => router.push('/loans'),
+        },
+        {
+          icon: 'bookmark',
+          title: 'My Notes',
+          subtitle: 'Bookmarks, highlights and notes',
+          type: 'navigate',
+          onPress: () => router.push('/notes'),
+        },
+        {
+          icon: 'shield-checkmark',
+          title: 'Security',
+          subtitle: 'Two-factor authentication',
           type: 'navigate',
+          onPress: () => router.push('/account/security'),
+        },
+        {
+          icon: 'phone-portrait',
+          title: 'Devices',
+          subtitle: 'Signed-in devices and sessions',
+          type: 'navigate',
+          onPress: () => router.push('/account/sessions'),
+        },
+        {
+          icon: 'document-lock',
+          title: 'Your Data',
+          subtitle: deletionDate
+            ? `Account deletion scheduled for ${new Date(deletionDate).toLocaleDateString()}`
+            : 'Download your data or delete your account',
+          type: 'navigate',
+          onPress: () => router.push('/account/data'),
         },
       ],
     },
@@ -47,8 +102,42 @@ const SettingsScreen = () => {
             setTheme(value ? 'dark' : 'light');
           },
         },
+        {
+          icon: 'download',
+          title: 'Downloads',
+          subtitle: 'Offline books and storage limit',
+          type: 'navigate',
+          onPress: () => router.push('/downloads'),
+        },
       ],
     },
+    ...(can('manage_catalog')
+      ? [
+          {
+            title: 'Staff',
+            items: [
+              {
+                icon: 'library',
+                title: 'Librarian Console',
+                subtitle: 'Add and edit catalog titles',
+                type: 'navigate',
+                onPress: () => router.push('/librarian'),
+              },
+              ...(can('manage_users')
+                ? [
+                    {
+                      icon: 'people',
+                      title: 'User Management',
+                      subtitle: 'Verify, ban and assign roles',
+                      type: 'navigate',
+                      onPress: () => router.push('/admin/users'),
+                    },
+                  ]
+                : []),
+            ],
+          },
+        ]
+      : []),
     {
       title: 'About',
       items: [
@@ -65,7 +154,6 @@ const SettingsScreen = () => {
   const handleLogout = async () => {
     try {
       await signOut();
-      router.replace('/login');
     } catch (error) {
       console.error('Logout error:', error);
     }
@@ -77,7 +165,9 @@ const SettingsScreen = () => {
       style={styles.settingItem}
       activeOpacity={0.7}
       onPress={() => {
-        if (item.type === 'navigate') {
+        if (item.onPress) {
+          item.onPress();
+        } else if (item.type === 'navigate') {
           // Handle navigation here
           console.log(`Navigate to ${item.title}`);
         }
@@ -1,11 +1,114 @@
 import { DarkTheme, DefaultTheme, ThemeProvider as NavigationThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import { Href, router, Stack, useGlobalSearchParams, useSegments } from 'expo-router';
+import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
 import 'react-native-reanimated';
 
-import { AuthProvider } from '@/hooks/useAuth';
+import { AuthProvider, useAuth } from '@/hooks/useAuth';
 import { useTheme } from '@/hooks/useTheme';
+import { setDownloadsAccount, startDownloadManager } from '@/lib/downloads';
+import { syncLoanDownloads } from '@/lib/loans';
+
+// Signed-in users are sent on from these, so they finish every sign-in flow.
+const AUTH_ROUTES = ['login', 'register', 'forgot', 'otp-verification', 'auth'];
+const OPEN_ROUTES = ['+not-found'];
+// Signed-out visitors may open these; signed-in accounts still go through approval and MFA.
+const PUBLIC_ROUTES = ['book'];
+// Where signed-in accounts wait until a librarian approves them.
+const PENDING_ROUTE = 'pending-approval';
+// Where sessions are verified with the user's authenticator app.
+const MFA_ROUTE = 'mfa-challenge';
+// Auth-route flows that run while signed in, keyed by their `flow` param.
+const SIGNED_IN_FLOWS: Record<string, string> = { 'otp-verification': 'email_change' };
+
+SplashScreen.preventAutoHideAsync();
+
+function RootNavigator() {
+  const { session, approvalStatus, mfaRequired, loading } = useAuth();
+  const segments = useSegments();
+  const params = useGlobalSearchParams();
+  // Where a signed-out user was headed, restored after they sign in.
+  const returnTo = useRef<Href | null>(null);
+  const wasSignedIn = useRef(false);
+
+  useEffect(() => {
+    if (!loading) {
+      SplashScreen.hideAsync();
+    }
+  }, [loading]);
+
+  // Offline copies belong to the signed-in account, and its loans may have
+  // been returned or renewed elsewhere since the last launch.
+  const userId = session?.user.id;
+  useEffect(() => {
+    if (Platform.OS === 'web' || loading) return;
+    setDownloadsAccount(userId ?? null)
+      .then(() => (userId ? syncLoanDownloads(userId) : undefined))
+      .catch((error) => console.error('Error syncing loan downloads:', error));
+  }, [userId, loading]);
+
+  useEffect(() => {
+    if (loading) return;
+
+    // A user who just signed out starts over at the tabs next time.
+    const signedOut = wasSignedIn.current && !session;
+    wasSignedIn.current = !!session;
+
+    const route = segments[0] ?? '';
+    if (OPEN_ROUTES.includes(route)) return;
+    const onAuthRoute = AUTH_ROUTES.includes(route) && !(session && SIGNED_IN_FLOWS[route] === params.flow);
+
+    if (!session) {
+      if (!onAuthRoute && !PUBLIC_ROUTES.includes(route)) {
+        returnTo.current = signedOut ? null : ({ pathname: `/${segments.join('/')}`, params } as Href);
+        router.replace('/login');
+      }
+    } else if (mfaRequired) {
+      if (route !== MFA_ROUTE) {
+        router.replace(`/${MFA_ROUTE}`);
+      }
+    } else if (approvalStatus !== 'approved') {
+      if (route !== PENDING_ROUTE) {
+        router.replace(`/${PENDING_ROUTE}`);
+      }
+    } else if (onAuthRoute || route === PENDING_ROUTE || route === MFA_ROUTE) {
+      const destination = returnTo.current ?? '/(tabs)';
+      returnTo.current = null;
+      router.replace(destination);
+    }
+  }, [loading, session, approvalStatus, mfaRequired, segments, params]);
+
+  return (
+    <Stack>
+      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+      <Stack.Screen name="+not-found" />
+      <Stack.Screen name="login" options={{ headerShown: false }} />
+      <Stack.Screen name="forgot" options={{ headerShown: false }} />
+      <Stack.Screen name="register" options={{ headerShown: false }} />
+      <Stack.Screen name="auth/callback" options={{ headerShown: false }} />
+      <Stack.Screen name="pending-approval" options={{ headerShown: false }} />
+      <Stack.Screen name="mfa-challenge" options={{ headerShown: false }} />
+      <Stack.Screen name="account/profile" options={{ headerShown: false }} />
+      <Stack.Screen name="account/data" options={{ headerShown: false }} />
+      <Stack.Screen name="account/security" options={{ headerShown: false }} />
+      <Stack.Screen name="account/sessions" options={{ headerShown: false }} />
+      <Stack.Screen name="search" options={{ headerShown: false }} />
+      <Stack.Screen name="book/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="reader/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="downloads" options={{ headerShown: false }} />
+      <Stack.Screen name="loans" options={{ headerShown: false }} />
+      <Stack.Screen name="notes" options={{ headerShown: false }} />
+      <Stack.Screen name="reading-lists/index" options={{ headerShown: false }} />
+      <Stack.Screen name="reading-lists/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="reading-lists/edit" options={{ headerShown: false }} />
+      <Stack.Screen name="librarian" options={{ headerShown: false }} />
+      <Stack.Screen name="admin" options={{ headerShown: false }} />
+    </Stack>
+  );
+}
 
 export default function RootLayout() {
   const { theme } = useTheme();
@@ -13,6 +116,11 @@ export default function RootLayout() {
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
 
+  useEffect(() => {
+    if (Platform.OS === 'web') return;
+    return startDownloadManager();
+  }, []);
+
   if (!loaded) {
     // Async font loading only occurs in development.
     return null;
@@ -21,13 +129,7 @@ export default function RootLayout() {
   return (
     <AuthProvider>
       <NavigationThemeProvider value={theme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Stack>
-          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-          <Stack.Screen name="+not-found" />
-          <Stack.Screen name="login" options={{ headerShown: false }} />
-          <Stack.Screen name="forgot" options={{ headerShown: false }} />
-          <Stack.Screen name="register" options={{ headerShown: false }} />
-        </Stack>
+        <RootNavigator />
         <StatusBar style="auto" />
       </NavigationThemeProvider>
     </AuthProvider>
@@ -0,0 +1,342 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { FormInput } from '@/components/FormInput';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  buildDataExport,
+  cancelAccountDeletion,
+  scheduleAccountDeletion,
+  shareDataExport,
+} from '@/lib/account';
+import { sendSignInCode } from '@/lib/authGateway';
+import { fetchProfile } from '@/lib/profile';
+import { RateLimitError } from '@/lib/rateLimitUtils';
+
+const AccountDataScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user, signOut } = useAuth();
+
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [password, setPassword] = useState('');
+  // Accounts without a password (Google or email-code sign-ins) confirm with an emailed code instead.
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [sendingCode, setSendingCode] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    if (!user) return;
+    try {
+      const profile = await fetchProfile(user.id);
+      setScheduledFor(profile?.deletion_scheduled_for ?? null);
+    } catch (error) {
+      console.error('Error loading account status:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleExport = async () => {
+    if (!user) return;
+    setExporting(true);
+    try {
+      await shareDataExport(await buildDataExport(user.id));
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      Alert.alert('Export Failed', 'We could not prepare your data. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleSendCode = async () => {
+    if (!user?.email) return;
+    setSendingCode(true);
+    try {
+      await sendSignInCode(user.email);
+      setCodeSent(true);
+      setPassword('');
+      Alert.alert('Check Your Email', `Enter the code we sent to ${user.email} to confirm.`);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        Alert.alert('Try Again Later', error.message);
+        return;
+      }
+      console.error('Error sending deletion code:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'We could not send the code.');
+    } finally {
+      setSendingCode(false);
+    }
+  };
+
+  const handleUsePassword = () => {
+    setCodeSent(false);
+    setCode('');
+  };
+
+  const handleDelete = () => {
+    if (codeSent ? !code.trim() : !password) {
+      Alert.alert('Error', codeSent ? 'Please enter the code we emailed you' : 'Please enter your password to confirm');
+      return;
+    }
+
+    Alert.alert(
+      'Delete Account',
+      `Your account, reading history, shelves and notes will be deleted in ${ACCOUNT_DELETION_GRACE_DAYS} days. You will be signed out on every device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setDeleting(true);
+            try {
+              const date = await scheduleAccountDeletion(codeSent ? { code } : { password });
+              setPassword('');
+              setCode('');
+              Alert.alert(
+                'Deletion Scheduled',
+                `Your account will be deleted on ${new Date(date).toLocaleDateString()}. Sign in before then if you change your mind.`,
+                [{ text: 'OK', onPress: () => signOut('global') }]
+              );
+            } catch (error) {
+              if (error instanceof RateLimitError) {
+                Alert.alert('Try Again Later', error.message);
+                return;
+              }
+              console.error('Error scheduling deletion:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'We could not delete your account.');
+            } finally {
+              setDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleKeepAccount = async () => {
+    if (!user) return;
+    setDeleting(true);
+    try {
+      await cancelAccountDeletion(user.id);
+      setScheduledFor(null);
+      Alert.alert('Deletion Cancelled', 'Your account will not be deleted.');
+    } catch (error) {
+      console.error('Error cancelling deletion:', error);
+      Alert.alert('Error', 'We could not cancel the deletion. Please try again.');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const renderDeletion = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color={colors.tint} />;
+    }
+
+    if (scheduledFor) {
+      return (
+        <>
+          <ThemedText style={styles.body}>
+            Your account is scheduled to be deleted on {new Date(scheduledFor).toLocaleDateString()}.
+          </ThemedText>
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: colors.tint, opacity: deleting ? 0.7 : 1 }]}
+            onPress={handleKeepAccount}
+            disabled={deleting}
+            activeOpacity={0.8}
+          >
+            <ThemedText style={[styles.primaryButtonText, { color: colors.background }]}>Keep My Account</ThemedText>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <ThemedText style={styles.body}>
+          Your account is kept for {ACCOUNT_DELETION_GRACE_DAYS} days after you ask, in case you change your mind.
+          After that it is removed for good, along with your profile photo.
+        </ThemedText>
+        {codeSent ? (
+          <FormInput
+            icon="key"
+            placeholder="Code from your email"
+            value={code}
+            onChangeText={setCode}
+            keyboardType="number-pad"
+            autoCapitalize="none"
+          />
+        ) : (
+          <FormInput
+            icon="lock-closed"
+            placeholder="Current Password"
+            value={password}
+            onChangeText={setPassword}
+            secure
+            autoCapitalize="none"
+          />
+        )}
+        <TouchableOpacity
+          onPress={codeSent ? handleUsePassword : handleSendCode}
+          disabled={sendingCode}
+          activeOpacity={0.7}
+        >
+          <ThemedText style={[styles.hint, { color: colors.tint }]}>
+            {codeSent
+              ? 'Use my password instead'
+              : sendingCode
+                ? 'Sending code...'
+                : 'Signed up with Google or an email code? Email me a code instead'}
+          </ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, { backgroundColor: '#FF3B30', opacity: deleting ? 0.7 : 1 }]}
+          onPress={handleDelete}
+          disabled={deleting}
+          activeOpacity={0.8}
+        >
+          <ThemedText style={[styles.primaryButtonText, { color: '#FFFFFF' }]}>
+            {deleting ? 'Deleting...' : 'Delete My Account'}
+          </ThemedText>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <ThemedView style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+            <Ionicons name="arrow-back" size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText type="title" style={styles.headerTitle}>
+            Your Data
+          </ThemedText>
+          <ThemedText style={styles.headerSubtitle}>Download or delete your account</ThemedText>
+        </ThemedView>
+
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Download My Data
+          </ThemedText>
+          <ThemedText style={styles.body}>
+            A ZIP of JSON files with your profile, reading history, shelves, notes, loans, holds, reading lists and signed-in devices.
+          </ThemedText>
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor: colors.tint, opacity: exporting ? 0.7 : 1 }]}
+            onPress={handleExport}
+            disabled={exporting}
+            activeOpacity={0.8}
+          >
+            {exporting ? (
+              <ActivityIndicator color={colors.tint} />
+            ) : (
+              <>
+                <Ionicons name="download-outline" size={20} color={colors.tint} />
+                <ThemedText style={[styles.secondaryButtonText, { color: colors.tint }]}>Download</ThemedText>
+              </>
+            )}
+          </TouchableOpacity>
+        </ThemedView>
+
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Delete My Account
+          </ThemedText>
+          {renderDeletion()}
+        </ThemedView>
+      </ScrollView>
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  section: {
+    paddingHorizontal: 20,
+    marginBottom: 32,
+  },
+  sectionTitle: {
+    marginBottom: 12,
+  },
+  body: {
+    fontSize: 15,
+    lineHeight: 22,
+    opacity: 0.8,
+    marginBottom: 16,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginBottom: 16,
+  },
+  loading: {
+    marginTop: 8,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    marginLeft: 8,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default AccountDataScreen;
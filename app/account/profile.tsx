@@ -0,0 +1,417 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { FormInput } from '@/components/FormInput';
+import { PasswordStrengthMeter } from '@/components/PasswordStrengthMeter';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import { storeOTPData } from '@/lib/otpUtils';
+import { checkPassword } from '@/lib/passwordPolicy';
+import { ROLE_LABELS } from '@/lib/permissions';
+import {
+  changePassword,
+  fetchProfile,
+  getAvatarUrl,
+  MAX_STUDY_YEAR,
+  Profile,
+  requestEmailChange,
+  updateProfile,
+  uploadAvatar,
+  validateAvatar,
+} from '@/lib/profile';
+import { RateLimitError } from '@/lib/rateLimitUtils';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const ProfileScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user, role } = useAuth();
+
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [fullName, setFullName] = useState('');
+  const [department, setDepartment] = useState('');
+  const [studyYear, setStudyYear] = useState('');
+  const [savingDetails, setSavingDetails] = useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+
+  const [newEmail, setNewEmail] = useState('');
+  const [changingEmail, setChangingEmail] = useState(false);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+
+  const email = user?.email ?? '';
+
+  const loadProfile = useCallback(async () => {
+    if (!user) return;
+    try {
+      const current = await fetchProfile(user.id);
+      setProfile(current);
+      setFullName(current?.full_name ?? '');
+      setDepartment(current?.department ?? '');
+      setStudyYear(current?.study_year ? String(current.study_year) : '');
+    } catch (error) {
+      console.error('Error loading profile:', error);
+      Alert.alert('Error', 'We could not load your profile. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const handlePickAvatar = async () => {
+    if (!profile) return;
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+    if (result.canceled) return;
+
+    const asset = result.assets[0];
+    const avatar = { uri: asset.uri, mimeType: asset.mimeType, size: asset.fileSize };
+    const invalid = validateAvatar(avatar);
+    if (invalid) {
+      Alert.alert('Unsupported Image', invalid);
+      return;
+    }
+
+    setUploadingAvatar(true);
+    try {
+      const path = await uploadAvatar(profile, avatar);
+      setProfile({ ...profile, avatar_path: path });
+    } catch (error) {
+      console.error('Error uploading avatar:', error);
+      Alert.alert('Upload Failed', 'We could not update your picture. Please try again.');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handleSaveDetails = async () => {
+    if (!user) return;
+
+    const year = studyYear.trim() ? Number(studyYear) : null;
+    if (year !== null && (!Number.isInteger(year) || year < 1 || year > MAX_STUDY_YEAR)) {
+      Alert.alert('Error', `Year of study must be a number from 1 to ${MAX_STUDY_YEAR}`);
+      return;
+    }
+
+    setSavingDetails(true);
+    try {
+      const update = {
+        full_name: fullName.trim() || null,
+        department: department.trim() || null,
+        study_year: year,
+      };
+      await updateProfile(user.id, update);
+      setProfile((current) => (current ? { ...current, ...update } : current));
+      Alert.alert('Profile Saved', 'Your details have been updated.');
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      Alert.alert('Error', 'We could not save your details. Please try again.');
+    } finally {
+      setSavingDetails(false);
+    }
+  };
+
+  const handleChangeEmail = async () => {
+    const target = newEmail.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(target)) {
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+    if (target === email.toLowerCase()) {
+      Alert.alert('Error', 'That is already your email address');
+      return;
+    }
+
+    setChangingEmail(true);
+    try {
+      await requestEmailChange(target);
+      await storeOTPData({ email: target, type: 'email_change' });
+      setNewEmail('');
+      router.push({ pathname: '/otp-verification', params: { flow: 'email_change' } });
+    } catch (error) {
+      console.error('Error requesting email change:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'We could not change your email. Please try again.');
+    } finally {
+      setChangingEmail(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      Alert.alert('Error', 'Please fill in all password fields');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      Alert.alert('Error', 'New passwords do not match');
+      return;
+    }
+
+    const passwordCheck = checkPassword(newPassword, [email, fullName]);
+    if (!passwordCheck.valid) {
+      Alert.alert('Choose a Stronger Password', passwordCheck.errors.join('\n'));
+      return;
+    }
+
+    setChangingPassword(true);
+    try {
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      Alert.alert('Password Updated', 'Use your new password the next time you sign in.');
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        Alert.alert('Try Again Later', error.message);
+        return;
+      }
+      console.error('Error changing password:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'We could not change your password.');
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const avatarUrl = profile ? getAvatarUrl(profile) : null;
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <ThemedView style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+            <Ionicons name="arrow-back" size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText type="title" style={styles.headerTitle}>
+            Profile
+          </ThemedText>
+          <ThemedText style={styles.headerSubtitle}>
+            {[email, role && ROLE_LABELS[role]].filter(Boolean).join(' · ')}
+          </ThemedText>
+        </ThemedView>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} color={colors.tint} />
+        ) : (
+          <>
+            <ThemedView style={styles.avatarSection}>
+              <TouchableOpacity onPress={handlePickAvatar} disabled={uploadingAvatar} activeOpacity={0.8}>
+                {avatarUrl ? (
+                  <Image source={{ uri: avatarUrl }} style={styles.avatar} contentFit="cover" />
+                ) : (
+                  <ThemedView style={[styles.avatar, styles.avatarPlaceholder, { backgroundColor: colors.tint + '20' }]}>
+                    <Ionicons name="person" size={48} color={colors.tint} />
+                  </ThemedView>
+                )}
+                {uploadingAvatar && <ActivityIndicator style={styles.avatarSpinner} color={colors.tint} />}
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handlePickAvatar} disabled={uploadingAvatar}>
+                <ThemedText style={[styles.avatarLink, { color: colors.tint }]}>
+                  {avatarUrl ? 'Change Photo' : 'Add Photo'}
+                </ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+
+            <ThemedView style={styles.section}>
+              <ThemedText type="subtitle" style={styles.sectionTitle}>
+                Details
+              </ThemedText>
+              <FormInput icon="person" placeholder="Full Name" value={fullName} onChangeText={setFullName} />
+              <FormInput icon="business" placeholder="Department" value={department} onChangeText={setDepartment} />
+              <FormInput
+                icon="school"
+                placeholder={`Year of Study (1-${MAX_STUDY_YEAR})`}
+                value={studyYear}
+                onChangeText={setStudyYear}
+                keyboardType="number-pad"
+                maxLength={1}
+              />
+              <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: colors.tint, opacity: savingDetails ? 0.7 : 1 }]}
+                onPress={handleSaveDetails}
+                disabled={savingDetails}
+                activeOpacity={0.8}
+              >
+                <ThemedText style={[styles.primaryButtonText, { color: colors.background }]}>
+                  {savingDetails ? 'Saving...' : 'Save Details'}
+                </ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+
+            <ThemedView style={styles.section}>
+              <ThemedText type="subtitle" style={styles.sectionTitle}>
+                Email
+              </ThemedText>
+              <ThemedText style={styles.hint}>
+                We will send a code to the new address. Your email changes once you enter it.
+              </ThemedText>
+              <FormInput
+                icon="mail"
+                placeholder="New Email Address"
+                value={newEmail}
+                onChangeText={setNewEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: colors.tint, opacity: changingEmail ? 0.7 : 1 }]}
+                onPress={handleChangeEmail}
+                disabled={changingEmail}
+                activeOpacity={0.8}
+              >
+                <ThemedText style={[styles.secondaryButtonText, { color: colors.tint }]}>
+                  {changingEmail ? 'Sending Code...' : 'Change Email'}
+                </ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+
+            <ThemedView style={styles.section}>
+              <ThemedText type="subtitle" style={styles.sectionTitle}>
+                Password
+              </ThemedText>
+              <FormInput
+                icon="lock-closed"
+                placeholder="Current Password"
+                value={currentPassword}
+                onChangeText={setCurrentPassword}
+                secure
+                autoCapitalize="none"
+              />
+              <FormInput
+                icon="lock-closed"
+                placeholder="New Password"
+                value={newPassword}
+                onChangeText={setNewPassword}
+                secure
+                autoCapitalize="none"
+              />
+              <PasswordStrengthMeter password={newPassword} context={[email, fullName]} />
+              <FormInput
+                icon="lock-closed"
+                placeholder="Confirm New Password"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secure
+                autoCapitalize="none"
+              />
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: colors.tint, opacity: changingPassword ? 0.7 : 1 }]}
+                onPress={handleChangePassword}
+                disabled={changingPassword}
+                activeOpacity={0.8}
+              >
+                <ThemedText style={[styles.secondaryButtonText, { color: colors.tint }]}>
+                  {changingPassword ? 'Updating...' : 'Change Password'}
+                </ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  avatarSection: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+  },
+  avatarPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarSpinner: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  avatarLink: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  section: {
+    paddingHorizontal: 20,
+    marginTop: 24,
+  },
+  sectionTitle: {
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginBottom: 12,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ProfileScreen;
@@ -0,0 +1,396 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Factor } from '@supabase/supabase-js';
+import { Image } from 'expo-image';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, Share, StyleSheet, TouchableOpacity } from 'react-native';
+
+import OTPInput from '@/components/OTPInput';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  countRecoveryCodes,
+  fetchTotpFactor,
+  generateRecoveryCodes,
+  removeTotpFactor,
+  startTotpEnrollment,
+  TotpEnrollment,
+  verifyTotpCode,
+} from '@/lib/mfa';
+
+const SecurityScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { can } = useAuth();
+
+  const [factor, setFactor] = useState<Factor | null>(null);
+  const [codesLeft, setCodesLeft] = useState(0);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  // Remounts the code input so a wrong code is cleared.
+  const [attempt, setAttempt] = useState(0);
+  const busy = useRef(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const current = await fetchTotpFactor();
+      setFactor(current);
+      setCodesLeft(current ? await countRecoveryCodes() : 0);
+    } catch (error) {
+      console.error('Error loading two-factor status:', error);
+      Alert.alert('Error', 'We could not load your security settings. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleStartEnrollment = async () => {
+    setWorking(true);
+    try {
+      setEnrollment(await startTotpEnrollment());
+    } catch (error) {
+      console.error('Error starting enrolment:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not start setup. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleVerify = useCallback(
+    async (code: string) => {
+      if (!enrollment || busy.current) return;
+      busy.current = true;
+      setWorking(true);
+      try {
+        await verifyTotpCode(enrollment.factorId, code);
+        setEnrollment(null);
+        setRecoveryCodes(await generateRecoveryCodes());
+        await loadStatus();
+      } catch (error) {
+        console.error('Error verifying authenticator:', error);
+        Alert.alert('Invalid Code', 'That code did not match. Check the time on your device and try again.');
+        setAttempt((value) => value + 1);
+      } finally {
+        busy.current = false;
+        setWorking(false);
+      }
+    },
+    [enrollment, loadStatus]
+  );
+
+  const handleRegenerate = () => {
+    Alert.alert('New Recovery Codes', 'Your current recovery codes will stop working.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Generate',
+        onPress: async () => {
+          setWorking(true);
+          try {
+            setRecoveryCodes(await generateRecoveryCodes());
+            await loadStatus();
+          } catch (error) {
+            console.error('Error generating recovery codes:', error);
+            Alert.alert('Error', 'Could not create new recovery codes. Please try again.');
+          } finally {
+            setWorking(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleDisable = () => {
+    if (!factor) return;
+    Alert.alert(
+      'Turn Off Two-Factor Authentication',
+      can('manage_catalog')
+        ? 'Without it you will not be able to change the catalog or approve members.'
+        : 'Your account will be protected by your password only.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: async () => {
+            setWorking(true);
+            try {
+              await removeTotpFactor(factor.id);
+              await loadStatus();
+            } catch (error) {
+              console.error('Error removing authenticator:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Please try again.');
+            } finally {
+              setWorking(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleShareCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await Share.share({ message: `BCI Library recovery codes\n\n${recoveryCodes.join('\n')}` });
+    } catch (error) {
+      console.error('Share error:', error);
+    }
+  };
+
+  const renderRecoveryCodes = (codes: string[]) => (
+    <ThemedView style={styles.section}>
+      <ThemedText type="defaultSemiBold">Save your recovery codes</ThemedText>
+      <ThemedText style={styles.hint}>
+        Each code works once if you lose your authenticator. They will not be shown again.
+      </ThemedText>
+      <ThemedView style={[styles.codeGrid, { borderColor: colors.icon + '40' }]}>
+        {codes.map((code) => (
+          <ThemedText key={code} style={styles.code} selectable>
+            {code}
+          </ThemedText>
+        ))}
+      </ThemedView>
+      <TouchableOpacity style={[styles.secondaryButton, { borderColor: colors.tint }]} onPress={handleShareCodes}>
+        <Ionicons name="share-outline" size={18} color={colors.tint} />
+        <ThemedText style={[styles.secondaryButtonText, { color: colors.tint }]}>Save or Share</ThemedText>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.primaryButton, { backgroundColor: colors.tint }]}
+        onPress={() => setRecoveryCodes(null)}
+      >
+        <ThemedText style={[styles.primaryButtonText, { color: colors.background }]}>I Saved My Codes</ThemedText>
+      </TouchableOpacity>
+    </ThemedView>
+  );
+
+  const renderEnrollment = (current: TotpEnrollment) => (
+    <ThemedView style={styles.section}>
+      <ThemedText type="defaultSemiBold">1. Scan this code</ThemedText>
+      <ThemedText style={styles.hint}>Use an authenticator app such as Google Authenticator or 1Password.</ThemedText>
+      <ThemedView style={styles.qrContainer}>
+        <Image source={{ uri: current.qrCodeUri }} style={styles.qrCode} contentFit="contain" />
+      </ThemedView>
+      <ThemedText style={styles.hint}>Can&apos;t scan it? Enter this key instead:</ThemedText>
+      <ThemedText style={styles.secret} selectable>
+        {current.secret}
+      </ThemedText>
+
+      <ThemedText type="defaultSemiBold" style={styles.stepTitle}>
+        2. Enter the 6-digit code
+      </ThemedText>
+      <OTPInput key={attempt} length={6} onComplete={handleVerify} disabled={working} />
+      <TouchableOpacity style={styles.linkButton} onPress={() => setEnrollment(null)}>
+        <ThemedText style={{ color: colors.tint }}>Cancel</ThemedText>
+      </TouchableOpacity>
+    </ThemedView>
+  );
+
+  const renderStatus = () => (
+    <ThemedView style={styles.section}>
+      <ThemedView style={styles.statusRow}>
+        <Ionicons
+          name={factor ? 'shield-checkmark' : 'shield-outline'}
+          size={28}
+          color={factor ? '#34C759' : colors.icon}
+        />
+        <ThemedView style={styles.statusText}>
+          <ThemedText type="defaultSemiBold">
+            Two-factor authentication is {factor ? 'on' : 'off'}
+          </ThemedText>
+          <ThemedText style={styles.hint}>
+            {factor
+              ? `${codesLeft} recovery ${codesLeft === 1 ? 'code' : 'codes'} left`
+              : 'Sign-ins will also ask for a code from an authenticator app.'}
+          </ThemedText>
+        </ThemedView>
+      </ThemedView>
+
+      {!factor && can('manage_catalog') && (
+        <ThemedText style={[styles.hint, styles.staffNotice]}>
+          Staff accounts need two-factor authentication to change the catalog or approve members.
+        </ThemedText>
+      )}
+
+      {factor ? (
+        <>
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor: colors.tint }]}
+            onPress={handleRegenerate}
+            disabled={working}
+          >
+            <Ionicons name="refresh" size={18} color={colors.tint} />
+            <ThemedText style={[styles.secondaryButtonText, { color: colors.tint }]}>New Recovery Codes</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkButton} onPress={handleDisable} disabled={working}>
+            <ThemedText style={{ color: '#FF3B30' }}>Turn Off</ThemedText>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <TouchableOpacity
+          style={[styles.primaryButton, { backgroundColor: colors.tint }]}
+          onPress={handleStartEnrollment}
+          disabled={working}
+        >
+          <ThemedText style={[styles.primaryButtonText, { color: colors.background }]}>Set Up Authenticator</ThemedText>
+        </TouchableOpacity>
+      )}
+    </ThemedView>
+  );
+
+  const renderContent = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color={colors.tint} />;
+    }
+    if (recoveryCodes) {
+      return renderRecoveryCodes(recoveryCodes);
+    }
+    if (enrollment) {
+      return renderEnrollment(enrollment);
+    }
+    return renderStatus();
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <ThemedView style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+            <Ionicons name="arrow-back" size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText type="title" style={styles.headerTitle}>
+            Security
+          </ThemedText>
+          <ThemedText style={styles.headerSubtitle}>Two-factor authentication</ThemedText>
+        </ThemedView>
+        {renderContent()}
+        {working && <ActivityIndicator style={styles.loading} color={colors.tint} />}
+      </ScrollView>
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  section: {
+    paddingHorizontal: 20,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  statusText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  staffNotice: {
+    marginBottom: 16,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  stepTitle: {
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginVertical: 16,
+    alignSelf: 'center',
+  },
+  qrCode: {
+    width: 200,
+    height: 200,
+  },
+  secret: {
+    fontFamily: 'SpaceMono',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  codeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginVertical: 16,
+  },
+  code: {
+    width: '50%',
+    fontFamily: 'SpaceMono',
+    fontSize: 15,
+    paddingVertical: 6,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    marginLeft: 8,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  loading: {
+    marginTop: 24,
+  },
+});
+
+export default SecurityScreen;
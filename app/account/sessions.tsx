@@ -0,0 +1,300 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { ComponentProps, useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, RefreshControl, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import { fetchSessions, getSessionId, revokeSession, UserSession } from '@/lib/sessions';
+
+const PLATFORM_ICONS: Record<string, ComponentProps<typeof Ionicons>['name']> = {
+  ios: 'phone-portrait',
+  android: 'phone-portrait-outline',
+  web: 'globe-outline',
+};
+
+const PLATFORM_LABELS: Record<string, string> = {
+  ios: 'iOS',
+  android: 'Android',
+  web: 'Web',
+};
+
+const formatLastSeen = (timestamp: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 2) return 'Active now';
+  if (minutes < 60) return `Active ${minutes} minutes ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Active ${hours} ${hours === 1 ? 'hour' : 'hours'} ago`;
+  return `Last active ${new Date(timestamp).toLocaleDateString()}`;
+};
+
+const SessionsScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { session, signOut } = useAuth();
+  const currentId = session ? getSessionId(session) : null;
+
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setError(null);
+    try {
+      const list = await fetchSessions();
+      // Keep this device at the top.
+      setSessions([...list].sort((a, b) => Number(b.session_id === currentId) - Number(a.session_id === currentId)));
+    } catch (err) {
+      console.error('Error loading sessions:', err);
+      setError('We could not load your devices. Please check your connection.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [currentId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadSessions();
+  };
+
+  const handleRevoke = (item: UserSession) => {
+    Alert.alert('Sign Out Device', `Sign out ${item.device_name ?? 'this device'}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await revokeSession(item.session_id);
+            setSessions((current) => current.filter((entry) => entry.session_id !== item.session_id));
+          } catch (err) {
+            console.error('Error revoking session:', err);
+            Alert.alert('Error', 'We could not sign out that device. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSignOutOthers = () => {
+    Alert.alert('Sign Out Other Devices', 'Every other device will need to sign in again.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out Others',
+        style: 'destructive',
+        onPress: async () => {
+          await signOut('others');
+          loadSessions();
+        },
+      },
+    ]);
+  };
+
+  const handleSignOutAll = () => {
+    Alert.alert('Sign Out Everywhere', 'You will be signed out on every device, including this one.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Sign Out All', style: 'destructive', onPress: () => signOut('global') },
+    ]);
+  };
+
+  const renderSession = ({ item }: { item: UserSession }) => {
+    const isCurrent = item.session_id === currentId;
+    return (
+      <ThemedView style={styles.sessionItem}>
+        <Ionicons
+          name={PLATFORM_ICONS[item.platform] ?? 'hardware-chip-outline'}
+          size={28}
+          color={isCurrent ? colors.tint : colors.icon}
+          style={styles.sessionIcon}
+        />
+        <ThemedView style={styles.sessionText}>
+          <ThemedView style={styles.sessionTitleRow}>
+            <ThemedText type="defaultSemiBold" numberOfLines={1} style={styles.sessionName}>
+              {item.device_name ?? 'Unknown device'}
+            </ThemedText>
+            {isCurrent && (
+              <ThemedView style={[styles.badge, { backgroundColor: colors.tint + '20' }]}>
+                <ThemedText style={[styles.badgeText, { color: colors.tint }]}>This device</ThemedText>
+              </ThemedView>
+            )}
+          </ThemedView>
+          <ThemedText style={styles.sessionMeta}>
+            {[PLATFORM_LABELS[item.platform] ?? item.platform, item.app_version && `v${item.app_version}`]
+              .filter(Boolean)
+              .join(' · ')}
+          </ThemedText>
+          <ThemedText style={styles.sessionMeta}>
+            {isCurrent ? 'Active now' : formatLastSeen(item.last_seen_at)}
+          </ThemedText>
+        </ThemedView>
+        <TouchableOpacity
+          onPress={() => (isCurrent ? signOut() : handleRevoke(item))}
+          style={styles.signOutButton}
+          activeOpacity={0.7}
+        >
+          <ThemedText style={styles.signOutText}>Sign out</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color={colors.tint} />;
+    }
+    return <ThemedText style={styles.emptyText}>{error ?? 'No signed-in devices found.'}</ThemedText>;
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.headerTitle}>
+          Devices
+        </ThemedText>
+        <ThemedText style={styles.headerSubtitle}>Where you are signed in</ThemedText>
+      </ThemedView>
+
+      <FlatList
+        data={sessions}
+        keyExtractor={(item) => item.session_id}
+        renderItem={renderSession}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />}
+        ListEmptyComponent={renderEmpty}
+        ListFooterComponent={
+          <ThemedView style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.footerButton, { borderColor: colors.tint }]}
+              onPress={handleSignOutOthers}
+              activeOpacity={0.8}
+            >
+              <ThemedText style={[styles.footerButtonText, { color: colors.tint }]}>
+                Sign Out Everywhere Else
+              </ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.footerButton, { borderColor: '#FF3B30' }]}
+              onPress={handleSignOutAll}
+              activeOpacity={0.8}
+            >
+              <ThemedText style={[styles.footerButtonText, { color: '#FF3B30' }]}>Sign Out All Devices</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={styles.hint}>
+              A signed-out device may keep access for up to an hour until its current sign-in token expires.
+            </ThemedText>
+          </ThemedView>
+        }
+        contentContainerStyle={styles.listContent}
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  listContent: {
+    paddingBottom: 32,
+  },
+  sessionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  sessionIcon: {
+    marginRight: 12,
+  },
+  sessionText: {
+    flex: 1,
+  },
+  sessionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sessionName: {
+    flexShrink: 1,
+  },
+  sessionMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  badge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 8,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  signOutButton: {
+    padding: 8,
+  },
+  signOutText: {
+    color: '#FF3B30',
+    fontSize: 14,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  footerButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  footerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 24,
+  },
+});
+
+export default SessionsScreen;
@@ -0,0 +1,445 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { ComponentProps, useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  ADMIN_ACTION_LABELS,
+  AdminAction,
+  AdminUser,
+  AuditLogEntry,
+  fetchAuditLog,
+  isBanned,
+  runAdminAction,
+  searchUsers,
+} from '@/lib/adminUsers';
+import { Role, ROLE_LABELS, ROLES } from '@/lib/permissions';
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+const UserManagementScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user: currentUser } = useAuth();
+
+  const [query, setQuery] = useState('');
+  const debouncedQuery = useDebouncedValue(query, SEARCH_DEBOUNCE_MS);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async (search: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setUsers(await searchUsers(search));
+    } catch (err) {
+      console.error('Error searching users:', err);
+      setError(err instanceof Error ? err.message : 'We could not load users.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers(debouncedQuery);
+  }, [debouncedQuery, loadUsers]);
+
+  const loadAuditLog = async (userId: string) => {
+    setAuditLog([]);
+    try {
+      setAuditLog(await fetchAuditLog(userId));
+    } catch (err) {
+      console.error('Error loading audit log:', err);
+    }
+  };
+
+  const toggleExpanded = (item: AdminUser) => {
+    if (expandedId === item.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(item.id);
+    loadAuditLog(item.id);
+  };
+
+  const runAction = async (item: AdminUser, action: AdminAction, role?: Role) => {
+    setWorkingId(item.id);
+    try {
+      const updated = await runAdminAction(item.id, action, role);
+      setUsers((current) => current.map((entry) => (entry.id === updated.id ? updated : entry)));
+      loadAuditLog(item.id);
+    } catch (err) {
+      console.error(`Error running ${action}:`, err);
+      Alert.alert('Error', err instanceof Error ? err.message : 'That action failed. Please try again.');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const confirmAction = (item: AdminUser, action: AdminAction, title: string, message: string, role?: Role) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Continue',
+        style: action === 'ban' ? 'destructive' : 'default',
+        onPress: () => runAction(item, action, role),
+      },
+    ]);
+  };
+
+  const renderActionButton = (label: string, icon: ComponentProps<typeof Ionicons>['name'], onPress: () => void, destructive = false) => {
+    const color = destructive ? '#FF3B30' : colors.tint;
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[styles.actionChip, { borderColor: color }]}
+        onPress={onPress}
+        activeOpacity={0.7}
+      >
+        <Ionicons name={icon} size={16} color={color} />
+        <ThemedText style={[styles.actionChipText, { color }]}>{label}</ThemedText>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDetails = (item: AdminUser) => {
+    const banned = isBanned(item);
+    const isSelf = item.id === currentUser?.id;
+    const email = item.email ?? 'this account';
+
+    return (
+      <ThemedView style={styles.details}>
+        <ThemedText style={styles.detailLine}>
+          Signed up {new Date(item.created_at).toLocaleDateString()}
+          {item.last_sign_in_at ? ` · Last sign-in ${new Date(item.last_sign_in_at).toLocaleDateString()}` : ''}
+        </ThemedText>
+        {item.approval_status && item.approval_status !== 'approved' && (
+          <ThemedText style={styles.detailLine}>Membership {item.approval_status}</ThemedText>
+        )}
+
+        <ThemedView style={styles.actionRow}>
+          {!item.email_confirmed_at &&
+            renderActionButton('Resend', 'mail-outline', () =>
+              confirmAction(
+                item,
+                'resend_confirmation',
+                'Resend Confirmation',
+                `Send a new confirmation email to ${email}?`
+              )
+            )}
+          {!item.email_confirmed_at &&
+            renderActionButton('Confirm', 'checkmark-done', () =>
+              confirmAction(item, 'confirm_email', 'Confirm Email', `Mark ${email} as confirmed without a code?`)
+            )}
+          {renderActionButton('Reset Limits', 'timer-outline', () =>
+            confirmAction(
+              item,
+              'reset_rate_limits',
+              'Reset Rate Limits',
+              `Clear sign-in and email rate limits for ${email}?`
+            )
+          )}
+          {!isSelf &&
+            (banned
+              ? renderActionButton('Unban', 'lock-open-outline', () =>
+                  confirmAction(item, 'unban', 'Unban User', `Let ${email} sign in again?`)
+                )
+              : renderActionButton(
+                  'Ban',
+                  'ban',
+                  () => confirmAction(item, 'ban', 'Ban User', `${email} will be unable to sign in until unbanned.`),
+                  true
+                ))}
+        </ThemedView>
+
+        {!isSelf && (
+          <>
+            <ThemedText type="defaultSemiBold" style={styles.detailHeading}>
+              Role
+            </ThemedText>
+            <ThemedView style={styles.actionRow}>
+              {ROLES.map((role) => {
+                const selected = role === item.role;
+                return (
+                  <TouchableOpacity
+                    key={role}
+                    style={[
+                      styles.roleChip,
+                      {
+                        borderColor: selected ? colors.tint : colors.icon + '40',
+                        backgroundColor: selected ? colors.tint + '20' : 'transparent',
+                      },
+                    ]}
+                    onPress={() =>
+                      !selected &&
+                      confirmAction(item, 'set_role', 'Change Role', `Change ${email} to ${ROLE_LABELS[role]}?`, role)
+                    }
+                    activeOpacity={0.7}
+                  >
+                    <ThemedText style={[styles.roleChipText, selected && { color: colors.tint }]}>
+                      {ROLE_LABELS[role]}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </ThemedView>
+          </>
+        )}
+
+        <ThemedText type="defaultSemiBold" style={styles.detailHeading}>
+          History
+        </ThemedText>
+        {auditLog.length === 0 ? (
+          <ThemedText style={styles.detailLine}>No admin actions yet.</ThemedText>
+        ) : (
+          auditLog.map((entry) => (
+            <ThemedText key={entry.id} style={styles.detailLine}>
+              {new Date(entry.created_at).toLocaleString()} · {ADMIN_ACTION_LABELS[entry.action]}
+              {entry.action === 'set_role' && typeof entry.details.role === 'string'
+                ? ` to ${ROLE_LABELS[entry.details.role as Role] ?? entry.details.role}`
+                : ''}
+              {entry.details.error ? ' (failed)' : ''}
+            </ThemedText>
+          ))
+        )}
+      </ThemedView>
+    );
+  };
+
+  const renderUser = ({ item }: { item: AdminUser }) => {
+    const expanded = item.id === expandedId;
+    const banned = isBanned(item);
+
+    return (
+      <ThemedView style={[styles.userItem, { borderBottomColor: colors.icon + '20' }]}>
+        <TouchableOpacity style={styles.userRow} onPress={() => toggleExpanded(item)} activeOpacity={0.7}>
+          <ThemedView style={styles.userInfo}>
+            <ThemedText style={styles.userName} numberOfLines={1}>
+              {item.full_name || item.email || 'Unnamed account'}
+            </ThemedText>
+            <ThemedText style={styles.userMeta} numberOfLines={1}>
+              {[item.full_name && item.email, ROLE_LABELS[item.role]].filter(Boolean).join(' · ')}
+            </ThemedText>
+            <ThemedView style={styles.badgeRow}>
+              <ThemedView
+                style={[styles.badge, { backgroundColor: (item.email_confirmed_at ? '#34C759' : '#FF9500') + '20' }]}
+              >
+                <ThemedText style={[styles.badgeText, { color: item.email_confirmed_at ? '#34C759' : '#FF9500' }]}>
+                  {item.email_confirmed_at ? 'Verified' : 'Unverified'}
+                </ThemedText>
+              </ThemedView>
+              {banned && (
+                <ThemedView style={[styles.badge, { backgroundColor: '#FF3B3020' }]}>
+                  <ThemedText style={[styles.badgeText, { color: '#FF3B30' }]}>Banned</ThemedText>
+                </ThemedView>
+              )}
+            </ThemedView>
+          </ThemedView>
+          {workingId === item.id ? (
+            <ActivityIndicator color={colors.tint} />
+          ) : (
+            <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color={colors.icon} />
+          )}
+        </TouchableOpacity>
+        {expanded && renderDetails(item)}
+      </ThemedView>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color={colors.tint} />;
+    }
+    return (
+      <ThemedView style={styles.emptyState}>
+        <Ionicons name={error ? 'alert-circle' : 'people-outline'} size={48} color={colors.icon} />
+        <ThemedText style={styles.emptyText}>{error ?? 'No users match that search.'}</ThemedText>
+      </ThemedView>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.headerTitle}>
+          Users
+        </ThemedText>
+        <ThemedText style={styles.headerSubtitle}>Verification, bans and roles</ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.toolbar}>
+        <ThemedView style={[styles.searchInputContainer, { backgroundColor: colors.icon + '15' }]}>
+          <Ionicons name="search" size={18} color={colors.icon} style={styles.searchIcon} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            placeholder="Email, name or member ID"
+            placeholderTextColor={colors.icon}
+            value={query}
+            onChangeText={setQuery}
+            returnKeyType="search"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </ThemedView>
+      </ThemedView>
+
+      <FlatList
+        data={loading ? [] : users}
+        keyExtractor={(item) => item.id}
+        renderItem={renderUser}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  toolbar: {
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  searchInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 44,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    height: '100%',
+  },
+  listContent: {
+    paddingBottom: 32,
+  },
+  userItem: {
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  userRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  userInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  userName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  userMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 6,
+  },
+  badge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  details: {
+    marginTop: 12,
+  },
+  detailHeading: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  detailLine: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginBottom: 4,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  actionChipText: {
+    fontSize: 14,
+    marginLeft: 6,
+  },
+  roleChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  roleChipText: {
+    fontSize: 14,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginTop: 12,
+  },
+});
+
+export default UserManagementScreen;
@@ -1,43 +1,79 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Linking from 'expo-linking';
+import { router } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, TouchableOpacity } from 'react-native';
+
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useTheme } from '@/hooks/useTheme';
+import { completeAuthRedirect } from '@/lib/oauth';
 import { supabase } from '@/lib/supabase';
-import { router } from 'expo-router';
-import { useEffect } from 'react';
 
 const AuthCallback = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const url = Linking.useURL();
+  const [error, setError] = useState<string | null>(null);
+
   useEffect(() => {
+    if (!url) return;
+
     const handleAuthCallback = async () => {
       try {
-        const { data, error } = await supabase.auth.getSession();
-        
-        if (error) {
-          console.error('Auth callback error:', error);
-          router.push('/login');
-          return;
+        // The in-app browser may already have finished signing in.
+        const { data } = await supabase.auth.getSession();
+        if (!data.session) {
+          await completeAuthRedirect(url);
         }
-
-        if (data.session) {
-          // User is authenticated, redirect to main app
-          router.push('/(tabs)');
-        } else {
-          // No session, redirect to login
-          router.push('/login');
-        }
-      } catch (error) {
-        console.error('Auth callback error:', error);
-        router.push('/login');
+      } catch (err) {
+        console.error('Auth callback error:', err);
+        setError(err instanceof Error ? err.message : 'Sign-in failed. Please try again.');
       }
     };
 
     handleAuthCallback();
-  }, []);
+  }, [url]);
+
+  if (error) {
+    return (
+      <ThemedView style={styles.container}>
+        <Ionicons name="alert-circle" size={48} color={colors.icon} />
+        <ThemedText type="subtitle" style={styles.title}>
+          Sign-in failed
+        </ThemedText>
+        <ThemedText style={styles.message}>{error}</ThemedText>
+        <TouchableOpacity onPress={() => router.replace('/login')}>
+          <ThemedText style={{ color: colors.tint }}>Back to Sign In</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    );
+  }
 
   return (
-    <ThemedView style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
-      <ThemedText>Processing authentication...</ThemedText>
+    <ThemedView style={styles.container}>
+      <ActivityIndicator size="large" color={colors.tint} />
+      <ThemedText style={styles.message}>Processing authentication...</ThemedText>
     </ThemedView>
   );
 };
 
-export default AuthCallback;
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  title: {
+    marginTop: 12,
+  },
+  message: {
+    marginVertical: 12,
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+});
 
+export default AuthCallback;
@@ -0,0 +1,607 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import * as Linking from 'expo-linking';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, Share, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { BookShelfRow } from '@/components/BookShelfRow';
+import { DownloadButton } from '@/components/DownloadButton';
+import { ReadingListPickerModal } from '@/components/ReadingListPickerModal';
+import { ShelfPickerModal } from '@/components/ShelfPickerModal';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useDownloads } from '@/hooks/useDownloads';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  Book,
+  fetchBook,
+  fetchBooksByAuthor,
+  fetchBooksBySubject,
+  formatAuthors,
+  formatFileSize,
+  getBookCoverUrl,
+} from '@/lib/books';
+import { cancelHold, fetchHold, Hold, HOLD_PICKUP_HOURS, isHoldReady, placeHold } from '@/lib/holds';
+import { borrowBook, fetchActiveLoan, fetchAvailableCopies, Loan } from '@/lib/loans';
+import { isBookOnReserve, RESERVE_LOAN_DAYS } from '@/lib/readingLists';
+import { fetchShelvesForBook, Shelf } from '@/lib/shelves';
+
+const BookDetailScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user, can } = useAuth();
+  // Staff can open any file without a loan, as the storage policy allows.
+  const readsWithoutLoan = can('manage_catalog');
+  const downloads = useDownloads();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [book, setBook] = useState<Book | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [byAuthor, setByAuthor] = useState<Book[]>([]);
+  const [sameSubject, setSameSubject] = useState<Book[]>([]);
+  const [bookShelves, setBookShelves] = useState<Shelf[]>([]);
+  const [showShelfPicker, setShowShelfPicker] = useState(false);
+  const [showListPicker, setShowListPicker] = useState(false);
+  const [onReserve, setOnReserve] = useState(false);
+  const [loan, setLoan] = useState<Loan | null>(null);
+  const [availableCopies, setAvailableCopies] = useState<number | null>(null);
+  const [hold, setHold] = useState<Hold | null>(null);
+  const [borrowing, setBorrowing] = useState(false);
+
+  const loadBook = useCallback(async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchBook(id);
+      setBook(result);
+      if (!result) {
+        setError('This book could not be found. It may have been removed or be restricted to faculty.');
+        return;
+      }
+
+      const [author] = result.authors;
+      const [subject] = result.subjects;
+      const [authorBooks, subjectBooks] = await Promise.all([
+        author ? fetchBooksByAuthor(author, result.id) : Promise.resolve([]),
+        subject ? fetchBooksBySubject(subject, result.id) : Promise.resolve([]),
+      ]);
+      setByAuthor(authorBooks);
+      setSameSubject(subjectBooks);
+    } catch (err) {
+      console.error('Error loading book:', err);
+      setError('We could not load this book. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadBook();
+  }, [loadBook]);
+
+  useEffect(() => {
+    if (!id || !user?.id) return;
+    fetchShelvesForBook(user.id, id)
+      .then(setBookShelves)
+      .catch((err) => console.error('Error loading shelves:', err));
+  }, [id, user?.id]);
+
+  const loadLoan = useCallback(async () => {
+    if (!id || !user?.id) return;
+    try {
+      const [current, copies, currentHold, reserve] = await Promise.all([
+        fetchActiveLoan(user.id, id),
+        fetchAvailableCopies(id),
+        fetchHold(id),
+        isBookOnReserve(id),
+      ]);
+      setLoan(current);
+      setAvailableCopies(copies);
+      setHold(currentHold);
+      setOnReserve(reserve);
+    } catch (err) {
+      console.error('Error loading loan:', err);
+    }
+  }, [id, user?.id]);
+
+  useEffect(() => {
+    loadLoan();
+  }, [loadLoan]);
+
+  const handleBorrow = async () => {
+    if (!book) return;
+    setBorrowing(true);
+    try {
+      setLoan(await borrowBook(book.id));
+    } catch (err) {
+      console.error('Error borrowing book:', err);
+      Alert.alert('Could Not Borrow', err instanceof Error ? err.message : 'Please try again.');
+    } finally {
+      setBorrowing(false);
+      loadLoan();
+    }
+  };
+
+  const handlePlaceHold = async () => {
+    if (!book) return;
+    setBorrowing(true);
+    try {
+      await placeHold(book.id);
+    } catch (err) {
+      console.error('Error placing hold:', err);
+      Alert.alert('Could Not Place Hold', err instanceof Error ? err.message : 'Please try again.');
+    } finally {
+      setBorrowing(false);
+      loadLoan();
+    }
+  };
+
+  const handleCancelHold = (current: Hold) => {
+    Alert.alert('Cancel Hold', 'Leave the queue for this book? You would have to join again at the back.', [
+      { text: 'Keep Hold', style: 'cancel' },
+      {
+        text: 'Cancel Hold',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await cancelHold(current.id);
+          } catch (err) {
+            console.error('Error cancelling hold:', err);
+            Alert.alert('Error', 'We could not cancel your hold. Please try again.');
+          } finally {
+            loadLoan();
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!book) return;
+    try {
+      await Share.share({
+        message: `${book.title} by ${formatAuthors(book.authors)} — ${Linking.createURL(`/book/${book.id}`)}`,
+      });
+    } catch (err) {
+      console.error('Share error:', err);
+    }
+  };
+
+  const renderMetaRow = (label: string, value: string | number | null | undefined) => {
+    if (value === null || value === undefined || value === '') return null;
+    return (
+      <ThemedView style={styles.metaRow}>
+        <ThemedText style={styles.metaLabel}>{label}</ThemedText>
+        <ThemedText style={styles.metaValue}>{value}</ThemedText>
+      </ThemedView>
+    );
+  };
+
+  const renderActions = (current: Book) => {
+    if (!user) {
+      return (
+        <TouchableOpacity
+          style={[styles.primaryButton, { backgroundColor: colors.tint }]}
+          onPress={() => router.push('/login')}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="log-in" size={20} color={colors.background} style={styles.buttonIcon} />
+          <ThemedText style={[styles.primaryButtonText, { color: colors.background }]}>
+            Sign in to read
+          </ThemedText>
+        </TouchableOpacity>
+      );
+    }
+
+    const shelfButtons = (
+      <>
+        <TouchableOpacity
+          style={[styles.secondaryButton, { borderColor: colors.tint }]}
+          onPress={() => setShowShelfPicker(true)}
+          activeOpacity={0.8}
+        >
+          <Ionicons
+            name={bookShelves.length > 0 ? 'library' : 'library-outline'}
+            size={20}
+            color={colors.tint}
+            style={styles.buttonIcon}
+          />
+          <ThemedText numberOfLines={1} style={[styles.secondaryButtonText, { color: colors.tint }]}>
+            {bookShelves.length > 0 ? bookShelves.map((shelf) => shelf.name).join(', ') : 'Add to shelf'}
+          </ThemedText>
+        </TouchableOpacity>
+        {can('manage_reading_lists') && (
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor: colors.tint }]}
+            onPress={() => setShowListPicker(true)}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="school-outline" size={20} color={colors.tint} style={styles.buttonIcon} />
+            <ThemedText style={[styles.secondaryButtonText, { color: colors.tint }]}>Add to reading list</ThemedText>
+          </TouchableOpacity>
+        )}
+      </>
+    );
+
+    if (!current.file_path) {
+      return (
+        <>
+          <ThemedText style={styles.unavailableText}>
+            A digital copy of this title is not available yet.
+          </ThemedText>
+          {shelfButtons}
+        </>
+      );
+    }
+
+    if (!loan && !readsWithoutLoan) {
+      const holdReady = !!hold && isHoldReady(hold);
+      const waiting = !!hold && !holdReady;
+      // A ready hold is counted as taken, so its copy never shows as available.
+      const soldOut = availableCopies === 0 && !holdReady;
+
+      let label = 'Borrow';
+      if (holdReady) {
+        label = 'Borrow your held copy';
+      } else if (waiting) {
+        label = `#${hold.queue_position} in the hold queue`;
+      } else if (soldOut) {
+        label = 'Place hold';
+      }
+
+      return (
+        <>
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: colors.tint, opacity: waiting || borrowing ? 0.5 : 1 }]}
+            onPress={soldOut ? handlePlaceHold : handleBorrow}
+            disabled={waiting || borrowing}
+            activeOpacity={0.8}
+          >
+            {borrowing ? (
+              <ActivityIndicator color={colors.background} />
+            ) : (
+              <>
+                <Ionicons
+                  name={soldOut || waiting ? 'hourglass' : 'bookmarks'}
+                  size={20}
+                  color={colors.background}
+                  style={styles.buttonIcon}
+                />
+                <ThemedText style={[styles.primaryButtonText, { color: colors.background }]}>{label}</ThemedText>
+              </>
+            )}
+          </TouchableOpacity>
+          {hold ? (
+            <TouchableOpacity onPress={() => handleCancelHold(hold)} activeOpacity={0.7}>
+              <ThemedText style={styles.loanText}>
+                {holdReady && hold.pickup_expires_at
+                  ? `Held for you until ${new Date(hold.pickup_expires_at).toLocaleString()} · `
+                  : ''}
+                <ThemedText style={[styles.loanText, { color: colors.tint }]}>Cancel hold</ThemedText>
+              </ThemedText>
+            </TouchableOpacity>
+          ) : soldOut ? (
+            <ThemedText style={styles.loanText}>
+              All copies are on loan. Join the queue and a copy is kept for you for {HOLD_PICKUP_HOURS} hours
+              when it is your turn.
+            </ThemedText>
+          ) : null}
+          {shelfButtons}
+        </>
+      );
+    }
+
+    return (
+      <>
+        <TouchableOpacity
+          style={[styles.primaryButton, { backgroundColor: colors.tint }]}
+          onPress={() => router.push({ pathname: '/reader/[id]', params: { id: current.id } })}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="book" size={20} color={colors.background} style={styles.buttonIcon} />
+          <ThemedText style={[styles.primaryButtonText, { color: colors.background }]}>
+            {downloads[current.id]?.status === 'completed' ? 'Read offline copy' : 'Read now'}
+          </ThemedText>
+        </TouchableOpacity>
+        {loan && (
+          <TouchableOpacity onPress={() => router.push('/loans')} activeOpacity={0.7}>
+            <ThemedText style={styles.loanText}>
+              On loan until {new Date(loan.due_at).toLocaleDateString()}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+        <DownloadButton book={current} expiresAt={loan ? new Date(loan.due_at).getTime() : undefined} />
+        {shelfButtons}
+      </>
+    );
+  };
+
+  if (loading) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </ThemedView>
+    );
+  }
+
+  if (!book || error) {
+    return (
+      <ThemedView style={styles.centered}>
+        <Ionicons name="alert-circle" size={48} color={colors.icon} />
+        <ThemedText style={styles.errorText}>{error}</ThemedText>
+        <TouchableOpacity onPress={loadBook}>
+          <ThemedText style={{ color: colors.tint }}>Try Again</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleBack} style={styles.errorBack}>
+          <ThemedText style={{ color: colors.tint }}>Go Back</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    );
+  }
+
+  const coverUrl = getBookCoverUrl(book);
+  const availability = book.file_path
+    ? [book.file_format?.toUpperCase(), book.file_size ? formatFileSize(book.file_size) : null]
+        .filter(Boolean)
+        .join(' · ')
+    : 'Not available';
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={handleBack} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.headerButton} onPress={handleShare} activeOpacity={0.7}>
+          <Ionicons name="share-outline" size={24} color={colors.text} />
+        </TouchableOpacity>
+      </ThemedView>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <ThemedView style={styles.hero}>
+          {coverUrl ? (
+            <Image source={{ uri: coverUrl }} style={styles.cover} contentFit="cover" transition={200} />
+          ) : (
+            <ThemedView style={[styles.cover, styles.coverPlaceholder, { backgroundColor: colors.tint + '20' }]}>
+              <Ionicons name="book" size={56} color={colors.tint} />
+            </ThemedView>
+          )}
+          <ThemedText type="subtitle" style={styles.title}>
+            {book.title}
+          </ThemedText>
+          {book.subtitle ? <ThemedText style={styles.subtitle}>{book.subtitle}</ThemedText> : null}
+          <ThemedText style={styles.authors}>{formatAuthors(book.authors)}</ThemedText>
+          {book.visibility === 'faculty' && (
+            <ThemedView style={[styles.tag, styles.facultyBadge, { backgroundColor: colors.tint + '20' }]}>
+              <Ionicons name="lock-closed" size={12} color={colors.tint} />
+              <ThemedText style={[styles.tagText, styles.facultyBadgeText, { color: colors.tint }]}>
+                Faculty only
+              </ThemedText>
+            </ThemedView>
+          )}
+        </ThemedView>
+
+        <ThemedView style={styles.section}>{renderActions(book)}</ThemedView>
+
+        <ThemedView style={[styles.section, styles.metaCard, { backgroundColor: colors.icon + '10' }]}>
+          {renderMetaRow('Availability', availability)}
+          {book.license_count
+            ? renderMetaRow('Copies', `${availableCopies ?? book.license_count} of ${book.license_count} available`)
+            : null}
+          {onReserve ? renderMetaRow('Loan period', `${RESERVE_LOAN_DAYS} days (course reserve)`) : null}
+          {renderMetaRow('Edition', book.edition)}
+          {renderMetaRow('Published', book.published_year)}
+          {renderMetaRow('Pages', book.page_count)}
+          {renderMetaRow('Language', book.language)}
+          {renderMetaRow('ISBN', book.isbn)}
+        </ThemedView>
+
+        {book.subjects.length + book.course_codes.length > 0 && (
+          <ThemedView style={[styles.section, styles.tags]}>
+            {[...book.course_codes, ...book.subjects].map((tag) => (
+              <ThemedView key={tag} style={[styles.tag, { backgroundColor: colors.tint + '20' }]}>
+                <ThemedText style={[styles.tagText, { color: colors.tint }]}>{tag}</ThemedText>
+              </ThemedView>
+            ))}
+          </ThemedView>
+        )}
+
+        {book.description ? (
+          <ThemedView style={styles.section}>
+            <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
+              About this book
+            </ThemedText>
+            <ThemedText style={styles.description}>{book.description}</ThemedText>
+          </ThemedView>
+        ) : null}
+
+        <BookShelfRow title="More by this author" books={byAuthor} />
+        <BookShelfRow title="Same subject" books={sameSubject} />
+      </ScrollView>
+
+      {user && (
+        <ShelfPickerModal
+          visible={showShelfPicker}
+          userId={user.id}
+          bookId={book.id}
+          onClose={() => setShowShelfPicker(false)}
+          onChange={setBookShelves}
+        />
+      )}
+      {user && can('manage_reading_lists') && (
+        <ReadingListPickerModal
+          visible={showListPicker}
+          ownerId={user.id}
+          bookId={book.id}
+          onClose={() => setShowListPicker(false)}
+        />
+      )}
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  errorText: {
+    marginTop: 12,
+    marginBottom: 16,
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  errorBack: {
+    marginTop: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: 50,
+    paddingHorizontal: 12,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  hero: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    marginBottom: 20,
+  },
+  cover: {
+    width: 160,
+    height: 232,
+    borderRadius: 10,
+    marginBottom: 16,
+  },
+  coverPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.8,
+  },
+  authors: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginTop: 4,
+  },
+  section: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    height: 52,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonIcon: {
+    marginRight: 8,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+    paddingHorizontal: 16,
+  },
+  secondaryButtonText: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  loanText: {
+    textAlign: 'center',
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 8,
+  },
+  unavailableText: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  metaCard: {
+    borderRadius: 12,
+    padding: 16,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+    backgroundColor: 'transparent',
+  },
+  metaLabel: {
+    opacity: 0.6,
+  },
+  metaValue: {
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 16,
+  },
+  facultyBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  facultyBadgeText: {
+    marginLeft: 4,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  tag: {
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  tagText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  description: {
+    lineHeight: 24,
+  },
+});
+
+export default BookDetailScreen;
@@ -0,0 +1,253 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { Alert, FlatList, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useDownloads } from '@/hooks/useDownloads';
+import { useTheme } from '@/hooks/useTheme';
+import { formatFileSize } from '@/lib/books';
+import {
+  deleteDownload,
+  DownloadRecord,
+  getStorageCap,
+  getUsedStorage,
+  setStorageCap,
+  STORAGE_CAP_OPTIONS,
+} from '@/lib/downloads';
+
+const describeStatus = (record: DownloadRecord): string => {
+  switch (record.status) {
+    case 'completed':
+      return formatFileSize(record.totalBytes);
+    case 'downloading':
+      return `Downloading · ${formatFileSize(record.bytesWritten)}`;
+    case 'paused':
+      return `Paused · ${formatFileSize(record.bytesWritten)}`;
+    case 'failed':
+      return 'Interrupted · tap the book to resume';
+  }
+};
+
+const DownloadsScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const downloads = useDownloads();
+
+  const [cap, setCap] = useState<number | null>(null);
+
+  useEffect(() => {
+    getStorageCap().then(setCap);
+  }, []);
+
+  const records = Object.values(downloads).sort((a, b) => b.lastReadAt - a.lastReadAt);
+  const used = getUsedStorage(downloads);
+
+  const handleSelectCap = (bytes: number) => {
+    const apply = async () => {
+      setCap(bytes);
+      await setStorageCap(bytes);
+    };
+
+    if (bytes < used) {
+      Alert.alert(
+        'Lower Storage Limit',
+        'Your downloads use more than this limit. The books you read least recently will be removed.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Continue', style: 'destructive', onPress: apply },
+        ]
+      );
+      return;
+    }
+    apply();
+  };
+
+  const handleDelete = (record: DownloadRecord) => {
+    Alert.alert('Remove Download', `Remove the offline copy of "${record.title}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => deleteDownload(record.bookId) },
+    ]);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.headerTitle}>
+          Downloads
+        </ThemedText>
+        <ThemedText style={styles.headerSubtitle}>Books saved for offline reading</ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.section}>
+        <ThemedText type="defaultSemiBold">Storage limit</ThemedText>
+        <ThemedText style={styles.usage}>
+          Using {formatFileSize(used)}
+          {cap ? ` of ${formatFileSize(cap)}` : ''}
+        </ThemedText>
+        {cap ? (
+          <ThemedView style={[styles.usageBar, { backgroundColor: colors.icon + '30' }]}>
+            <ThemedView
+              style={[
+                styles.usageFill,
+                { width: `${Math.min(100, (used / cap) * 100)}%`, backgroundColor: colors.tint },
+              ]}
+            />
+          </ThemedView>
+        ) : null}
+        <ThemedView style={styles.capOptions}>
+          {STORAGE_CAP_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.capChip,
+                {
+                  borderColor: option === cap ? colors.tint : colors.icon + '40',
+                  backgroundColor: option === cap ? colors.tint + '20' : 'transparent',
+                },
+              ]}
+              onPress={() => handleSelectCap(option)}
+              activeOpacity={0.7}
+            >
+              <ThemedText style={[styles.capText, option === cap && { color: colors.tint }]}>
+                {formatFileSize(option)}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </ThemedView>
+        <ThemedText style={styles.hint}>
+          When space runs out, the books you read least recently are removed first.
+        </ThemedText>
+      </ThemedView>
+
+      <FlatList
+        data={records}
+        keyExtractor={(item) => item.bookId}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={styles.downloadItem}
+            onPress={() => router.push({ pathname: '/book/[id]', params: { id: item.bookId } })}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name={item.status === 'completed' ? 'document' : 'cloud-download'}
+              size={24}
+              color={colors.tint}
+              style={styles.downloadIcon}
+            />
+            <ThemedView style={styles.downloadText}>
+              <ThemedText type="defaultSemiBold" numberOfLines={1}>
+                {item.title}
+              </ThemedText>
+              <ThemedText style={styles.downloadMeta}>
+                {item.format.toUpperCase()} · {describeStatus(item)}
+              </ThemedText>
+            </ThemedView>
+            <TouchableOpacity onPress={() => handleDelete(item)} style={styles.deleteButton}>
+              <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={
+          <ThemedText style={styles.emptyText}>
+            No downloads yet. Use the Download button on a book to read it offline.
+          </ThemedText>
+        }
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  section: {
+    paddingHorizontal: 20,
+    marginBottom: 16,
+  },
+  usage: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 4,
+  },
+  usageBar: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  usageFill: {
+    height: '100%',
+  },
+  capOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  capChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  capText: {
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 8,
+  },
+  downloadItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  downloadIcon: {
+    marginRight: 12,
+  },
+  downloadText: {
+    flex: 1,
+  },
+  downloadMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 24,
+  },
+});
+
+export default DownloadsScreen;
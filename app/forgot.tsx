@@ -7,7 +7,8 @@ import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { Colors } from '@/constants/Colors';
 import { useTheme } from '@/hooks/useTheme';
-import { supabase } from '@/lib/supabase';
+import { requestPasswordReset } from '@/lib/authGateway';
+import { checkRateLimit, getRateLimitMessage, RateLimitError } from '@/lib/rateLimitUtils';
 
 const ForgotPasswordScreen = () => {
   const { theme } = useTheme();
@@ -25,13 +26,14 @@ const ForgotPasswordScreen = () => {
     setLoading(true);
     
     try {
-      const { data, error } = await supabase.auth.resetPasswordForEmail(email);
-
-      if (error) {
-        Alert.alert('Reset Error', error.message);
+      const rateLimit = await checkRateLimit('password_reset', email);
+      if (!rateLimit.allowed) {
+        Alert.alert('Try Again Later', getRateLimitMessage(rateLimit));
         return;
       }
 
+      await requestPasswordReset(email);
+
       Alert.alert(
         'Reset Link Sent',
         'If an account with this email exists, you will receive a password reset link shortly.',
@@ -43,7 +45,11 @@ const ForgotPasswordScreen = () => {
         ]
       );
     } catch (error) {
-      Alert.alert('Error', 'An unexpected error occurred. Please try again.');
+      if (error instanceof RateLimitError) {
+        Alert.alert('Try Again Later', error.message);
+        return;
+      }
+      Alert.alert('Reset Error', error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.');
       console.error('Password reset error:', error);
     } finally {
       setLoading(false);
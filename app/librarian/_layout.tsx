@@ -0,0 +1,20 @@
+import { Stack } from 'expo-router';
+import React from 'react';
+
+import { PermissionGuard } from '@/components/PermissionGuard';
+import { TwoFactorRequired } from '@/components/TwoFactorRequired';
+import { useAuth } from '@/hooks/useAuth';
+
+export default function LibrarianLayout() {
+  const { assuranceLevel } = useAuth();
+
+  return (
+    <PermissionGuard permission="manage_catalog">
+      {assuranceLevel?.current === 'aal2' ? (
+        <Stack screenOptions={{ headerShown: false }} />
+      ) : (
+        <TwoFactorRequired area="the librarian console" />
+      )}
+    </PermissionGuard>
+  );
+}
@@ -0,0 +1,254 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, RefreshControl, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { PermissionGuard } from '@/components/PermissionGuard';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useTheme } from '@/hooks/useTheme';
+import { ApprovalStatus, fetchMemberRequests, MemberRequest, setApprovalStatus } from '@/lib/membership';
+
+type RequestFilter = Exclude<ApprovalStatus, 'approved'>;
+
+const FILTERS: { label: string; value: RequestFilter }[] = [
+  { label: 'Pending', value: 'pending' },
+  { label: 'Declined', value: 'rejected' },
+];
+
+const MemberApprovalsScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+
+  const [requests, setRequests] = useState<MemberRequest[]>([]);
+  const [filter, setFilter] = useState<RequestFilter>('pending');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    setError(null);
+    try {
+      setRequests(await fetchMemberRequests(filter));
+    } catch (err) {
+      console.error('Error loading member requests:', err);
+      setError('We could not load membership requests. Please check your connection.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadRequests();
+  };
+
+  const updateStatus = async (request: MemberRequest, status: ApprovalStatus) => {
+    setUpdatingId(request.id);
+    try {
+      await setApprovalStatus(request.id, status);
+      setRequests((current) => current.filter((item) => item.id !== request.id));
+    } catch (err) {
+      console.error('Error updating approval:', err);
+      Alert.alert('Error', 'We could not update this account. Please try again.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const confirmReject = (request: MemberRequest) => {
+    Alert.alert('Decline Membership', `Decline ${request.email ?? 'this account'}? They will not be able to use the library.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Decline', style: 'destructive', onPress: () => updateStatus(request, 'rejected') },
+    ]);
+  };
+
+  const renderRequest = ({ item }: { item: MemberRequest }) => {
+    const busy = updatingId === item.id;
+    return (
+      <ThemedView style={[styles.requestItem, { borderBottomColor: colors.icon + '20' }]}>
+        <ThemedView style={styles.requestInfo}>
+          <ThemedText style={styles.requestName} numberOfLines={1}>
+            {item.full_name || 'Unnamed member'}
+          </ThemedText>
+          <ThemedText style={styles.requestMeta} numberOfLines={1}>
+            {item.email}
+          </ThemedText>
+          <ThemedText style={styles.requestMeta}>
+            Signed up {new Date(item.created_at).toLocaleDateString()}
+          </ThemedText>
+        </ThemedView>
+        {busy ? (
+          <ActivityIndicator color={colors.tint} />
+        ) : (
+          <ThemedView style={styles.requestActions}>
+            {filter === 'pending' && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => confirmReject(item)} activeOpacity={0.7}>
+                <Ionicons name="close-circle-outline" size={28} color="#FF3B30" />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => updateStatus(item, 'approved')}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="checkmark-circle" size={28} color={colors.tint} />
+            </TouchableOpacity>
+          </ThemedView>
+        )}
+      </ThemedView>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color={colors.tint} />;
+    }
+    return (
+      <ThemedView style={styles.emptyState}>
+        <Ionicons name={error ? 'alert-circle' : 'people-outline'} size={48} color={colors.icon} />
+        <ThemedText style={styles.emptyText}>{error ?? 'No one is waiting for approval.'}</ThemedText>
+      </ThemedView>
+    );
+  };
+
+  return (
+    <PermissionGuard permission="approve_members">
+      <ThemedView style={styles.container}>
+        <ThemedView style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+            <Ionicons name="arrow-back" size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText type="title" style={styles.headerTitle}>
+            Membership
+          </ThemedText>
+          <ThemedText style={styles.headerSubtitle}>Approve accounts from outside the member domains</ThemedText>
+        </ThemedView>
+
+        <ThemedView style={styles.toolbar}>
+          {FILTERS.map((option) => {
+            const selected = option.value === filter;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.filterChip,
+                  {
+                    borderColor: selected ? colors.tint : colors.icon + '40',
+                    backgroundColor: selected ? colors.tint + '20' : 'transparent',
+                  },
+                ]}
+                onPress={() => setFilter(option.value)}
+                activeOpacity={0.7}
+              >
+                <ThemedText style={[styles.filterText, selected && { color: colors.tint }]}>{option.label}</ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </ThemedView>
+
+        <FlatList
+          data={requests}
+          keyExtractor={(item) => item.id}
+          renderItem={renderRequest}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.listContent}
+        />
+      </ThemedView>
+    </PermissionGuard>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  filterChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  filterText: {
+    fontSize: 14,
+  },
+  listContent: {
+    paddingBottom: 32,
+  },
+  requestItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  requestInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  requestName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  requestMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  requestActions: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginTop: 12,
+  },
+});
+
+export default MemberApprovalsScreen;
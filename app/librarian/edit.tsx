@@ -0,0 +1,538 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { FormInput } from '@/components/FormInput';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  Book,
+  BookInput,
+  BookStatus,
+  BookVisibility,
+  fetchBook,
+  formatFileSize,
+  normalizeCourseCode,
+  saveBook,
+} from '@/lib/books';
+import {
+  BOOK_FILE_MIME_TYPES,
+  extractPdfPageCount,
+  getBookFileFormat,
+  PickedFile,
+  uploadBookFile,
+  uploadCover,
+  validateBookFile,
+  validateCoverFile,
+} from '@/lib/bookUploads';
+
+interface BookForm {
+  title: string;
+  subtitle: string;
+  authors: string;
+  subjects: string;
+  courseCodes: string;
+  language: string;
+  publishedYear: string;
+  edition: string;
+  isbn: string;
+  pageCount: string;
+  licenseCount: string;
+  description: string;
+  visibility: BookVisibility;
+  status: BookStatus;
+}
+
+const EMPTY_FORM: BookForm = {
+  title: '',
+  subtitle: '',
+  authors: '',
+  subjects: '',
+  courseCodes: '',
+  language: '',
+  publishedYear: '',
+  edition: '',
+  isbn: '',
+  pageCount: '',
+  licenseCount: '',
+  description: '',
+  visibility: 'public',
+  status: 'draft',
+};
+
+const splitList = (value: string): string[] => {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+const toForm = (book: Book): BookForm => ({
+  title: book.title,
+  subtitle: book.subtitle ?? '',
+  authors: book.authors.join(', '),
+  subjects: book.subjects.join(', '),
+  courseCodes: book.course_codes.join(', '),
+  language: book.language ?? '',
+  publishedYear: book.published_year ? String(book.published_year) : '',
+  edition: book.edition ?? '',
+  isbn: book.isbn ?? '',
+  pageCount: book.page_count ? String(book.page_count) : '',
+  licenseCount: book.license_count ? String(book.license_count) : '',
+  description: book.description ?? '',
+  visibility: book.visibility,
+  status: book.status,
+});
+
+const validateForm = (form: BookForm): string | null => {
+  if (!form.title.trim()) {
+    return 'Please enter a title.';
+  }
+  if (splitList(form.authors).length === 0) {
+    return 'Please enter at least one author.';
+  }
+  const year = Number(form.publishedYear);
+  if (form.publishedYear && (!Number.isInteger(year) || year < 1000 || year > new Date().getFullYear() + 1)) {
+    return 'Please enter a valid publication year.';
+  }
+  const pages = Number(form.pageCount);
+  if (form.pageCount && (!Number.isInteger(pages) || pages <= 0)) {
+    return 'Page count must be a positive whole number.';
+  }
+  const licenses = Number(form.licenseCount);
+  if (form.licenseCount && (!Number.isInteger(licenses) || licenses <= 0)) {
+    return 'Licensed copies must be a positive whole number.';
+  }
+  const isbn = form.isbn.replace(/[\s-]/g, '');
+  if (isbn && !/^(\d{9}[\dX]|\d{13})$/i.test(isbn)) {
+    return 'ISBN must have 10 or 13 digits.';
+  }
+  return null;
+};
+
+const toPickedFile = (asset: DocumentPicker.DocumentPickerAsset): PickedFile => ({
+  uri: asset.uri,
+  name: asset.name,
+  size: asset.size ?? null,
+  mimeType: asset.mimeType ?? null,
+});
+
+const BookEditorScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { id } = useLocalSearchParams<{ id?: string }>();
+
+  const [book, setBook] = useState<Book | null>(null);
+  const [form, setForm] = useState<BookForm>(EMPTY_FORM);
+  const [file, setFile] = useState<PickedFile | null>(null);
+  const [cover, setCover] = useState<PickedFile | null>(null);
+  const [fileProgress, setFileProgress] = useState<number | null>(null);
+  const [coverProgress, setCoverProgress] = useState<number | null>(null);
+  const [loading, setLoading] = useState(!!id);
+  const [saving, setSaving] = useState(false);
+
+  // New titles get their id up front so uploads can be stored under it.
+  const bookIdRef = useRef(id ?? Crypto.randomUUID());
+  // Paths of files already uploaded, so a retry only repeats what failed.
+  const uploadedRef = useRef<{ filePath?: string; coverPath?: string }>({});
+
+  useEffect(() => {
+    if (!id) return;
+    fetchBook(id)
+      .then((result) => {
+        if (result) {
+          setBook(result);
+          setForm(toForm(result));
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading book:', error);
+        Alert.alert('Error', 'Could not load this title.');
+      })
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  const updateForm = (changes: Partial<BookForm>) => setForm((current) => ({ ...current, ...changes }));
+
+  const handlePickFile = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: Object.values(BOOK_FILE_MIME_TYPES),
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return;
+
+    const picked = toPickedFile(result.assets[0]);
+    const error = validateBookFile(picked);
+    if (error) {
+      Alert.alert('Invalid File', error);
+      return;
+    }
+    setFile(picked);
+    setFileProgress(null);
+    delete uploadedRef.current.filePath;
+
+    if (getBookFileFormat(picked) === 'pdf') {
+      const pageCount = await extractPdfPageCount(picked);
+      if (pageCount) {
+        updateForm({ pageCount: String(pageCount) });
+      }
+    }
+  };
+
+  const handlePickCover = async () => {
+    const result = await DocumentPicker.getDocumentAsync({ type: 'image/*', copyToCacheDirectory: true });
+    if (result.canceled) return;
+
+    const picked = toPickedFile(result.assets[0]);
+    const error = validateCoverFile(picked);
+    if (error) {
+      Alert.alert('Invalid Image', error);
+      return;
+    }
+    setCover(picked);
+    setCoverProgress(null);
+    delete uploadedRef.current.coverPath;
+  };
+
+  const handleSave = async () => {
+    const validationError = validateForm(form);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const bookId = bookIdRef.current;
+      if (file && !uploadedRef.current.filePath) {
+        uploadedRef.current.filePath = await uploadBookFile(bookId, file, setFileProgress);
+      }
+      if (cover && !uploadedRef.current.coverPath) {
+        uploadedRef.current.coverPath = await uploadCover(bookId, cover, setCoverProgress);
+      }
+
+      const input: BookInput = {
+        title: form.title.trim(),
+        subtitle: form.subtitle.trim() || null,
+        authors: splitList(form.authors),
+        subjects: splitList(form.subjects),
+        course_codes: splitList(form.courseCodes).map(normalizeCourseCode),
+        language: form.language.trim() || null,
+        published_year: form.publishedYear ? Number(form.publishedYear) : null,
+        edition: form.edition.trim() || null,
+        isbn: form.isbn.replace(/[\s-]/g, '') || null,
+        page_count: form.pageCount ? Number(form.pageCount) : null,
+        license_count: form.licenseCount ? Number(form.licenseCount) : null,
+        description: form.description.trim() || null,
+        cover_path: uploadedRef.current.coverPath ?? book?.cover_path ?? null,
+        file_path: uploadedRef.current.filePath ?? book?.file_path ?? null,
+        file_format: file ? getBookFileFormat(file) : (book?.file_format ?? null),
+        file_size: file ? file.size : (book?.file_size ?? null),
+        visibility: form.visibility,
+        status: form.status,
+      };
+      const saved = await saveBook(bookId, input);
+      setBook(saved);
+      Alert.alert('Saved', `"${saved.title}" was saved as ${saved.status === 'draft' ? 'a draft' : 'published'}.`, [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error('Error saving book:', error);
+      Alert.alert('Save Failed', error instanceof Error ? error.message : 'Please try again.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Retry', onPress: handleSave },
+      ]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderChoice = <T extends string>(
+    options: { label: string; value: T }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.choiceRow}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.value}
+          style={[
+            styles.choiceChip,
+            {
+              borderColor: option.value === selected ? colors.tint : colors.icon + '40',
+              backgroundColor: option.value === selected ? colors.tint + '20' : 'transparent',
+            },
+          ]}
+          onPress={() => onSelect(option.value)}
+          activeOpacity={0.7}
+        >
+          <ThemedText style={option.value === selected ? { color: colors.tint } : undefined}>
+            {option.label}
+          </ThemedText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderFilePicker = (
+    label: string,
+    picked: PickedFile | null,
+    currentPath: string | null | undefined,
+    progress: number | null,
+    onPick: () => void
+  ) => (
+    <TouchableOpacity
+      style={[styles.filePicker, { borderColor: colors.icon + '40' }]}
+      onPress={onPick}
+      disabled={saving}
+      activeOpacity={0.7}
+    >
+      {progress !== null && (
+        <View style={[styles.progressFill, { width: `${progress * 100}%`, backgroundColor: colors.tint + '20' }]} />
+      )}
+      <Ionicons name="cloud-upload-outline" size={22} color={colors.tint} style={styles.fileIcon} />
+      <View style={styles.fileText}>
+        <ThemedText type="defaultSemiBold">{label}</ThemedText>
+        <ThemedText numberOfLines={1} style={styles.fileMeta}>
+          {picked
+            ? `${picked.name}${picked.size ? ` · ${formatFileSize(picked.size)}` : ''}`
+            : currentPath
+              ? 'Uploaded · tap to replace'
+              : 'No file selected'}
+        </ThemedText>
+      </View>
+      {progress !== null && <ThemedText style={styles.fileMeta}>{Math.round(progress * 100)}%</ThemedText>}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+            <Ionicons name="arrow-back" size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText type="title" style={styles.headerTitle}>
+            {book ? 'Edit Book' : 'New Book'}
+          </ThemedText>
+
+          <ThemedText style={styles.label}>Status</ThemedText>
+          {renderChoice(
+            [
+              { label: 'Draft', value: 'draft' },
+              { label: 'Published', value: 'published' },
+            ],
+            form.status,
+            (status) => updateForm({ status })
+          )}
+
+          <ThemedText style={styles.label}>Audience</ThemedText>
+          {renderChoice(
+            [
+              { label: 'Everyone', value: 'public' },
+              { label: 'Faculty only', value: 'faculty' },
+            ],
+            form.visibility,
+            (visibility) => updateForm({ visibility })
+          )}
+
+          <ThemedText style={styles.label}>Files</ThemedText>
+          {renderFilePicker('Book file (PDF or EPUB)', file, book?.file_path, fileProgress, handlePickFile)}
+          {renderFilePicker('Cover image', cover, book?.cover_path, coverProgress, handlePickCover)}
+
+          <ThemedText style={styles.label}>Details</ThemedText>
+          <FormInput
+            icon="book"
+            placeholder="Title"
+            value={form.title}
+            onChangeText={(title) => updateForm({ title })}
+          />
+          <FormInput
+            icon="text"
+            placeholder="Subtitle"
+            value={form.subtitle}
+            onChangeText={(subtitle) => updateForm({ subtitle })}
+          />
+          <FormInput
+            icon="person"
+            placeholder="Authors, separated by commas"
+            value={form.authors}
+            onChangeText={(authors) => updateForm({ authors })}
+          />
+          <FormInput
+            icon="pricetags"
+            placeholder="Subjects, separated by commas"
+            value={form.subjects}
+            onChangeText={(subjects) => updateForm({ subjects })}
+          />
+          <FormInput
+            icon="school"
+            placeholder="Course codes, e.g. CSE301"
+            value={form.courseCodes}
+            onChangeText={(courseCodes) => updateForm({ courseCodes })}
+            autoCapitalize="characters"
+          />
+          <FormInput
+            icon="language"
+            placeholder="Language"
+            value={form.language}
+            onChangeText={(language) => updateForm({ language })}
+          />
+          <FormInput
+            icon="calendar"
+            placeholder="Publication year"
+            value={form.publishedYear}
+            onChangeText={(publishedYear) => updateForm({ publishedYear })}
+            keyboardType="number-pad"
+          />
+          <FormInput
+            icon="layers"
+            placeholder="Edition"
+            value={form.edition}
+            onChangeText={(edition) => updateForm({ edition })}
+          />
+          <FormInput
+            icon="barcode"
+            placeholder="ISBN"
+            value={form.isbn}
+            onChangeText={(isbn) => updateForm({ isbn })}
+            autoCapitalize="characters"
+          />
+          <FormInput
+            icon="documents"
+            placeholder="Page count"
+            value={form.pageCount}
+            onChangeText={(pageCount) => updateForm({ pageCount })}
+            keyboardType="number-pad"
+          />
+          <FormInput
+            icon="people"
+            placeholder="Licensed copies (blank for unlimited)"
+            value={form.licenseCount}
+            onChangeText={(licenseCount) => updateForm({ licenseCount })}
+            keyboardType="number-pad"
+          />
+          <FormInput
+            placeholder="Description"
+            value={form.description}
+            onChangeText={(description) => updateForm({ description })}
+            multiline
+          />
+
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: saving ? '#CCCCCC' : colors.tint, opacity: saving ? 0.7 : 1 }]}
+            onPress={handleSave}
+            disabled={saving}
+            activeOpacity={0.8}
+          >
+            <ThemedText style={[styles.saveButtonText, { color: colors.background }]}>
+              {saving ? 'Saving...' : 'Save'}
+            </ThemedText>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContent: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    opacity: 0.7,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choiceChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderRadius: 12,
+  },
+  filePicker: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    ...StyleSheet.absoluteFillObject,
+    right: undefined,
+  },
+  fileIcon: {
+    marginRight: 12,
+  },
+  fileText: {
+    flex: 1,
+  },
+  fileMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  saveButton: {
+    height: 56,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default BookEditorScreen;
@@ -0,0 +1,265 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, RefreshControl, SectionList, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useTheme } from '@/hooks/useTheme';
+import { cancelHold, fetchHoldQueue, isHoldReady, moveHold, QueuedHold } from '@/lib/holds';
+
+interface TitleQueue {
+  bookId: string;
+  title: string;
+  waitingCount: number;
+  data: QueuedHold[];
+}
+
+const groupByTitle = (holds: QueuedHold[]): TitleQueue[] => {
+  const queues = new Map<string, TitleQueue>();
+  for (const hold of holds) {
+    const queue = queues.get(hold.book_id) ?? { bookId: hold.book_id, title: hold.book_title, waitingCount: 0, data: [] };
+    queue.data.push(hold);
+    if (hold.status === 'waiting') queue.waitingCount += 1;
+    queues.set(hold.book_id, queue);
+  }
+  return [...queues.values()];
+};
+
+const HoldQueueScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+
+  const [holds, setHolds] = useState<QueuedHold[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const sections = useMemo(() => groupByTitle(holds), [holds]);
+
+  const loadQueue = useCallback(async () => {
+    setError(null);
+    try {
+      setHolds(await fetchHoldQueue());
+    } catch (err) {
+      console.error('Error loading hold queue:', err);
+      setError('We could not load the hold queue. Please check your connection.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadQueue();
+    }, [loadQueue])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadQueue();
+  };
+
+  const handleMove = async (hold: QueuedHold, position: number) => {
+    setBusyId(hold.id);
+    try {
+      await moveHold(hold.id, position);
+      await loadQueue();
+    } catch (err) {
+      console.error('Error moving hold:', err);
+      Alert.alert('Error', err instanceof Error ? err.message : 'We could not move this hold.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = (hold: QueuedHold) => {
+    const member = hold.member_name || hold.member_email || 'this reader';
+    const message = isHoldReady(hold)
+      ? `Remove the hold for ${member}? The copy kept for them passes to the next reader.`
+      : `Remove ${member} from the queue for "${hold.book_title}"?`;
+
+    Alert.alert('Remove Hold', message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          setBusyId(hold.id);
+          try {
+            await cancelHold(hold.id);
+            await loadQueue();
+          } catch (err) {
+            console.error('Error removing hold:', err);
+            Alert.alert('Error', err instanceof Error ? err.message : 'We could not remove this hold.');
+          } finally {
+            setBusyId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderMoveButton = (hold: QueuedHold, icon: 'arrow-up' | 'arrow-down', position: number, enabled: boolean) => (
+    <TouchableOpacity
+      style={[styles.iconButton, { opacity: enabled ? 1 : 0.3 }]}
+      onPress={() => handleMove(hold, position)}
+      disabled={!enabled}
+    >
+      <Ionicons name={icon} size={20} color={colors.tint} />
+    </TouchableOpacity>
+  );
+
+  const renderHold = ({ item, section }: { item: QueuedHold; section: TitleQueue }) => {
+    const ready = item.status === 'ready';
+    return (
+      <ThemedView style={styles.holdItem}>
+        <ThemedText style={[styles.position, { color: ready ? colors.tint : colors.text }]}>
+          {ready ? '✓' : `#${item.queue_position}`}
+        </ThemedText>
+        <ThemedView style={styles.holdText}>
+          <ThemedText type="defaultSemiBold" numberOfLines={1}>
+            {item.member_name || item.member_email || 'Unknown member'}
+          </ThemedText>
+          <ThemedText style={styles.holdMeta} numberOfLines={1}>
+            {ready && item.pickup_expires_at
+              ? `Ready until ${new Date(item.pickup_expires_at).toLocaleString()}`
+              : `Waiting since ${new Date(item.created_at).toLocaleDateString()}`}
+          </ThemedText>
+        </ThemedView>
+        {busyId === item.id ? (
+          <ActivityIndicator color={colors.tint} />
+        ) : (
+          <>
+            {!ready && (
+              <>
+                {renderMoveButton(item, 'arrow-up', item.queue_position - 1, item.queue_position > 1)}
+                {renderMoveButton(item, 'arrow-down', item.queue_position + 1, item.queue_position < section.waitingCount)}
+              </>
+            )}
+            <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(item)}>
+              <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+            </TouchableOpacity>
+          </>
+        )}
+      </ThemedView>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color={colors.tint} />;
+    }
+    return (
+      <ThemedView style={styles.emptyState}>
+        <Ionicons name={error ? 'alert-circle' : 'hourglass-outline'} size={48} color={colors.icon} />
+        <ThemedText style={styles.emptyText}>{error ?? 'No one is waiting for a title.'}</ThemedText>
+      </ThemedView>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.headerTitle}>
+          Holds
+        </ThemedText>
+        <ThemedText style={styles.headerSubtitle}>Reorder or remove readers waiting for a copy</ThemedText>
+      </ThemedView>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        renderItem={renderHold}
+        renderSectionHeader={({ section }) => (
+          <TouchableOpacity
+            onPress={() => router.push({ pathname: '/librarian/edit', params: { id: section.bookId } })}
+            activeOpacity={0.7}
+          >
+            <ThemedText type="defaultSemiBold" style={styles.sectionTitle} numberOfLines={1}>
+              {section.title}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={styles.listContent}
+        stickySectionHeadersEnabled={false}
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  listContent: {
+    paddingBottom: 24,
+  },
+  sectionTitle: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 4,
+  },
+  holdItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  position: {
+    width: 36,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  holdText: {
+    flex: 1,
+  },
+  holdMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginTop: 12,
+  },
+});
+
+export default HoldQueueScreen;
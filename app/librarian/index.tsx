@@ -0,0 +1,249 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { BookListItem } from '@/components/BookListItem';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import { Book, BookStatus, fetchCatalogForStaff } from '@/lib/books';
+
+const STATUS_FILTERS: { label: string; value?: BookStatus }[] = [
+  { label: 'All' },
+  { label: 'Drafts', value: 'draft' },
+  { label: 'Published', value: 'published' },
+];
+
+const LibrarianConsoleScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { can } = useAuth();
+
+  const [books, setBooks] = useState<Book[]>([]);
+  const [status, setStatus] = useState<BookStatus | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBooks = useCallback(async () => {
+    setError(null);
+    try {
+      setBooks(await fetchCatalogForStaff(status));
+    } catch (err) {
+      console.error('Error loading catalog:', err);
+      setError('We could not load the catalog. Please check your connection.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [status]);
+
+  // Edits happen on another screen, so reload whenever the list regains focus.
+  useFocusEffect(
+    useCallback(() => {
+      loadBooks();
+    }, [loadBooks])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadBooks();
+  };
+
+  const renderStatusBadge = (book: Book) => {
+    const isDraft = book.status === 'draft';
+    return (
+      <ThemedView
+        style={[styles.badge, { backgroundColor: isDraft ? colors.icon + '30' : colors.tint + '20' }]}
+      >
+        <ThemedText style={[styles.badgeText, { color: isDraft ? colors.text : colors.tint }]}>
+          {isDraft ? 'Draft' : 'Published'}
+        </ThemedText>
+      </ThemedView>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color={colors.tint} />;
+    }
+    return (
+      <ThemedView style={styles.emptyState}>
+        <Ionicons name={error ? 'alert-circle' : 'library-outline'} size={48} color={colors.icon} />
+        <ThemedText style={styles.emptyText}>{error ?? 'No titles here yet.'}</ThemedText>
+      </ThemedView>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.headerTitle}>
+          Librarian Console
+        </ThemedText>
+        <ThemedText style={styles.headerSubtitle}>Add and edit catalog titles</ThemedText>
+        <TouchableOpacity
+          style={styles.headerLink}
+          onPress={() => router.push('/librarian/holds')}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="hourglass" size={18} color={colors.tint} />
+          <ThemedText style={[styles.headerLinkText, { color: colors.tint }]}>Holds queue</ThemedText>
+        </TouchableOpacity>
+        {can('approve_members') && (
+          <TouchableOpacity
+            style={styles.headerLink}
+            onPress={() => router.push('/librarian/approvals')}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="people" size={18} color={colors.tint} />
+            <ThemedText style={[styles.headerLinkText, { color: colors.tint }]}>Membership approvals</ThemedText>
+          </TouchableOpacity>
+        )}
+      </ThemedView>
+
+      <ThemedView style={styles.toolbar}>
+        {STATUS_FILTERS.map((filter) => {
+          const selected = filter.value === status;
+          return (
+            <TouchableOpacity
+              key={filter.label}
+              style={[
+                styles.filterChip,
+                {
+                  borderColor: selected ? colors.tint : colors.icon + '40',
+                  backgroundColor: selected ? colors.tint + '20' : 'transparent',
+                },
+              ]}
+              onPress={() => setStatus(filter.value)}
+              activeOpacity={0.7}
+            >
+              <ThemedText style={[styles.filterText, selected && { color: colors.tint }]}>{filter.label}</ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: colors.tint }]}
+          onPress={() => router.push('/librarian/edit')}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="add" size={20} color={colors.background} />
+          <ThemedText style={[styles.addButtonText, { color: colors.background }]}>Add book</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+
+      <FlatList
+        data={books}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <BookListItem
+            book={item}
+            onPress={(book) => router.push({ pathname: '/librarian/edit', params: { id: book.id } })}
+            right={renderStatusBadge(item)}
+          />
+        )}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={styles.listContent}
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  headerLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  headerLinkText: {
+    marginLeft: 6,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  filterChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  filterText: {
+    fontSize: 14,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 'auto',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  addButtonText: {
+    marginLeft: 4,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingBottom: 32,
+  },
+  badge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 12,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginTop: 12,
+  },
+});
+
+export default LibrarianConsoleScreen;
@@ -0,0 +1,313 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import { cancelHold, fetchMyHolds, Hold, isHoldReady } from '@/lib/holds';
+import { canRenewLoan, fetchLoans, isLoanActive, LoanWithBook, MAX_RENEWALS, renewLoan, returnLoan } from '@/lib/loans';
+
+const describeLoan = (loan: LoanWithBook): string => {
+  if (isLoanActive(loan)) {
+    const renewals = loan.renewals ? ` · renewed ${loan.renewals} of ${MAX_RENEWALS}` : '';
+    return `Due ${new Date(loan.due_at).toLocaleDateString()}${renewals}`;
+  }
+  if (loan.status === 'returned' && loan.returned_at) {
+    return `Returned ${new Date(loan.returned_at).toLocaleDateString()}`;
+  }
+  return `Expired ${new Date(loan.due_at).toLocaleDateString()}`;
+};
+
+const describeHold = (hold: Hold): string => {
+  if (isHoldReady(hold) && hold.pickup_expires_at) {
+    return `Ready · borrow by ${new Date(hold.pickup_expires_at).toLocaleString()}`;
+  }
+  return `#${hold.queue_position} in the queue`;
+};
+
+const LoansScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user } = useAuth();
+
+  const [loans, setLoans] = useState<LoanWithBook[]>([]);
+  const [holds, setHolds] = useState<Hold[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadLoans = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [userLoans, userHolds] = await Promise.all([fetchLoans(user.id), fetchMyHolds()]);
+      setLoans(userLoans);
+      setHolds(userHolds);
+    } catch (error) {
+      console.error('Error loading loans:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadLoans();
+    }, [loadLoans])
+  );
+
+  const handleRenew = async (loan: LoanWithBook) => {
+    setBusyId(loan.id);
+    try {
+      const renewed = await renewLoan(loan);
+      Alert.alert('Loan Renewed', `Now due ${new Date(renewed.due_at).toLocaleDateString()}.`);
+      await loadLoans();
+    } catch (error) {
+      console.error('Error renewing loan:', error);
+      Alert.alert('Could Not Renew', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReturn = (loan: LoanWithBook) => {
+    Alert.alert('Return Book', `Return "${loan.book?.title ?? 'this book'}" now? Its offline copy will be removed.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Return',
+        style: 'destructive',
+        onPress: async () => {
+          setBusyId(loan.id);
+          try {
+            await returnLoan(loan);
+            await loadLoans();
+          } catch (error) {
+            console.error('Error returning loan:', error);
+            Alert.alert('Error', 'We could not return this book. Please try again.');
+          } finally {
+            setBusyId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleCancelHold = (hold: Hold) => {
+    Alert.alert('Cancel Hold', `Leave the queue for "${hold.book_title}"?`, [
+      { text: 'Keep Hold', style: 'cancel' },
+      {
+        text: 'Cancel Hold',
+        style: 'destructive',
+        onPress: async () => {
+          setBusyId(hold.id);
+          try {
+            await cancelHold(hold.id);
+            await loadLoans();
+          } catch (error) {
+            console.error('Error cancelling hold:', error);
+            Alert.alert('Error', 'We could not cancel this hold. Please try again.');
+          } finally {
+            setBusyId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderHolds = () => {
+    if (holds.length === 0) return null;
+    return (
+      <>
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
+          Holds
+        </ThemedText>
+        {holds.map((hold) => (
+          <TouchableOpacity
+            key={hold.id}
+            style={styles.loanItem}
+            onPress={() => router.push({ pathname: '/book/[id]', params: { id: hold.book_id } })}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name={isHoldReady(hold) ? 'checkmark-circle' : 'hourglass-outline'}
+              size={24}
+              color={colors.tint}
+              style={styles.loanIcon}
+            />
+            <ThemedView style={styles.loanText}>
+              <ThemedText type="defaultSemiBold" numberOfLines={1}>
+                {hold.book_title}
+              </ThemedText>
+              <ThemedText style={styles.loanMeta}>{describeHold(hold)}</ThemedText>
+            </ThemedView>
+            {busyId === hold.id ? (
+              <ActivityIndicator color={colors.tint} />
+            ) : (
+              <TouchableOpacity onPress={() => handleCancelHold(hold)} style={styles.cancelButton}>
+                <Ionicons name="close-circle-outline" size={22} color="#FF3B30" />
+              </TouchableOpacity>
+            )}
+          </TouchableOpacity>
+        ))}
+        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
+          Loans
+        </ThemedText>
+      </>
+    );
+  };
+
+  const renderLoan = ({ item }: { item: LoanWithBook }) => {
+    const active = isLoanActive(item);
+    return (
+      <TouchableOpacity
+        style={styles.loanItem}
+        onPress={() => router.push({ pathname: '/book/[id]', params: { id: item.book_id } })}
+        activeOpacity={0.7}
+      >
+        <Ionicons
+          name={active ? 'book' : 'time-outline'}
+          size={24}
+          color={active ? colors.tint : colors.icon}
+          style={styles.loanIcon}
+        />
+        <ThemedView style={styles.loanText}>
+          <ThemedText type="defaultSemiBold" numberOfLines={1}>
+            {item.book?.title ?? 'Removed title'}
+          </ThemedText>
+          <ThemedText style={styles.loanMeta}>{describeLoan(item)}</ThemedText>
+          {active ? (
+            busyId === item.id ? (
+              <ActivityIndicator style={styles.actions} color={colors.tint} />
+            ) : (
+              <ThemedView style={styles.actions}>
+                {canRenewLoan(item) ? (
+                  <TouchableOpacity
+                    style={[styles.actionChip, { borderColor: colors.tint }]}
+                    onPress={() => handleRenew(item)}
+                    activeOpacity={0.7}
+                  >
+                    <ThemedText style={[styles.actionText, { color: colors.tint }]}>Renew</ThemedText>
+                  </TouchableOpacity>
+                ) : null}
+                <TouchableOpacity
+                  style={[styles.actionChip, { borderColor: colors.icon + '40' }]}
+                  onPress={() => handleReturn(item)}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={styles.actionText}>Return</ThemedText>
+                </TouchableOpacity>
+              </ThemedView>
+            )
+          ) : null}
+        </ThemedView>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.headerTitle}>
+          My Loans
+        </ThemedText>
+        <ThemedText style={styles.headerSubtitle}>Borrowed books return themselves on the due date</ThemedText>
+      </ThemedView>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color={colors.tint} />
+      ) : (
+        <FlatList
+          data={loans}
+          keyExtractor={(item) => item.id}
+          renderItem={renderLoan}
+          ListHeaderComponent={renderHolds()}
+          ListEmptyComponent={
+            <ThemedText style={styles.emptyText}>
+              No loans yet. Use the Borrow button on a book to start reading it.
+            </ThemedText>
+          }
+        />
+      )}
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  loanItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  loanIcon: {
+    marginRight: 12,
+    marginTop: 2,
+  },
+  loanText: {
+    flex: 1,
+  },
+  loanMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+    alignSelf: 'flex-start',
+  },
+  actionChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+  },
+  sectionTitle: {
+    paddingHorizontal: 20,
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  cancelButton: {
+    padding: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 24,
+  },
+});
+
+export default LoansScreen;
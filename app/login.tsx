@@ -1,13 +1,18 @@
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import React, { useState } from 'react';
-import { Alert, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { Alert, StyleSheet, TouchableOpacity } from 'react-native';
 
+import { FormInput } from '@/components/FormInput';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { Colors } from '@/constants/Colors';
 import { useTheme } from '@/hooks/useTheme';
-import { supabase } from '@/lib/supabase';
+import { sendSignInCode, signInWithPassword } from '@/lib/authGateway';
+import { needsMfaChallenge } from '@/lib/mfa';
+import { signInWithGoogle } from '@/lib/oauth';
+import { storeOTPData } from '@/lib/otpUtils';
+import { checkRateLimit, getRateLimitMessage, RateLimitError } from '@/lib/rateLimitUtils';
 
 const LoginScreen = () => {
   const { theme } = useTheme();
@@ -15,7 +20,6 @@ const LoginScreen = () => {
 
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
 
   const handleLogin = async () => {
@@ -27,22 +31,27 @@ const LoginScreen = () => {
     setLoading(true);
     
     try {
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email: email,
-        password: password,
-      });
-
-      if (error) {
-        Alert.alert('Login Error', error.message);
+      const rateLimit = await checkRateLimit('login', email);
+      if (!rateLimit.allowed) {
+        Alert.alert('Try Again Later', getRateLimitMessage(rateLimit));
         return;
       }
 
-      if (data.user) {
-        Alert.alert('Success', 'Login successful!');
-        router.replace('/(tabs)');
+      await signInWithPassword(email, password);
+
+      // Accounts with an authenticator finish signing in on the challenge screen.
+      if (await needsMfaChallenge()) {
+        router.replace('/mfa-challenge');
+        return;
       }
+
+      Alert.alert('Success', 'Login successful!');
     } catch (error) {
-      Alert.alert('Error', 'An unexpected error occurred. Please try again.');
+      if (error instanceof RateLimitError) {
+        Alert.alert('Try Again Later', error.message);
+        return;
+      }
+      Alert.alert('Login Error', error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.');
       console.error('Login error:', error);
     } finally {
       setLoading(false);
@@ -53,20 +62,48 @@ const LoginScreen = () => {
     setLoading(true);
     
     try {
-      const { data, error } = await supabase.auth.signInWithOAuth({
-        provider: 'google'
-      });
+      await signInWithGoogle();
+    } catch (error) {
+      console.error('Google sign-in error:', error);
+      Alert.alert(
+        'Google Sign-In Error',
+        error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      if (error) {
-        Alert.alert('Google Sign-In Error', error.message);
+  const handleEmailCode = async () => {
+    if (!email) {
+      Alert.alert('Error', 'Please enter your email address');
+      return;
+    }
+
+    setLoading(true);
+    
+    try {
+      const rateLimit = await checkRateLimit('login', email);
+      if (!rateLimit.allowed) {
+        Alert.alert('Try Again Later', getRateLimitMessage(rateLimit));
         return;
       }
 
-      // Google OAuth will redirect to browser, so we show a message
-      Alert.alert('Google Sign-In', 'Please complete the sign-in process in your browser.');
+      // Only existing accounts; new users still go through sign-up.
+      await sendSignInCode(email);
+
+      await storeOTPData({ email, type: 'login' });
+      router.push('/otp-verification');
     } catch (error) {
-      Alert.alert('Error', 'An unexpected error occurred. Please try again.');
-      console.error('Google sign-in error:', error);
+      if (error instanceof RateLimitError) {
+        Alert.alert('Try Again Later', error.message);
+        return;
+      }
+      Alert.alert(
+        'Sign-In Code Error',
+        error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.'
+      );
+      console.error('Email code sign-in error:', error);
     } finally {
       setLoading(false);
     }
@@ -87,41 +124,23 @@ const LoginScreen = () => {
       </ThemedView>
 
       <ThemedView style={styles.form} lightColor="transparent" darkColor="transparent">
-        <ThemedView style={styles.inputContainer} lightColor="transparent" darkColor="transparent">
-          <Ionicons name="mail" size={20} color="#666666" style={styles.inputIcon} />
-                      <TextInput
-              style={[styles.input, { color: '#000000' }]}
-              placeholder="Email"
-              placeholderTextColor="#666666"
-              value={email}
-              onChangeText={setEmail}
-              keyboardType="email-address"
-              autoCapitalize="none"
-            />
-        </ThemedView>
+        <FormInput
+          icon="mail"
+          placeholder="Email"
+          value={email}
+          onChangeText={setEmail}
+          keyboardType="email-address"
+          autoCapitalize="none"
+        />
 
-        <ThemedView style={styles.inputContainer} lightColor="transparent" darkColor="transparent">
-          <Ionicons name="lock-closed" size={20} color="#666666" style={styles.inputIcon} />
-                      <TextInput
-              style={[styles.input, { color: '#000000' }]}
-              placeholder="Password"
-              placeholderTextColor="#666666"
-              value={password}
-              onChangeText={setPassword}
-              secureTextEntry={!showPassword}
-              autoCapitalize="none"
-            />
-          <TouchableOpacity
-            onPress={() => setShowPassword(!showPassword)}
-            style={styles.eyeIcon}
-          >
-            <Ionicons
-              name={showPassword ? 'eye-off' : 'eye'}
-              size={20}
-              color="#666666"
-            />
-          </TouchableOpacity>
-        </ThemedView>
+        <FormInput
+          icon="lock-closed"
+          placeholder="Password"
+          value={password}
+          onChangeText={setPassword}
+          secure
+          autoCapitalize="none"
+        />
 
         <TouchableOpacity
           style={[
@@ -142,19 +161,34 @@ const LoginScreen = () => {
 
         <TouchableOpacity
           style={[
-            styles.googleButton,
+            styles.secondaryButton,
             { opacity: loading ? 0.7 : 1 }
           ]}
           onPress={handleGoogleSignIn}
           activeOpacity={0.8}
           disabled={loading}
         >
-          <Ionicons name="logo-google" size={20} color="#DB4437" style={styles.googleIcon} />
-          <ThemedText style={styles.googleButtonText}>
+          <Ionicons name="logo-google" size={20} color="#DB4437" style={styles.secondaryIcon} />
+          <ThemedText style={styles.secondaryButtonText}>
             {loading ? 'Signing In...' : 'Continue with Google'}
           </ThemedText>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[
+            styles.secondaryButton,
+            { opacity: loading ? 0.7 : 1 }
+          ]}
+          onPress={handleEmailCode}
+          activeOpacity={0.8}
+          disabled={loading}
+        >
+          <Ionicons name="mail-open" size={20} color="#007AFF" style={styles.secondaryIcon} />
+          <ThemedText style={styles.secondaryButtonText}>
+            Email Me a Sign-In Code
+          </ThemedText>
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={styles.forgotPassword}
           onPress={navigateToForgot}
@@ -202,29 +236,6 @@ const styles = StyleSheet.create({
   form: {
     marginBottom: 30,
   },
-  inputContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#F8F9FA',
-    borderWidth: 1,
-    borderColor: '#E0E0E0',
-    borderRadius: 12,
-    marginBottom: 16,
-    paddingHorizontal: 16,
-    height: 56,
-  },
-  inputIcon: {
-    marginRight: 12,
-  },
-  input: {
-    flex: 1,
-    fontSize: 16,
-    height: '100%',
-    
-  },
-  eyeIcon: {
-    padding: 4,
-  },
   loginButton: {
     height: 56,
     borderRadius: 12,
@@ -239,7 +250,7 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
-  googleButton: {
+  secondaryButton: {
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
@@ -252,10 +263,10 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     paddingHorizontal: 20,
   },
-  googleIcon: {
+  secondaryIcon: {
     marginRight: 10,
   },
-  googleButtonText: {
+  secondaryButtonText: {
     fontSize: 16,
     fontWeight: '600',
     color: '#333333',
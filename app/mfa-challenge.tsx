@@ -0,0 +1,178 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { FormInput } from '@/components/FormInput';
+import OTPInput from '@/components/OTPInput';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import { fetchTotpFactor, redeemRecoveryCode, verifyTotpCode } from '@/lib/mfa';
+
+const MfaChallengeScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { signOut } = useAuth();
+
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+  // Remounts the code input so a wrong code is cleared.
+  const [attempt, setAttempt] = useState(0);
+  const busy = useRef(false);
+
+  useEffect(() => {
+    fetchTotpFactor()
+      .then((factor) => setFactorId(factor?.id ?? null))
+      .catch((error) => {
+        console.error('Error loading authenticator:', error);
+        Alert.alert('Error', 'We could not load your authenticator. Please sign in again.');
+      });
+  }, []);
+
+  // The root layout moves on once the session is verified.
+  const handleCode = useCallback(
+    async (code: string) => {
+      if (!factorId || busy.current) return;
+      busy.current = true;
+      setVerifying(true);
+      try {
+        await verifyTotpCode(factorId, code);
+      } catch (error) {
+        console.error('MFA verification error:', error);
+        Alert.alert('Invalid Code', 'That code did not match. Check your authenticator app and try again.');
+        setAttempt((value) => value + 1);
+      } finally {
+        busy.current = false;
+        setVerifying(false);
+      }
+    },
+    [factorId]
+  );
+
+  const handleRecovery = async () => {
+    if (!recoveryCode.trim()) {
+      Alert.alert('Error', 'Please enter one of your recovery codes');
+      return;
+    }
+    setVerifying(true);
+    try {
+      await redeemRecoveryCode(recoveryCode);
+      Alert.alert(
+        'Two-Factor Authentication Reset',
+        'Your authenticator has been removed. Set up two-factor authentication again from Settings.'
+      );
+    } catch (error) {
+      console.error('Recovery code error:', error);
+      Alert.alert('Recovery Failed', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container} lightColor="#fff" darkColor="#fff">
+      <ThemedView style={styles.header} lightColor="transparent" darkColor="transparent">
+        <Ionicons name="shield-checkmark" size={56} color="#007AFF" />
+        <ThemedText type="title" style={styles.title}>
+          Two-Factor Sign-In
+        </ThemedText>
+        <ThemedText style={styles.subtitle}>
+          {useRecovery
+            ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </ThemedText>
+      </ThemedView>
+
+      {useRecovery ? (
+        <ThemedView lightColor="transparent" darkColor="transparent">
+          <FormInput
+            icon="key"
+            placeholder="XXXXX-XXXXX"
+            value={recoveryCode}
+            onChangeText={setRecoveryCode}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.primaryButton, { opacity: verifying ? 0.7 : 1 }]}
+            onPress={handleRecovery}
+            activeOpacity={0.8}
+            disabled={verifying}
+          >
+            <ThemedText style={styles.primaryButtonText}>
+              {verifying ? 'Checking...' : 'Use Recovery Code'}
+            </ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      ) : (
+        <ThemedView lightColor="transparent" darkColor="transparent">
+          <OTPInput key={attempt} length={6} onComplete={handleCode} disabled={verifying || !factorId} />
+          {verifying && <ActivityIndicator style={styles.loading} color={colors.tint} />}
+        </ThemedView>
+      )}
+
+      <TouchableOpacity style={styles.linkButton} onPress={() => setUseRecovery(!useRecovery)}>
+        <ThemedText style={styles.linkText}>
+          {useRecovery ? 'Use my authenticator app' : 'Lost your device? Use a recovery code'}
+        </ThemedText>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.linkButton} onPress={() => signOut()}>
+        <ThemedText style={[styles.linkText, { color: '#666666' }]}>Sign out</ThemedText>
+      </TouchableOpacity>
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+    justifyContent: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#000000',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  loading: {
+    marginTop: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 56,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
+});
+
+export default MfaChallengeScreen;
@@ -0,0 +1,290 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, RefreshControl, SectionList, Share, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  Annotation,
+  AnnotationKind,
+  deleteAnnotation,
+  formatAnnotationsAsJson,
+  formatAnnotationsAsMarkdown,
+  getAnnotations,
+  syncAnnotations,
+} from '@/lib/annotations';
+import { Book, fetchBooksByIds } from '@/lib/books';
+
+interface BookSection {
+  book: Book;
+  data: Annotation[];
+}
+
+const KIND_ICONS: Record<AnnotationKind, keyof typeof Ionicons.glyphMap> = {
+  bookmark: 'bookmark',
+  highlight: 'color-fill',
+  note: 'create',
+};
+
+const NotesScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const [sections, setSections] = useState<BookSection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const buildSections = useCallback(async (annotations: Annotation[]) => {
+    const bookIds = [...new Set(annotations.map((annotation) => annotation.book_id))];
+    const books = await fetchBooksByIds(bookIds);
+    setSections(
+      books.map((book) => ({
+        book,
+        data: annotations.filter((annotation) => annotation.book_id === book.id),
+      }))
+    );
+  }, []);
+
+  const loadAnnotations = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+    try {
+      await syncAnnotations(userId);
+      await buildSections(await getAnnotations(userId));
+    } catch (error) {
+      console.error('Error loading notes:', error);
+      Alert.alert('Error', 'Could not load your notes. Please try again.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [userId, buildSections]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAnnotations();
+    }, [loadAnnotations])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadAnnotations();
+  };
+
+  const shareExport = async (book: Book, annotations: Annotation[], format: 'markdown' | 'json') => {
+    const message =
+      format === 'markdown'
+        ? formatAnnotationsAsMarkdown(book, annotations)
+        : formatAnnotationsAsJson(book, annotations);
+    try {
+      await Share.share({ title: `${book.title} notes`, message });
+    } catch (error) {
+      console.error('Error sharing notes:', error);
+      Alert.alert('Error', 'Could not export your notes.');
+    }
+  };
+
+  const handleExport = (section: BookSection) => {
+    Alert.alert('Export Notes', `Export your notes for "${section.book.title}" as:`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Markdown', onPress: () => shareExport(section.book, section.data, 'markdown') },
+      { text: 'JSON', onPress: () => shareExport(section.book, section.data, 'json') },
+    ]);
+  };
+
+  const handleDelete = (annotation: Annotation) => {
+    if (!userId) return;
+    Alert.alert('Delete', `Delete this ${annotation.kind}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteAnnotation(userId, annotation.id);
+          setSections((current) =>
+            current
+              .map((section) => ({ ...section, data: section.data.filter((item) => item.id !== annotation.id) }))
+              .filter((section) => section.data.length > 0)
+          );
+        },
+      },
+    ]);
+  };
+
+  const openAnnotation = (annotation: Annotation) => {
+    router.push({
+      pathname: '/reader/[id]',
+      params: {
+        id: annotation.book_id,
+        ...(annotation.cfi ? { cfi: annotation.cfi } : {}),
+        ...(annotation.page ? { page: String(annotation.page) } : {}),
+      },
+    });
+  };
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color={colors.tint} />;
+    }
+    return (
+      <ThemedView style={styles.emptyState}>
+        <Ionicons name="bookmarks-outline" size={48} color={colors.icon} />
+        <ThemedText style={styles.emptyText}>
+          {userId
+            ? 'No notes yet. Select text in a book to highlight it or add a note.'
+            : 'Sign in to keep bookmarks, highlights and notes.'}
+        </ThemedText>
+      </ThemedView>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.headerTitle}>
+          My Notes
+        </ThemedText>
+        <ThemedText style={styles.headerSubtitle}>Bookmarks, highlights and notes by book</ThemedText>
+      </ThemedView>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        stickySectionHeadersEnabled={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />}
+        renderSectionHeader={({ section }) => (
+          <ThemedView style={[styles.sectionHeader, { borderColor: colors.icon + '30' }]}>
+            <ThemedText type="defaultSemiBold" numberOfLines={1} style={styles.sectionTitle}>
+              {section.book.title}
+            </ThemedText>
+            <TouchableOpacity style={styles.exportButton} onPress={() => handleExport(section)} activeOpacity={0.7}>
+              <Ionicons name="share-outline" size={18} color={colors.tint} />
+              <ThemedText style={[styles.exportText, { color: colors.tint }]}>Export</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        )}
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.annotationItem} onPress={() => openAnnotation(item)} activeOpacity={0.7}>
+            <Ionicons name={KIND_ICONS[item.kind]} size={20} color={colors.tint} style={styles.annotationIcon} />
+            <ThemedView style={styles.annotationText}>
+              {item.quote ? (
+                <ThemedText numberOfLines={3} style={styles.quote}>
+                  “{item.quote}”
+                </ThemedText>
+              ) : null}
+              {item.note ? <ThemedText numberOfLines={4}>{item.note}</ThemedText> : null}
+              <ThemedText style={styles.annotationMeta}>
+                {item.page ? `Page ${item.page} · ` : ''}
+                {new Date(item.updated_at).toLocaleDateString()}
+              </ThemedText>
+            </ThemedView>
+            <TouchableOpacity onPress={() => handleDelete(item)} style={styles.deleteButton}>
+              <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={styles.listContent}
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  listContent: {
+    paddingBottom: 32,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+  },
+  sectionTitle: {
+    flex: 1,
+    marginRight: 12,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  exportText: {
+    marginLeft: 4,
+    fontSize: 14,
+  },
+  annotationItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  annotationIcon: {
+    marginRight: 12,
+    marginTop: 2,
+  },
+  annotationText: {
+    flex: 1,
+  },
+  quote: {
+    fontStyle: 'italic',
+    opacity: 0.8,
+    marginBottom: 4,
+  },
+  annotationMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginTop: 12,
+  },
+});
+
+export default NotesScreen;
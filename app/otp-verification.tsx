@@ -13,10 +13,14 @@
  *    - Uses type 'recovery' for verifyOtp()
  *    - Uses type 'recovery' for resend()
  * 
+ * 3. Passwordless Login Flow (signInWithOtp):
+ *    - Uses type 'email' for verifyOtp()
+ *    - Calls signInWithOtp() again to resend; the email also carries a magic link
+ * 
  * FEATURES:
  * - Auto-verification when 6 digits are entered
  * - Proper error handling for expired/invalid codes
- * - Rate limiting protection
+ * - Server-side rate limiting on resends
  * - Session validation after verification
  * - Clean success/error messaging
  * - Production-ready logging
@@ -27,6 +31,7 @@
  * - Proper email provider configured (SMTP/SendGrid/etc.)
  */
 
+import { EmailOtpType } from '@supabase/supabase-js';
 import { router } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { Alert, StyleSheet, TouchableOpacity } from 'react-native';
@@ -36,10 +41,28 @@ import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { Colors } from '@/constants/Colors';
 import { useTheme } from '@/hooks/useTheme';
-import { clearOTPData, getOTPData } from '@/lib/otpUtils';
+import { resendCode, ResendType } from '@/lib/authGateway';
+import { clearOTPData, getOTPData, OTPFlow, storeOTPData } from '@/lib/otpUtils';
+import { checkRateLimit, getRateLimitMessage, RateLimitError } from '@/lib/rateLimitUtils';
 import { supabase } from '@/lib/supabase';
 import { Ionicons } from '@expo/vector-icons';
 
+// verifyOtp() type matching the call that sent the code
+const VERIFICATION_TYPES: Record<OTPFlow, EmailOtpType> = {
+	register: 'signup',
+	reset: 'recovery',
+	login: 'email',
+	email_change: 'email_change',
+};
+
+// Code to resend through the auth gateway for each flow
+const RESEND_TYPES: Record<OTPFlow, ResendType> = {
+	register: 'signup',
+	reset: 'recovery',
+	login: 'login',
+	email_change: 'email_change',
+};
+
 const OTPVerificationScreen = () => {
 	const { theme } = useTheme();
 	const colors = Colors[theme];
@@ -51,7 +74,8 @@ const OTPVerificationScreen = () => {
 	const [enteredOtp, setEnteredOtp] = useState('');
 
 	const [email, setEmail] = useState('');
-	const [type, setType] = useState<'register' | 'reset'>('register');
+	const [type, setType] = useState<OTPFlow>('register');
+	const [expiresAt, setExpiresAt] = useState<number | null>(null);
 
 	/**
 	 * Validate OTP format
@@ -63,17 +87,30 @@ const OTPVerificationScreen = () => {
 	useEffect(() => {
 		const loadOTPData = async () => {
 			const data = await getOTPData();
-			if (data && data.email && data.type) {
+			if (data) {
 				setEmail(data.email);
 				setType(data.type);
+				setExpiresAt(data.expiresAt);
 			} else {
 				Alert.alert('Error', 'No verification data found. Please try again.');
-				router.push('/login');
+				router.replace('/login');
 			}
 		};
 		loadOTPData();
 	}, []);
 
+	// Wipe the pending verification as soon as it expires.
+	useEffect(() => {
+		if (!expiresAt) return;
+		const timer = setTimeout(async () => {
+			await clearOTPData();
+			Alert.alert('Verification Expired', 'This verification has expired. Please start again.', [
+				{ text: 'OK', onPress: () => (type === 'email_change' ? router.back() : router.replace('/login')) },
+			]);
+		}, Math.max(expiresAt - Date.now(), 0));
+		return () => clearTimeout(timer);
+	}, [expiresAt, type]);
+
 	useEffect(() => {
 		if (resendTimer > 0) {
 			const timer = setTimeout(() => setResendTimer(resendTimer - 1), 1000);
@@ -110,8 +147,8 @@ const OTPVerificationScreen = () => {
 				flowType: type 
 			});
 			
-			// Determine correct verification type based on registration flow
-			const verificationType = type === 'register' ? 'signup' : 'recovery';
+			// Determine correct verification type based on the flow that sent the code
+			const verificationType = VERIFICATION_TYPES[type];
 			
 			console.log('📧 Using verification type:', verificationType);
 			
@@ -177,14 +214,12 @@ const OTPVerificationScreen = () => {
 			if (sessionError) {
 				console.error('❌ Session fetch error:', sessionError);
 				Alert.alert('Session Error', 'Failed to retrieve user session. Please try logging in.');
-				router.push('/login');
 				return;
 			}
 			
 			if (!sessionData.session) {
 				console.error('❌ No session found after verification');
 				Alert.alert('Session Error', 'No active session found. Please try logging in.');
-				router.push('/login');
 				return;
 			}
 			
@@ -195,17 +230,26 @@ const OTPVerificationScreen = () => {
 			});
 			
 			// Clear stored OTP data
+			setExpiresAt(null);
 			await clearOTPData();
 			
-			// Show success message and redirect
+			// The root layout moves signed-in users on; a reset still needs a new password
 			Alert.alert(
 				'🎉 Verification Successful!', 
 				type === 'register' 
 					? 'Your account has been verified successfully. Welcome!'
-					: 'Your identity has been verified successfully.',
+					: type === 'login'
+						? 'You are now signed in.'
+						: type === 'email_change'
+							? `Your email address is now ${email}.`
+							: 'Your identity has been verified successfully.',
 				[{ 
 					text: 'Continue', 
-					onPress: () => router.replace('/(tabs)') 
+					onPress: type === 'reset'
+						? () => router.replace('/reset-password')
+						: type === 'email_change'
+							? () => router.back()
+							: undefined
 				}]
 			);
 			
@@ -223,10 +267,11 @@ const OTPVerificationScreen = () => {
 	};
 
 	/**
-	 * Handle resend OTP with proper type matching
-	 * - For signUp() flow: use type 'signup'
-	 * - For password reset flow: use resetPasswordForEmail() instead of resend()
-	 * Note: resend() only supports 'signup' type in current Supabase version
+	 * Handle resend OTP with proper type matching. The auth-gateway function
+	 * rate-limits the request and resends with the call that sent the first code:
+	 * - For signUp() flow: resend() with type 'signup'
+	 * - For password reset flow: resetPasswordForEmail()
+	 * - For passwordless login: signInWithOtp() again
 	 */
 	const handleResend = async () => {
 		if (resendDisabled) return;
@@ -234,52 +279,25 @@ const OTPVerificationScreen = () => {
 		setLoading(true);
 		
 		try {
-			console.log('📤 Resending OTP for:', { email, flowType: type });
-			
-			let error = null;
-			
-			if (type === 'register') {
-				// For registration, use resend with signup type
-				console.log('📧 Using resend for signup flow');
-				const result = await supabase.auth.resend({ 
-					type: 'signup', 
-					email 
-				});
-				error = result.error;
-			} else {
-				// For password reset, use resetPasswordForEmail
-				console.log('📧 Using resetPasswordForEmail for reset flow');
-				const result = await supabase.auth.resetPasswordForEmail(email);
-				error = result.error;
-			}
-			
-			if (error) {
-				console.error('❌ Resend failed:', error.message);
-				
-				// Handle specific resend errors
-				if (error.message.toLowerCase().includes('rate limit') || 
-					error.message.toLowerCase().includes('too many requests')) {
-					Alert.alert(
-						'Rate Limited', 
-						'You have requested too many codes. Please wait a few minutes before requesting another one.',
-						[{ text: 'OK' }]
-					);
-					// Set a longer timer for rate limiting
-					setResendTimer(300); // 5 minutes
+			const rateLimit = await checkRateLimit('resend', email);
+			if (!rateLimit.allowed) {
+				Alert.alert('Try Again Later', getRateLimitMessage(rateLimit));
+				if (rateLimit.waitTime) {
+					setResendTimer(rateLimit.waitTime);
 					setResendDisabled(true);
-				} else if (error.message.toLowerCase().includes('user not found')) {
-					Alert.alert(
-						'User Not Found', 
-						'No user found with this email address. Please check your email or register a new account.',
-						[{ text: 'OK' }]
-					);
-				} else {
-					Alert.alert('Resend Failed', error.message);
 				}
 				return;
 			}
+
+			console.log('📤 Resending OTP for:', { email, flowType: type });
+			await resendCode(RESEND_TYPES[type], email);
 			
 			console.log('✅ OTP resent successfully');
+
+			// A new code restarts the expiry window
+			await storeOTPData({ email, type });
+			const refreshed = await getOTPData();
+			setExpiresAt(refreshed?.expiresAt ?? null);
 			
 			// Start resend cooldown timer (30 seconds for normal operation)
 			const cooldownTime = 30;
@@ -293,12 +311,25 @@ const OTPVerificationScreen = () => {
 			);
 			
 		} catch (err) {
-			console.error('💥 Resend exception:', err);
-			Alert.alert(
-				'Resend Error', 
-				'An unexpected error occurred while sending the code. Please try again later.',
-				[{ text: 'OK' }]
-			);
+			console.error('❌ Resend failed:', err);
+			
+			if (err instanceof RateLimitError) {
+				Alert.alert('Try Again Later', err.message);
+				setResendTimer(err.waitTime);
+				setResendDisabled(true);
+			} else if (err instanceof Error && err.message.toLowerCase().includes('user not found')) {
+				Alert.alert(
+					'User Not Found', 
+					'No user found with this email address. Please check your email or register a new account.',
+					[{ text: 'OK' }]
+				);
+			} else {
+				Alert.alert(
+					'Resend Failed', 
+					err instanceof Error ? err.message : 'An unexpected error occurred while sending the code. Please try again later.',
+					[{ text: 'OK' }]
+				);
+			}
 		} finally {
 			setLoading(false);
 		}
@@ -313,10 +344,11 @@ const OTPVerificationScreen = () => {
 			<ThemedView style={styles.content} lightColor="transparent" darkColor="transparent">
 				<ThemedView style={styles.header} lightColor="transparent" darkColor="transparent">
 					<ThemedText type="title" style={styles.title}>
-						Verify Your Email
+						{type === 'login' ? 'Enter Your Code' : type === 'email_change' ? 'Confirm Your New Email' : 'Verify Your Email'}
 					</ThemedText>
 					<ThemedText style={styles.subtitle}>
 						We've sent a 6-digit code to {email}
+						{type === 'login' ? '. You can also tap the sign-in link in that email.' : ''}
 					</ThemedText>
 				</ThemedView>
 
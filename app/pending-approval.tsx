@@ -0,0 +1,103 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+
+const PendingApprovalScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user, approvalStatus, refreshApproval, signOut } = useAuth();
+  const [checking, setChecking] = useState(false);
+
+  const rejected = approvalStatus === 'rejected';
+
+  // The root layout moves the user on once the status turns approved.
+  const handleCheckAgain = async () => {
+    setChecking(true);
+    try {
+      await refreshApproval();
+    } catch (error) {
+      console.error('Error checking approval:', error);
+      Alert.alert('Error', 'We could not check your membership. Please try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Ionicons name={rejected ? 'close-circle' : 'time'} size={64} color={rejected ? '#FF3B30' : colors.tint} />
+      <ThemedText type="title" style={styles.title}>
+        {rejected ? 'Membership Declined' : 'Awaiting Approval'}
+      </ThemedText>
+      <ThemedText style={styles.message}>
+        {rejected
+          ? 'The library could not confirm that this account belongs to a BCI member. Please contact the library desk if you think this is a mistake.'
+          : `${user?.email ?? 'Your email'} is not on an institutional domain, so a librarian needs to confirm your membership before you can use the library. Check back soon.`}
+      </ThemedText>
+
+      {!rejected && (
+        <TouchableOpacity
+          style={[styles.primaryButton, { backgroundColor: colors.tint }]}
+          onPress={handleCheckAgain}
+          activeOpacity={0.8}
+          disabled={checking}
+        >
+          {checking ? (
+            <ActivityIndicator color={colors.background} />
+          ) : (
+            <ThemedText style={[styles.primaryButtonText, { color: colors.background }]}>Check Again</ThemedText>
+          )}
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={() => signOut()} activeOpacity={0.7}>
+        <ThemedText style={{ color: colors.tint }}>Sign Out</ThemedText>
+      </TouchableOpacity>
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    lineHeight: 24,
+    opacity: 0.7,
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+});
+
+export default PendingApprovalScreen;
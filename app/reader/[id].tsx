@@ -0,0 +1,723 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Modal, Platform, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+
+import { NoteEditorModal } from '@/components/NoteEditorModal';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  Annotation,
+  AnnotationInput,
+  deleteAnnotation,
+  getAnnotations,
+  HIGHLIGHT_COLOR,
+  saveAnnotation,
+  syncAnnotations,
+} from '@/lib/annotations';
+import { Book, fetchBook, getBookFileUrl } from '@/lib/books';
+import { getLocalBookUri, markBookOpened } from '@/lib/downloads';
+import { fetchActiveLoan } from '@/lib/loans';
+import {
+  buildReaderHtml,
+  getPageFilter,
+  ReaderAppearance,
+  ReaderCommand,
+  ReaderHighlight,
+  ReaderLocation,
+  ReaderMessage,
+  ReaderSource,
+  ReaderTocItem,
+  serializeReaderCommand,
+} from '@/lib/readerHtml';
+import { READER_FILE_ACCESS_ROOT, writeReaderPage } from '@/lib/readerPage';
+import {
+  clampPreference,
+  DEFAULT_READER_PREFERENCES,
+  FONT_SIZE_RANGE,
+  getReaderPreferences,
+  LINE_HEIGHT_RANGE,
+  ReaderPreferences,
+  storeReaderPreferences,
+} from '@/lib/readerPreferences';
+import { getProgress, ReadingProgress, saveProgress } from '@/lib/readingProgress';
+
+const PROGRESS_SAVE_DELAY_MS = 1500;
+
+type NoteDraft = { annotation: Annotation } | { input: AnnotationInput };
+
+const ReaderScreen = () => {
+  const { theme } = useTheme();
+  const { user, can } = useAuth();
+  const userId = user?.id;
+  // Staff read any file without borrowing it.
+  const needsLoan = !can('manage_catalog');
+  // `page` and `cfi` open the book at a saved annotation instead of the last read position.
+  const params = useLocalSearchParams<{ id: string; page?: string; cfi?: string }>();
+  const { id } = params;
+  const requestedPage = params.page ? Number(params.page) : undefined;
+  const requestedCfi = params.cfi;
+  const webViewRef = useRef<WebView>(null);
+
+  const [book, setBook] = useState<Book | null>(null);
+  const [source, setSource] = useState<ReaderSource | null>(null);
+  const [pageUri, setPageUri] = useState<string | null>(null);
+  const [initialLocation, setInitialLocation] = useState<ReaderLocation | undefined>(undefined);
+  const [preferences, setPreferences] = useState<ReaderPreferences>(DEFAULT_READER_PREFERENCES);
+  const [error, setError] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [toc, setToc] = useState<ReaderTocItem[]>([]);
+  const [showToc, setShowToc] = useState(false);
+  const [showAppearance, setShowAppearance] = useState(false);
+  const [cfi, setCfi] = useState<string | null>(null);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [selection, setSelection] = useState<{ cfi: string; text: string } | null>(null);
+  const [noteDraft, setNoteDraft] = useState<NoteDraft | null>(null);
+
+  const mode = preferences.colorMode === 'sepia' ? 'sepia' : theme;
+  const colors = Colors[mode];
+  const appearance: ReaderAppearance = useMemo(
+    () => ({
+      background: Colors[mode].background,
+      text: Colors[mode].text,
+      pageFilter: getPageFilter(mode),
+      fontSize: preferences.fontSize,
+      lineHeight: preferences.lineHeight,
+    }),
+    [mode, preferences.fontSize, preferences.lineHeight]
+  );
+
+  // The HTML is built once per source; later appearance changes are pushed as commands.
+  const initialAppearanceRef = useRef(appearance);
+  const pendingProgressRef = useRef<Omit<ReadingProgress, 'updated_at'> | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    const loadBook = async () => {
+      if (!id) return;
+      try {
+        const [result, storedPreferences, storedProgress] = await Promise.all([
+          fetchBook(id),
+          getReaderPreferences(),
+          userId ? getProgress(userId, id) : Promise.resolve(null),
+        ]);
+        setPreferences(storedPreferences);
+        if (!result || !result.file_path || !result.file_format) {
+          setError('This book does not have a readable file.');
+          return;
+        }
+        if (requestedPage || requestedCfi) {
+          setInitialLocation({ page: requestedPage, cfi: requestedCfi });
+        } else if (storedProgress) {
+          setInitialLocation({
+            page: storedProgress.page ?? undefined,
+            cfi: storedProgress.cfi ?? undefined,
+          });
+        }
+        setBook(result);
+        // Prefer the downloaded copy so books open offline and without re-downloading.
+        const localUri = Platform.OS === 'web' ? null : await getLocalBookUri(result.id);
+        if (localUri) {
+          markBookOpened(result.id);
+          setSource({ uri: localUri });
+        } else if (needsLoan && (!userId || !(await fetchActiveLoan(userId, result.id)))) {
+          setError('Borrow this book from its detail page to read it.');
+        } else {
+          setSource({ uri: await getBookFileUrl(result) });
+        }
+      } catch (err) {
+        console.error('Error opening book:', err);
+        setError('We could not open this book. Please check your connection and try again.');
+      }
+    };
+    loadBook();
+  }, [id, userId, needsLoan, requestedPage, requestedCfi]);
+
+  useEffect(() => {
+    if (!id || !userId) return;
+    const loadAnnotations = async () => {
+      setAnnotations(await getAnnotations(userId, id));
+      await syncAnnotations(userId);
+      setAnnotations(await getAnnotations(userId, id));
+    };
+    loadAnnotations();
+  }, [id, userId]);
+
+  const flushProgress = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    if (userId && pendingProgressRef.current) {
+      saveProgress(userId, pendingProgressRef.current);
+      pendingProgressRef.current = null;
+    }
+  }, [userId]);
+
+  // Save whatever position is still pending when the reader closes.
+  useEffect(() => flushProgress, [flushProgress]);
+
+  const queueProgressSave = (progressUpdate: Omit<ReadingProgress, 'updated_at'>) => {
+    pendingProgressRef.current = progressUpdate;
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = setTimeout(flushProgress, PROGRESS_SAVE_DELAY_MS);
+  };
+
+  const html = useMemo(() => {
+    if (!book?.file_format || !source) return null;
+    return buildReaderHtml({
+      format: book.file_format,
+      source,
+      appearance: initialAppearanceRef.current,
+      initialLocation,
+    });
+  }, [book?.file_format, source, initialLocation]);
+
+  useEffect(() => {
+    if (!html) return;
+    let cancelled = false;
+    writeReaderPage(html)
+      .then((uri) => {
+        if (!cancelled) setPageUri(uri);
+      })
+      .catch((err) => {
+        console.error('Error preparing reader:', err);
+        setError('This book could not be displayed.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [html]);
+
+  const sendCommand = useCallback((command: ReaderCommand) => {
+    webViewRef.current?.injectJavaScript(serializeReaderCommand(command));
+  }, []);
+
+  useEffect(() => {
+    initialAppearanceRef.current = appearance;
+    if (ready) {
+      sendCommand({ name: 'setAppearance', appearance });
+    }
+  }, [appearance, ready, sendCommand]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const highlights: ReaderHighlight[] = annotations
+      .filter((annotation) => annotation.cfi && annotation.quote)
+      .map((annotation) => ({
+        id: annotation.id,
+        cfi: annotation.cfi as string,
+        color: annotation.color ?? HIGHLIGHT_COLOR,
+      }));
+    sendCommand({ name: 'setHighlights', highlights });
+  }, [annotations, ready, sendCommand]);
+
+  const updatePreferences = (changes: Partial<ReaderPreferences>) => {
+    const updated = { ...preferences, ...changes };
+    setPreferences(updated);
+    storeReaderPreferences(updated);
+  };
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    let message: ReaderMessage;
+    try {
+      message = JSON.parse(event.nativeEvent.data);
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case 'ready':
+        setReady(true);
+        setTotalPages(message.totalPages);
+        break;
+      case 'toc':
+        setToc(message.items);
+        break;
+      case 'location':
+        setPage(message.page);
+        setTotalPages(message.totalPages);
+        setProgress(message.progress);
+        setCfi(message.cfi ?? null);
+        if (book) {
+          queueProgressSave({
+            book_id: book.id,
+            page: message.page,
+            total_pages: message.totalPages,
+            cfi: message.cfi ?? null,
+            progress: message.progress,
+          });
+        }
+        break;
+      case 'selection':
+        setSelection({ cfi: message.cfi, text: message.text });
+        break;
+      case 'highlightPressed': {
+        const annotation = annotations.find((item) => item.id === message.id);
+        if (annotation) {
+          setNoteDraft({ annotation });
+        }
+        break;
+      }
+      case 'error':
+        console.error('Reader error:', message.message);
+        setError('This book could not be displayed.');
+        break;
+    }
+  };
+
+  const upsertAnnotation = async (input: AnnotationInput) => {
+    if (!userId) return;
+    const saved = await saveAnnotation(userId, input);
+    setAnnotations((current) => [...current.filter((item) => item.id !== saved.id), saved]);
+  };
+
+  const removeAnnotation = async (annotationId: string) => {
+    if (!userId) return;
+    await deleteAnnotation(userId, annotationId);
+    setAnnotations((current) => current.filter((item) => item.id !== annotationId));
+  };
+
+  const currentBookmark = annotations.find((annotation) => annotation.kind === 'bookmark' && annotation.page === page);
+
+  const toggleBookmark = () => {
+    if (!book) return;
+    if (currentBookmark) {
+      removeAnnotation(currentBookmark.id);
+    } else {
+      upsertAnnotation({ book_id: book.id, kind: 'bookmark', page, cfi });
+    }
+  };
+
+  const clearSelection = () => {
+    setSelection(null);
+    sendCommand({ name: 'clearSelection' });
+  };
+
+  const handleHighlight = () => {
+    if (!book || !selection) return;
+    upsertAnnotation({
+      book_id: book.id,
+      kind: 'highlight',
+      page,
+      cfi: selection.cfi,
+      quote: selection.text,
+      color: HIGHLIGHT_COLOR,
+    });
+    clearSelection();
+  };
+
+  const handleAddNote = () => {
+    if (!book) return;
+    if (selection) {
+      setNoteDraft({
+        input: { book_id: book.id, kind: 'note', page, cfi: selection.cfi, quote: selection.text, color: HIGHLIGHT_COLOR },
+      });
+      clearSelection();
+    } else {
+      setNoteDraft({ input: { book_id: book.id, kind: 'note', page, cfi } });
+    }
+  };
+
+  const handleSaveNote = (note: string) => {
+    if (!noteDraft) return;
+    const draft = 'annotation' in noteDraft ? noteDraft.annotation : noteDraft.input;
+    if (!note && draft.kind === 'note' && !draft.quote) {
+      Alert.alert('Empty Note', 'Write something before saving the note.');
+      return;
+    }
+    upsertAnnotation({ ...draft, note: note || null });
+    setNoteDraft(null);
+  };
+
+  const handleDeleteNote = () => {
+    if (!noteDraft || !('annotation' in noteDraft)) return;
+    removeAnnotation(noteDraft.annotation.id);
+    setNoteDraft(null);
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace({ pathname: '/book/[id]', params: { id: id ?? '' } });
+    }
+  };
+
+  const isEpub = book?.file_format === 'epub';
+  const positionLabel = totalPages
+    ? isEpub
+      ? `${Math.round(progress * 100)}%`
+      : `${page} / ${totalPages}`
+    : '';
+
+  const renderBody = () => {
+    if (Platform.OS === 'web') {
+      return (
+        <View style={styles.centered}>
+          <ThemedText style={[styles.stateText, { color: colors.text }]}>
+            The reader is available in the iOS and Android apps.
+          </ThemedText>
+        </View>
+      );
+    }
+    if (error) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="alert-circle" size={48} color={colors.icon} />
+          <ThemedText style={[styles.stateText, { color: colors.text }]}>{error}</ThemedText>
+        </View>
+      );
+    }
+    if (!pageUri) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      );
+    }
+    return (
+      <WebView
+        ref={webViewRef}
+        source={{ uri: pageUri }}
+        originWhitelist={['*']}
+        allowFileAccess
+        allowFileAccessFromFileURLs
+        allowingReadAccessToURL={READER_FILE_ACCESS_ROOT}
+        onMessage={handleMessage}
+        style={{ backgroundColor: colors.background }}
+        scalesPageToFit={!isEpub}
+        setBuiltInZoomControls={!isEpub}
+        setDisplayZoomControls={false}
+        javaScriptEnabled
+        startInLoadingState
+        renderLoading={() => (
+          <View style={[styles.centered, styles.loadingOverlay, { backgroundColor: colors.background }]}>
+            <ActivityIndicator size="large" color={colors.tint} />
+          </View>
+        )}
+      />
+    );
+  };
+
+  const renderStepper = (
+    label: string,
+    value: string,
+    onDecrease: () => void,
+    onIncrease: () => void
+  ) => (
+    <View style={styles.stepperRow}>
+      <ThemedText style={{ color: colors.text }}>{label}</ThemedText>
+      <View style={styles.stepper}>
+        <TouchableOpacity style={styles.stepperButton} onPress={onDecrease}>
+          <Ionicons name="remove" size={20} color={colors.tint} />
+        </TouchableOpacity>
+        <ThemedText style={[styles.stepperValue, { color: colors.text }]}>{value}</ThemedText>
+        <TouchableOpacity style={styles.stepperButton} onPress={onIncrease}>
+          <Ionicons name="add" size={20} color={colors.tint} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.toolbar}>
+        <TouchableOpacity style={styles.toolbarButton} onPress={handleBack}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText numberOfLines={1} style={[styles.toolbarTitle, { color: colors.text }]}>
+          {book?.title ?? ''}
+        </ThemedText>
+        {userId && (
+          <>
+            <TouchableOpacity style={styles.toolbarButton} onPress={toggleBookmark} disabled={!ready}>
+              <Ionicons
+                name={currentBookmark ? 'bookmark' : 'bookmark-outline'}
+                size={22}
+                color={currentBookmark ? colors.tint : colors.text}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.toolbarButton} onPress={handleAddNote} disabled={!ready}>
+              <Ionicons name="create-outline" size={22} color={colors.text} />
+            </TouchableOpacity>
+          </>
+        )}
+        <TouchableOpacity style={styles.toolbarButton} onPress={() => setShowToc(true)} disabled={toc.length === 0}>
+          <Ionicons name="list" size={24} color={toc.length === 0 ? colors.icon : colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.toolbarButton} onPress={() => setShowAppearance(!showAppearance)}>
+          <Ionicons name="text" size={22} color={showAppearance ? colors.tint : colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {showAppearance && (
+        <View style={[styles.appearancePanel, { borderColor: colors.icon + '40' }]}>
+          <View style={styles.modeRow}>
+            {(['app', 'sepia'] as const).map((colorMode) => (
+              <TouchableOpacity
+                key={colorMode}
+                style={[
+                  styles.modeChip,
+                  { borderColor: preferences.colorMode === colorMode ? colors.tint : colors.icon + '40' },
+                ]}
+                onPress={() => updatePreferences({ colorMode })}
+              >
+                <ThemedText style={{ color: colors.text }}>
+                  {colorMode === 'sepia' ? 'Sepia' : theme === 'dark' ? 'Dark' : 'Light'}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {isEpub ? (
+            <>
+              {renderStepper(
+                'Font size',
+                `${preferences.fontSize}%`,
+                () =>
+                  updatePreferences({
+                    fontSize: clampPreference(preferences.fontSize - FONT_SIZE_RANGE.step, FONT_SIZE_RANGE),
+                  }),
+                () =>
+                  updatePreferences({
+                    fontSize: clampPreference(preferences.fontSize + FONT_SIZE_RANGE.step, FONT_SIZE_RANGE),
+                  })
+              )}
+              {renderStepper(
+                'Line height',
+                preferences.lineHeight.toFixed(1),
+                () =>
+                  updatePreferences({
+                    lineHeight: clampPreference(preferences.lineHeight - LINE_HEIGHT_RANGE.step, LINE_HEIGHT_RANGE),
+                  }),
+                () =>
+                  updatePreferences({
+                    lineHeight: clampPreference(preferences.lineHeight + LINE_HEIGHT_RANGE.step, LINE_HEIGHT_RANGE),
+                  })
+              )}
+            </>
+          ) : (
+            <ThemedText style={[styles.hint, { color: colors.icon }]}>Pinch to zoom the page.</ThemedText>
+          )}
+        </View>
+      )}
+
+      <View style={styles.body}>{renderBody()}</View>
+
+      {selection && userId && (
+        <View style={[styles.selectionBar, { borderColor: colors.icon + '40', backgroundColor: colors.background }]}>
+          <TouchableOpacity style={styles.selectionAction} onPress={handleHighlight}>
+            <Ionicons name="color-fill-outline" size={20} color={colors.tint} />
+            <ThemedText style={[styles.selectionText, { color: colors.text }]}>Highlight</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.selectionAction} onPress={handleAddNote}>
+            <Ionicons name="create-outline" size={20} color={colors.tint} />
+            <ThemedText style={[styles.selectionText, { color: colors.text }]}>Add note</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.selectionAction} onPress={clearSelection}>
+            <Ionicons name="close" size={20} color={colors.icon} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.toolbarButton} onPress={() => sendCommand({ name: 'prev' })} disabled={!ready}>
+          <Ionicons name="chevron-back" size={28} color={ready ? colors.text : colors.icon} />
+        </TouchableOpacity>
+        <ThemedText style={[styles.position, { color: colors.text }]}>{positionLabel}</ThemedText>
+        <TouchableOpacity style={styles.toolbarButton} onPress={() => sendCommand({ name: 'next' })} disabled={!ready}>
+          <Ionicons name="chevron-forward" size={28} color={ready ? colors.text : colors.icon} />
+        </TouchableOpacity>
+      </View>
+
+      <NoteEditorModal
+        visible={noteDraft !== null}
+        title={noteDraft && 'annotation' in noteDraft ? 'Edit Note' : 'Add Note'}
+        quote={noteDraft ? ('annotation' in noteDraft ? noteDraft.annotation.quote : noteDraft.input.quote) : null}
+        initialNote={noteDraft && 'annotation' in noteDraft ? noteDraft.annotation.note : null}
+        colorMode={mode}
+        onSave={handleSaveNote}
+        onDelete={noteDraft && 'annotation' in noteDraft ? handleDeleteNote : undefined}
+        onClose={() => setNoteDraft(null)}
+      />
+
+      <Modal visible={showToc} animationType="slide" transparent onRequestClose={() => setShowToc(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={[styles.tocSheet, { backgroundColor: colors.background }]}>
+            <View style={styles.tocHeader}>
+              <ThemedText type="subtitle" style={{ color: colors.text }}>
+                Contents
+              </ThemedText>
+              <TouchableOpacity onPress={() => setShowToc(false)}>
+                <Ionicons name="close" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+            <FlatList
+              data={toc}
+              keyExtractor={(item, index) => `${item.target}-${index}`}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={[styles.tocItem, { paddingLeft: 20 + item.depth * 16 }]}
+                  onPress={() => {
+                    sendCommand({ name: 'goTo', target: item.target });
+                    setShowToc(false);
+                  }}
+                >
+                  <ThemedText numberOfLines={2} style={{ color: colors.text }}>
+                    {item.label}
+                  </ThemedText>
+                  {typeof item.target === 'number' && (
+                    <ThemedText style={[styles.tocPage, { color: colors.icon }]}>{item.target}</ThemedText>
+                  )}
+                </TouchableOpacity>
+              )}
+            />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 50,
+    paddingHorizontal: 8,
+    paddingBottom: 4,
+  },
+  toolbarButton: {
+    padding: 8,
+  },
+  toolbarTitle: {
+    flex: 1,
+    fontWeight: '600',
+    marginHorizontal: 8,
+  },
+  appearancePanel: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 12,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  modeChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    padding: 6,
+  },
+  stepperValue: {
+    minWidth: 56,
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  body: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  loadingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  stateText: {
+    marginTop: 12,
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 4,
+    paddingBottom: 28,
+  },
+  position: {
+    fontSize: 14,
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-around',
+    marginHorizontal: 16,
+    marginTop: 8,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderRadius: 12,
+  },
+  selectionAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+  },
+  selectionText: {
+    marginLeft: 6,
+  },
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  tocSheet: {
+    maxHeight: '75%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingBottom: 32,
+  },
+  tocHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+  },
+  tocItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingRight: 20,
+  },
+  tocPage: {
+    marginLeft: 12,
+  },
+});
+
+export default ReaderScreen;
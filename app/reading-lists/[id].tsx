@@ -0,0 +1,387 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { BookListItem } from '@/components/BookListItem';
+import { NoteEditorModal } from '@/components/NoteEditorModal';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  fetchReadingList,
+  followList,
+  isFollowingList,
+  markListSeen,
+  ReadingListItem,
+  ReadingListWithItems,
+  removeListItem,
+  reorderListItems,
+  RESERVE_LOAN_DAYS,
+  unfollowList,
+  updateListItem,
+} from '@/lib/readingLists';
+
+const ReadingListScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user, can } = useAuth();
+  const userId = user?.id;
+
+  const [list, setList] = useState<ReadingListWithItems | null>(null);
+  const [followed, setFollowed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingItem, setEditingItem] = useState<ReadingListItem | null>(null);
+
+  const isOwner = !!list && list.owner_id === userId && can('manage_reading_lists');
+
+  const loadList = useCallback(async () => {
+    if (!id || !userId) return;
+    setError(null);
+    try {
+      const [result, following] = await Promise.all([fetchReadingList(id), isFollowingList(userId, id)]);
+      if (!result) {
+        setError('This reading list no longer exists.');
+        return;
+      }
+      setList(result);
+      setFollowed(following);
+      if (following) {
+        await markListSeen(id);
+      }
+    } catch (err) {
+      console.error('Error loading reading list:', err);
+      setError('We could not load this reading list. Please check your connection.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, userId]);
+
+  // The owner edits details on another screen, so reload whenever this regains focus.
+  useFocusEffect(
+    useCallback(() => {
+      loadList();
+    }, [loadList])
+  );
+
+  const handleToggleFollow = async () => {
+    if (!userId || !list) return;
+    const following = !followed;
+    setFollowed(following);
+    try {
+      if (following) {
+        await followList(userId, list.id);
+      } else {
+        await unfollowList(userId, list.id);
+      }
+    } catch (err) {
+      console.error('Error updating follow:', err);
+      setFollowed(!following);
+      Alert.alert('Error', 'Could not update this list. Please try again.');
+    }
+  };
+
+  // Every owner edit reloads the list, so the screen ends up matching the server.
+  const runOwnerUpdate = async (update: () => Promise<void>, message: string) => {
+    try {
+      await update();
+    } catch (err) {
+      console.error('Error updating reading list:', err);
+      Alert.alert('Error', message);
+    } finally {
+      loadList();
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    if (!list) return;
+    const items = [...list.items];
+    const [moved] = items.splice(index, 1);
+    items.splice(index + offset, 0, moved);
+    setList({ ...list, items });
+    runOwnerUpdate(() => reorderListItems(items.map((item) => item.id)), 'Could not reorder the list.');
+  };
+
+  const handleToggleReserve = (item: ReadingListItem) => {
+    if (!list) return;
+    setList({
+      ...list,
+      items: list.items.map((entry) => (entry.id === item.id ? { ...entry, on_reserve: !item.on_reserve } : entry)),
+    });
+    runOwnerUpdate(() => updateListItem(item.id, { on_reserve: !item.on_reserve }), 'Could not update the title.');
+  };
+
+  const handleSaveNote = (note: string) => {
+    if (!editingItem) return;
+    const item = editingItem;
+    setEditingItem(null);
+    runOwnerUpdate(() => updateListItem(item.id, { note: note.trim() || null }), 'Could not save the note.');
+  };
+
+  const handleRemove = (item: ReadingListItem) => {
+    Alert.alert('Remove Title', `Remove "${item.book?.title ?? 'this title'}" from the list?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => runOwnerUpdate(() => removeListItem(item.id), 'Could not remove the title.'),
+      },
+    ]);
+  };
+
+  const renderOwnerControls = (item: ReadingListItem, index: number, count: number) => (
+    <ThemedView style={styles.controls}>
+      <TouchableOpacity
+        style={[styles.iconButton, { opacity: index > 0 ? 1 : 0.3 }]}
+        onPress={() => handleMove(index, -1)}
+        disabled={index === 0}
+      >
+        <Ionicons name="arrow-up" size={20} color={colors.tint} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.iconButton, { opacity: index < count - 1 ? 1 : 0.3 }]}
+        onPress={() => handleMove(index, 1)}
+        disabled={index === count - 1}
+      >
+        <Ionicons name="arrow-down" size={20} color={colors.tint} />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.iconButton} onPress={() => setEditingItem(item)}>
+        <Ionicons name="create-outline" size={20} color={colors.tint} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[
+          styles.reserveChip,
+          {
+            borderColor: item.on_reserve ? colors.tint : colors.icon + '40',
+            backgroundColor: item.on_reserve ? colors.tint + '20' : 'transparent',
+          },
+        ]}
+        onPress={() => handleToggleReserve(item)}
+        activeOpacity={0.7}
+      >
+        <ThemedText style={[styles.reserveText, item.on_reserve && { color: colors.tint }]}>Reserve</ThemedText>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(item)}>
+        <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+      </TouchableOpacity>
+    </ThemedView>
+  );
+
+  const renderItem = ({ item, index }: { item: ReadingListItem; index: number }) => (
+    <ThemedView style={styles.item}>
+      {item.book ? (
+        <BookListItem book={item.book} />
+      ) : (
+        <ThemedText style={styles.hiddenTitle}>A title you do not have access to</ThemedText>
+      )}
+      <ThemedView style={styles.itemDetails}>
+        {item.note ? <ThemedText style={styles.note}>{item.note}</ThemedText> : null}
+        {item.on_reserve && !isOwner ? (
+          <ThemedText style={[styles.reserveLabel, { color: colors.tint }]}>
+            On course reserve · {RESERVE_LOAN_DAYS}-day loans
+          </ThemedText>
+        ) : null}
+        {isOwner && list ? renderOwnerControls(item, index, list.items.length) : null}
+      </ThemedView>
+    </ThemedView>
+  );
+
+  if (loading || !list) {
+    return (
+      <ThemedView style={[styles.container, styles.centered]}>
+        {loading ? (
+          <ActivityIndicator size="large" color={colors.tint} />
+        ) : (
+          <>
+            <ThemedText style={styles.emptyText}>{error}</ThemedText>
+            <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7}>
+              <ThemedText style={{ color: colors.tint }}>Go back</ThemedText>
+            </TouchableOpacity>
+          </>
+        )}
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={list.items}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        ListHeaderComponent={
+          <ThemedView style={styles.header}>
+            <ThemedView style={styles.headerActions}>
+              <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+                <Ionicons name="arrow-back" size={24} color={colors.text} />
+              </TouchableOpacity>
+              {isOwner && (
+                <TouchableOpacity
+                  style={styles.backButton}
+                  onPress={() => router.push({ pathname: '/reading-lists/edit', params: { id: list.id } })}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name="create-outline" size={24} color={colors.tint} />
+                </TouchableOpacity>
+              )}
+            </ThemedView>
+            <ThemedText style={[styles.course, { color: colors.tint }]}>
+              {list.course_code} · {list.semester}
+            </ThemedText>
+            <ThemedText type="title" style={styles.headerTitle}>
+              {list.title}
+            </ThemedText>
+            {list.description ? <ThemedText style={styles.headerSubtitle}>{list.description}</ThemedText> : null}
+            <ThemedText style={styles.updated}>Updated {new Date(list.updated_at).toLocaleDateString()}</ThemedText>
+            <TouchableOpacity
+              style={[
+                styles.followButton,
+                { borderColor: colors.tint, backgroundColor: followed ? colors.tint + '20' : 'transparent' },
+              ]}
+              onPress={handleToggleFollow}
+              activeOpacity={0.8}
+            >
+              <Ionicons
+                name={followed ? 'notifications' : 'notifications-outline'}
+                size={18}
+                color={colors.tint}
+                style={styles.followIcon}
+              />
+              <ThemedText style={[styles.followText, { color: colors.tint }]}>
+                {followed ? 'Following' : 'Follow this list'}
+              </ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        }
+        ListEmptyComponent={
+          <ThemedText style={styles.emptyText}>
+            {isOwner ? 'Add titles with "Add to reading list" on a book page.' : 'No titles on this list yet.'}
+          </ThemedText>
+        }
+        contentContainerStyle={styles.listContent}
+      />
+
+      <NoteEditorModal
+        visible={!!editingItem}
+        title="Reading note"
+        quote={editingItem?.book?.title}
+        initialNote={editingItem?.note}
+        colorMode={theme}
+        onSave={handleSaveNote}
+        onClose={() => setEditingItem(null)}
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  course: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  updated: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 8,
+  },
+  followButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginTop: 16,
+  },
+  followIcon: {
+    marginRight: 6,
+  },
+  followText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingBottom: 32,
+  },
+  item: {
+    marginBottom: 4,
+  },
+  hiddenTitle: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    opacity: 0.6,
+  },
+  itemDetails: {
+    paddingLeft: 92,
+    paddingRight: 20,
+  },
+  note: {
+    fontSize: 14,
+  },
+  reserveLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  reserveChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginHorizontal: 4,
+  },
+  reserveText: {
+    fontSize: 14,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 24,
+  },
+});
+
+export default ReadingListScreen;
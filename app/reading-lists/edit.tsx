@@ -0,0 +1,247 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+
+import { FormInput } from '@/components/FormInput';
+import { PermissionGuard } from '@/components/PermissionGuard';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import { normalizeCourseCode } from '@/lib/books';
+import { deleteReadingList, fetchReadingList, ReadingListInput, saveReadingList } from '@/lib/readingLists';
+
+const EMPTY_FORM: ReadingListInput = {
+  title: '',
+  course_code: '',
+  semester: '',
+  description: '',
+};
+
+const validateForm = (form: ReadingListInput): string | null => {
+  if (!form.title.trim()) {
+    return 'Please enter a title.';
+  }
+  if (!/^[A-Z0-9]{2,16}$/.test(normalizeCourseCode(form.course_code))) {
+    return 'Please enter a course code such as CSE-301.';
+  }
+  if (!form.semester.trim()) {
+    return 'Please enter the semester, e.g. Fall 2026.';
+  }
+  return null;
+};
+
+const ReadingListEditorScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user } = useAuth();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+
+  const [form, setForm] = useState<ReadingListInput>(EMPTY_FORM);
+  const [loading, setLoading] = useState(!!id);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadList = async () => {
+      try {
+        const list = await fetchReadingList(id);
+        if (list) {
+          setForm({
+            title: list.title,
+            course_code: list.course_code,
+            semester: list.semester,
+            description: list.description ?? '',
+          });
+        }
+      } catch (error) {
+        console.error('Error loading reading list:', error);
+        Alert.alert('Error', 'Could not load this reading list.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadList();
+  }, [id]);
+
+  const updateForm = (update: Partial<ReadingListInput>) => {
+    setForm((current) => ({ ...current, ...update }));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    const validationError = validateForm(form);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveReadingList(user.id, id ?? null, form);
+      if (id) {
+        router.back();
+      } else {
+        router.replace({ pathname: '/reading-lists/[id]', params: { id: saved.id } });
+      }
+    } catch (error) {
+      console.error('Error saving reading list:', error);
+      Alert.alert('Save Failed', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!id) return;
+    Alert.alert('Delete Reading List', `Delete "${form.title}"? Followers will no longer see it.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteReadingList(id);
+            router.dismissTo('/reading-lists');
+          } catch (error) {
+            console.error('Error deleting reading list:', error);
+            Alert.alert('Error', 'Could not delete this reading list. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <PermissionGuard permission="manage_reading_lists">
+      <ThemedView style={styles.container}>
+        {loading ? (
+          <ActivityIndicator style={styles.loading} size="large" color={colors.tint} />
+        ) : (
+          <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+            <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+              <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+                <Ionicons name="arrow-back" size={24} color={colors.text} />
+              </TouchableOpacity>
+              <ThemedText type="title" style={styles.headerTitle}>
+                {id ? 'Edit Reading List' : 'New Reading List'}
+              </ThemedText>
+              <ThemedText style={styles.headerSubtitle}>
+                Add titles from their book pages once the list is saved.
+              </ThemedText>
+
+              <FormInput
+                icon="list"
+                placeholder="Title, e.g. Required reading"
+                value={form.title}
+                onChangeText={(title) => updateForm({ title })}
+                maxLength={120}
+              />
+              <FormInput
+                icon="school"
+                placeholder="Course code, e.g. CSE-301"
+                value={form.course_code}
+                onChangeText={(course_code) => updateForm({ course_code })}
+                autoCapitalize="characters"
+              />
+              <FormInput
+                icon="calendar"
+                placeholder="Semester, e.g. Fall 2026"
+                value={form.semester}
+                onChangeText={(semester) => updateForm({ semester })}
+                maxLength={40}
+              />
+              <FormInput
+                placeholder="Description"
+                value={form.description ?? ''}
+                onChangeText={(description) => updateForm({ description })}
+                multiline
+                maxLength={2000}
+              />
+
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: saving ? '#CCCCCC' : colors.tint, opacity: saving ? 0.7 : 1 }]}
+                onPress={handleSave}
+                disabled={saving}
+                activeOpacity={0.8}
+              >
+                <ThemedText style={[styles.saveButtonText, { color: colors.background }]}>
+                  {saving ? 'Saving...' : 'Save'}
+                </ThemedText>
+              </TouchableOpacity>
+
+              {id && (
+                <TouchableOpacity style={styles.deleteButton} onPress={handleDelete} activeOpacity={0.7}>
+                  <ThemedText style={styles.deleteButtonText}>Delete Reading List</ThemedText>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </KeyboardAvoidingView>
+        )}
+      </ThemedView>
+    </PermissionGuard>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loading: {
+    marginTop: 80,
+  },
+  scrollContent: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+    marginBottom: 24,
+  },
+  saveButton: {
+    height: 56,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  deleteButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    marginTop: 8,
+  },
+  deleteButtonText: {
+    color: '#FF3B30',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ReadingListEditorScreen;
@@ -0,0 +1,274 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, RefreshControl, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { useTheme } from '@/hooks/useTheme';
+import { fetchReadingLists, followList, ReadingListSummary, unfollowList } from '@/lib/readingLists';
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+const ReadingListsScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { user, can } = useAuth();
+  const userId = user?.id;
+
+  const [lists, setLists] = useState<ReadingListSummary[]>([]);
+  const [courseCode, setCourseCode] = useState('');
+  const debouncedCourseCode = useDebouncedValue(courseCode, SEARCH_DEBOUNCE_MS);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLists = useCallback(async () => {
+    if (!userId) return;
+    setError(null);
+    try {
+      setLists(await fetchReadingLists(userId, debouncedCourseCode));
+    } catch (err) {
+      console.error('Error loading reading lists:', err);
+      setError('We could not load reading lists. Please check your connection.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [userId, debouncedCourseCode]);
+
+  // Follows and badges change on the list screen, so reload on focus.
+  useFocusEffect(
+    useCallback(() => {
+      loadLists();
+    }, [loadLists])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadLists();
+  };
+
+  const handleToggleFollow = async (list: ReadingListSummary) => {
+    if (!userId) return;
+    const following = !list.followed;
+    setLists((current) => current.map((item) => (item.id === list.id ? { ...item, followed: following } : item)));
+    try {
+      if (following) {
+        await followList(userId, list.id);
+      } else {
+        await unfollowList(userId, list.id);
+      }
+    } catch (err) {
+      console.error('Error updating follow:', err);
+      setLists((current) => current.map((item) => (item.id === list.id ? list : item)));
+      Alert.alert('Error', 'Could not update this list. Please try again.');
+    }
+  };
+
+  const renderList = ({ item }: { item: ReadingListSummary }) => (
+    <TouchableOpacity
+      style={styles.listItem}
+      onPress={() => router.push({ pathname: '/reading-lists/[id]', params: { id: item.id } })}
+      activeOpacity={0.7}
+    >
+      <ThemedView style={styles.listText}>
+        <ThemedView style={styles.courseRow}>
+          <ThemedText style={[styles.courseCode, { color: colors.tint }]}>{item.course_code}</ThemedText>
+          <ThemedText style={styles.semester}>{item.semester}</ThemedText>
+          {item.hasUpdates && <ThemedView style={[styles.updateDot, { backgroundColor: colors.tint }]} />}
+        </ThemedView>
+        <ThemedText type="defaultSemiBold" numberOfLines={2}>
+          {item.title}
+        </ThemedText>
+      </ThemedView>
+      <TouchableOpacity
+        style={[
+          styles.followChip,
+          {
+            borderColor: item.followed ? colors.tint : colors.icon + '40',
+            backgroundColor: item.followed ? colors.tint + '20' : 'transparent',
+          },
+        ]}
+        onPress={() => handleToggleFollow(item)}
+        activeOpacity={0.7}
+      >
+        <ThemedText style={[styles.followText, item.followed && { color: colors.tint }]}>
+          {item.followed ? 'Following' : 'Follow'}
+        </ThemedText>
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color={colors.tint} />;
+    }
+    return (
+      <ThemedView style={styles.emptyState}>
+        <Ionicons name={error ? 'alert-circle' : 'school-outline'} size={48} color={colors.icon} />
+        <ThemedText style={styles.emptyText}>
+          {error ?? (debouncedCourseCode.trim() ? 'No reading lists for this course yet.' : 'No reading lists yet.')}
+        </ThemedText>
+      </ThemedView>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.headerTitle}>
+          Reading Lists
+        </ThemedText>
+        <ThemedText style={styles.headerSubtitle}>Required and recommended reading by course</ThemedText>
+        <ThemedView style={[styles.searchBar, { backgroundColor: colors.icon + '15' }]}>
+          <Ionicons name="search" size={18} color={colors.icon} style={styles.searchIcon} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            value={courseCode}
+            onChangeText={setCourseCode}
+            placeholder="Course code, e.g. CSE-301"
+            placeholderTextColor={colors.icon}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+        </ThemedView>
+        {can('manage_reading_lists') && (
+          <TouchableOpacity
+            style={styles.headerLink}
+            onPress={() => router.push('/reading-lists/edit')}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="add-circle" size={18} color={colors.tint} />
+            <ThemedText style={[styles.headerLinkText, { color: colors.tint }]}>New reading list</ThemedText>
+          </TouchableOpacity>
+        )}
+      </ThemedView>
+
+      <FlatList
+        data={lists}
+        keyExtractor={(item) => item.id}
+        renderItem={renderList}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />}
+        ListEmptyComponent={renderEmpty}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={styles.listContent}
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 50,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 44,
+    marginTop: 16,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    height: '100%',
+  },
+  headerLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  headerLinkText: {
+    marginLeft: 6,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingBottom: 24,
+  },
+  listItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  listText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  courseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  courseCode: {
+    fontSize: 13,
+    fontWeight: '700',
+    marginRight: 8,
+  },
+  semester: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  updateDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  followChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  followText: {
+    fontSize: 14,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginTop: 12,
+  },
+});
+
+export default ReadingListsScreen;
@@ -1,14 +1,20 @@
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
-import React, { useState } from 'react';
-import { Alert, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet, TouchableOpacity } from 'react-native';
 
+import { FormInput } from '@/components/FormInput';
+import { PasswordStrengthMeter } from '@/components/PasswordStrengthMeter';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { Colors } from '@/constants/Colors';
 import { useTheme } from '@/hooks/useTheme';
+import { signUp } from '@/lib/authGateway';
+import { fetchAllowedDomains, isAllowedEmailDomain } from '@/lib/membership';
+import { signInWithGoogle } from '@/lib/oauth';
+import { checkPassword } from '@/lib/passwordPolicy';
 import { storeOTPData } from '@/lib/otpUtils';
-import { supabase } from '@/lib/supabase';
+import { checkRateLimit, getRateLimitMessage, RateLimitError } from '@/lib/rateLimitUtils';
 
 const RegisterScreen = () => {
   const { theme } = useTheme();
@@ -18,10 +24,20 @@ const RegisterScreen = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  const [showPassword, setShowPassword] = useState(false);
-  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [memberId, setMemberId] = useState('');
+  const [allowedDomains, setAllowedDomains] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    fetchAllowedDomains()
+      .then(setAllowedDomains)
+      .catch((error) => console.error('Error loading allowed domains:', error));
+  }, []);
+
+  // Only a hint; the server decides approval when the account is created.
+  const needsApproval =
+    allowedDomains.length > 0 && email.includes('@') && !memberId.trim() && !isAllowedEmailDomain(email, allowedDomains);
+
   const handleRegister = async () => {
     if (!name || !email || !password || !confirmPassword) {
       Alert.alert('Error', 'Please fill in all fields');
@@ -33,39 +49,35 @@ const RegisterScreen = () => {
       return;
     }
 
-    if (password.length < 6) {
-      Alert.alert('Error', 'Password must be at least 6 characters long');
+    const passwordCheck = checkPassword(password, [name, email]);
+    if (!passwordCheck.valid) {
+      Alert.alert('Choose a Stronger Password', passwordCheck.errors.join('\n'));
       return;
     }
 
     setLoading(true);
     
     try {
-      const { data, error } = await supabase.auth.signUp({
-        email: email,
-        password: password,
-        options: {
-          data: {
-            full_name: name,
-          }
-        }
-      });
-
-      if (error) {
-        if (error.message.includes('rate limit') || error.message.includes('too many requests')) {
-          Alert.alert('Rate Limited', 'Too many registration attempts. Please wait a few minutes before trying again.');
-        } else {
-          Alert.alert('Registration Error', error.message);
-        }
+      const rateLimit = await checkRateLimit('register', email);
+      if (!rateLimit.allowed) {
+        Alert.alert('Try Again Later', getRateLimitMessage(rateLimit));
         return;
       }
 
-      if (data.user) {
-        await storeOTPData({ email, type: 'register', password });
-        router.push('/otp-verification' as any);
-      }
+      // The server checks the ID against the roster before creating the account.
+      await signUp(email, password, { fullName: name, memberId: memberId.trim() || undefined });
+
+      await storeOTPData({ email, type: 'register' });
+      router.push('/otp-verification' as any);
     } catch (error) {
-      Alert.alert('Error', 'An unexpected error occurred. Please try again.');
+      if (error instanceof RateLimitError) {
+        Alert.alert('Try Again Later', error.message);
+        return;
+      }
+      Alert.alert(
+        'Registration Error',
+        error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.'
+      );
       console.error('Registration error:', error);
     } finally {
       setLoading(false);
@@ -76,19 +88,13 @@ const RegisterScreen = () => {
     setLoading(true);
     
     try {
-      const { data, error } = await supabase.auth.signInWithOAuth({
-        provider: 'google'
-      });
-
-      if (error) {
-        Alert.alert('Google Sign-In Error', error.message);
-        return;
-      }
-
-      Alert.alert('Google Sign-In', 'Please complete the sign-in process in your browser.');
+      await signInWithGoogle();
     } catch (error) {
-      Alert.alert('Error', 'An unexpected error occurred. Please try again.');
       console.error('Google sign-in error:', error);
+      Alert.alert(
+        'Google Sign-In Error',
+        error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.'
+      );
     } finally {
       setLoading(false);
     }
@@ -117,76 +123,58 @@ const RegisterScreen = () => {
         </ThemedView>
 
         <ThemedView style={styles.form} lightColor="transparent" darkColor="transparent">
-          <ThemedView style={styles.inputContainer} lightColor="transparent" darkColor="transparent">
-            <Ionicons name="person" size={20} color="#666666" style={styles.inputIcon} />
-            <TextInput
-              style={[styles.input, { color: '#000000' }]}
-              placeholder="Full Name"
-              placeholderTextColor="#666666"
-              value={name}
-              onChangeText={setName}
-              autoCapitalize="words"
-            />
-          </ThemedView>
+          <FormInput
+            icon="person"
+            placeholder="Full Name"
+            value={name}
+            onChangeText={setName}
+            autoCapitalize="words"
+          />
+
+          <FormInput
+            icon="mail"
+            placeholder="Email"
+            value={email}
+            onChangeText={setEmail}
+            keyboardType="email-address"
+            autoCapitalize="none"
+          />
+
+          <FormInput
+            icon="card"
+            placeholder="Student / Staff ID (optional)"
+            value={memberId}
+            onChangeText={setMemberId}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
 
-          <ThemedView style={styles.inputContainer} lightColor="transparent" darkColor="transparent">
-            <Ionicons name="mail" size={20} color="#666666" style={styles.inputIcon} />
-            <TextInput
-              style={[styles.input, { color: '#000000' }]}
-              placeholder="Email"
-              placeholderTextColor="#666666"
-              value={email}
-              onChangeText={setEmail}
-              keyboardType="email-address"
-              autoCapitalize="none"
-            />
-          </ThemedView>
+          {needsApproval && (
+            <ThemedText style={styles.hint}>
+              Emails outside {allowedDomains.join(', ')} need a student or staff ID, or a librarian will review your
+              account before you can use the library.
+            </ThemedText>
+          )}
+
+          <FormInput
+            icon="lock-closed"
+            placeholder="Password"
+            value={password}
+            onChangeText={setPassword}
+            secure
+            autoCapitalize="none"
+          />
 
-          <ThemedView style={styles.inputContainer} lightColor="transparent" darkColor="transparent">
-            <Ionicons name="lock-closed" size={20} color="#666666" style={styles.inputIcon} />
-            <TextInput
-              style={[styles.input, { color: '#000000' }]}
-              placeholder="Password"
-              placeholderTextColor="#666666"
-              value={password}
-              onChangeText={setPassword}
-              secureTextEntry={!showPassword}
-              autoCapitalize="none"
-            />
-            <TouchableOpacity
-              onPress={() => setShowPassword(!showPassword)}
-              style={styles.eyeIcon}
-            >
-              <Ionicons
-                name={showPassword ? 'eye-off' : 'eye'}
-                size={20}
-                color="#666666"
-              />
-            </TouchableOpacity>
-          </ThemedView>
+          <PasswordStrengthMeter password={password} context={[name, email]} />
 
-          <ThemedView style={styles.inputContainer} lightColor="transparent" darkColor="transparent">
-            <Ionicons name="lock-closed" size={20} color="#666666" style={styles.inputIcon} />
-            <TextInput
-              style={[styles.input, { color: '#000000' }]}
-              placeholder="Confirm Password"
-              placeholderTextColor="#666666"
-              value={confirmPassword}
-              onChangeText={setConfirmPassword}
-              secureTextEntry={!showConfirmPassword}
-              autoCapitalize="none"
-            />
-            <TouchableOpacity
-              onPress={() => setShowConfirmPassword(!showConfirmPassword)}
-              style={styles.eyeIcon}
-            >
-              <Ionicons
-                name={showConfirmPassword ? 'eye-off' : 'eye'}
-                size={20}
-                color="#666666"
-              />
-            </TouchableOpacity>
-          </ThemedView>
+          <FormInput
+            icon="lock-closed"
+            placeholder="Confirm Password"
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            secure
+            autoCapitalize="none"
+          />
 
           <TouchableOpacity
             style={[
@@ -270,27 +258,12 @@ const styles = StyleSheet.create({
   form: {
     marginBottom: 30,
   },
-  inputContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#F8F9FA',
-    borderWidth: 1,
-    borderColor: '#E0E0E0',
-    borderRadius: 12,
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#666666',
+    marginTop: -8,
     marginBottom: 16,
-    paddingHorizontal: 16,
-    height: 56,
-  },
-  inputIcon: {
-    marginRight: 12,
-  },
-  input: {
-    flex: 1,
-    fontSize: 16,
-    height: '100%',
-  },
-  eyeIcon: {
-    padding: 4,
   },
   registerButton: {
     height: 56,
@@ -1,18 +1,22 @@
 import { Ionicons } from '@expo/vector-icons';
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { Alert, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
 
+import { PasswordStrengthMeter } from '@/components/PasswordStrengthMeter';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
 import { useTheme } from '@/hooks/useTheme';
+import { checkPassword } from '@/lib/passwordPolicy';
 // Removed OTP storage dependency
 import { supabase } from '@/lib/supabase';
 
 const ResetPasswordScreen = () => {
   const { theme } = useTheme();
   const colors = Colors[theme];
+  const { user } = useAuth();
   const params = useLocalSearchParams();
   
   const [password, setPassword] = useState('');
@@ -21,20 +25,6 @@ const ResetPasswordScreen = () => {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [loading, setLoading] = useState(false);
 
-  const [sessionReady, setSessionReady] = useState(false);
-
-  useEffect(() => {
-    const checkSession = async () => {
-      const { data, error } = await supabase.auth.getSession();
-      if (error || !data.session) {
-        router.push('/login');
-        return;
-      }
-      setSessionReady(true);
-    };
-    checkSession();
-  }, []);
-
   const handleResetPassword = async () => {
     if (!password || !confirmPassword) {
       Alert.alert('Error', 'Please fill in all fields');
@@ -46,13 +36,12 @@ const ResetPasswordScreen = () => {
       return;
     }
 
-    if (password.length < 6) {
-      Alert.alert('Error', 'Password must be at least 6 characters long');
+    const passwordCheck = checkPassword(password, [user?.email ?? '']);
+    if (!passwordCheck.valid) {
+      Alert.alert('Choose a Stronger Password', passwordCheck.errors.join('\n'));
       return;
     }
 
-    if (!sessionReady) return;
-
     setLoading(true);
     
     try {
@@ -68,11 +57,11 @@ const ResetPasswordScreen = () => {
 
       Alert.alert(
         'Password Updated!',
-        'Your password has been successfully updated. You can now sign in with your new password.',
+        'Your password has been successfully updated. Use it the next time you sign in.',
         [
           {
             text: 'OK',
-            onPress: () => router.push('/login'),
+            onPress: () => router.replace('/(tabs)'),
           },
         ]
       );
@@ -84,13 +73,13 @@ const ResetPasswordScreen = () => {
     }
   };
 
-  const navigateToLogin = () => router.push('/login');
+  const navigateHome = () => router.replace('/(tabs)');
 
   return (
     <ThemedView style={styles.container}>
       <TouchableOpacity
         style={styles.backButton}
-        onPress={navigateToLogin}
+        onPress={navigateHome}
         activeOpacity={0.7}
       >
         <Ionicons name="arrow-back" size={24} color={colors.text} />
@@ -130,6 +119,8 @@ const ResetPasswordScreen = () => {
             </TouchableOpacity>
           </ThemedView>
 
+          <PasswordStrengthMeter password={password} context={[user?.email ?? '']} />
+
           <ThemedView style={styles.inputContainer}>
             <Ionicons name="lock-closed" size={20} color={colors.icon} style={styles.inputIcon} />
             <TextInput
@@ -175,9 +166,9 @@ const ResetPasswordScreen = () => {
           <ThemedText style={[styles.footerText, { color: colors.text }]}>
             Remember your password?{' '}
           </ThemedText>
-          <TouchableOpacity onPress={navigateToLogin}>
+          <TouchableOpacity onPress={navigateHome}>
             <ThemedText style={[styles.signInText, { color: colors.tint }]}>
-              Sign In
+              Continue
             </ThemedText>
           </TouchableOpacity>
         </ThemedView>
@@ -0,0 +1,406 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { ComponentProps, useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, FlatList, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+import { BookListItem } from '@/components/BookListItem';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { useTheme } from '@/hooks/useTheme';
+import { Book, BOOKS_PAGE_SIZE, BookSearchFilters, hasActiveFilters, searchBooks } from '@/lib/books';
+import { addRecentSearch, clearRecentSearches, getRecentSearches, RecentSearch } from '@/lib/recentSearches';
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+const describeSearch = (search: RecentSearch): string => {
+  const parts: string[] = [];
+  if (search.query) parts.push(`"${search.query}"`);
+  if (search.filters.courseCode) parts.push(`course ${search.filters.courseCode}`);
+  if (search.filters.author) parts.push(`by ${search.filters.author}`);
+  if (search.filters.subject) parts.push(search.filters.subject);
+  if (search.filters.language) parts.push(search.filters.language);
+  if (search.filters.yearFrom || search.filters.yearTo) {
+    parts.push(`${search.filters.yearFrom ?? '…'}–${search.filters.yearTo ?? '…'}`);
+  }
+  return parts.join(' · ');
+};
+
+const parseYear = (value: string): number | undefined => {
+  const year = parseInt(value, 10);
+  return Number.isNaN(year) ? undefined : year;
+};
+
+const SearchScreen = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+
+  const [query, setQuery] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [author, setAuthor] = useState('');
+  const [subject, setSubject] = useState('');
+  const [courseCode, setCourseCode] = useState('');
+  const [language, setLanguage] = useState('');
+  const [yearFrom, setYearFrom] = useState('');
+  const [yearTo, setYearTo] = useState('');
+
+  const [results, setResults] = useState<Book[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>([]);
+
+  // Ignore responses from searches that were superseded while in flight.
+  const searchIdRef = useRef(0);
+
+  const filters: BookSearchFilters = {
+    author: author || undefined,
+    subject: subject || undefined,
+    courseCode: courseCode || undefined,
+    language: language || undefined,
+    yearFrom: parseYear(yearFrom),
+    yearTo: parseYear(yearTo),
+  };
+  const debouncedQuery = useDebouncedValue(query, SEARCH_DEBOUNCE_MS);
+  const debouncedFilters = useDebouncedValue(JSON.stringify(filters), SEARCH_DEBOUNCE_MS);
+  const isSearching = debouncedQuery.trim() !== '' || hasActiveFilters(JSON.parse(debouncedFilters));
+
+  useEffect(() => {
+    getRecentSearches().then(setRecentSearches);
+  }, []);
+
+  const runSearch = useCallback(async (searchQuery: string, searchFilters: BookSearchFilters) => {
+    const searchId = ++searchIdRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const firstPage = await searchBooks(searchQuery, searchFilters, 0);
+      if (searchId !== searchIdRef.current) return;
+      setResults(firstPage);
+      setPage(0);
+      setHasMore(firstPage.length === BOOKS_PAGE_SIZE);
+    } catch (err) {
+      if (searchId !== searchIdRef.current) return;
+      console.error('Book search error:', err);
+      setError('Search failed. Please check your connection and try again.');
+      setResults([]);
+    } finally {
+      if (searchId === searchIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    const parsedFilters: BookSearchFilters = JSON.parse(debouncedFilters);
+    if (debouncedQuery.trim() === '' && !hasActiveFilters(parsedFilters)) {
+      searchIdRef.current++;
+      setResults([]);
+      setHasMore(false);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+    runSearch(debouncedQuery, parsedFilters);
+  }, [debouncedQuery, debouncedFilters, runSearch]);
+
+  const handleLoadMore = async () => {
+    if (!isSearching || loading || loadingMore || !hasMore) return;
+
+    const searchId = searchIdRef.current;
+    setLoadingMore(true);
+    try {
+      const nextPage = await searchBooks(debouncedQuery, JSON.parse(debouncedFilters), page + 1);
+      if (searchId !== searchIdRef.current) return;
+      setResults((prev) => [...prev, ...nextPage]);
+      setPage(page + 1);
+      setHasMore(nextPage.length === BOOKS_PAGE_SIZE);
+    } catch (err) {
+      console.error('Book search pagination error:', err);
+      setHasMore(false);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const rememberSearch = async () => {
+    if (query.trim() === '' && !hasActiveFilters(filters)) return;
+    const updated = await addRecentSearch({ query: query.trim(), filters });
+    setRecentSearches(updated);
+  };
+
+  const applyRecentSearch = (search: RecentSearch) => {
+    setQuery(search.query);
+    setAuthor(search.filters.author ?? '');
+    setSubject(search.filters.subject ?? '');
+    setCourseCode(search.filters.courseCode ?? '');
+    setLanguage(search.filters.language ?? '');
+    setYearFrom(search.filters.yearFrom?.toString() ?? '');
+    setYearTo(search.filters.yearTo?.toString() ?? '');
+    setShowFilters(hasActiveFilters(search.filters));
+  };
+
+  const handleClearRecent = async () => {
+    await clearRecentSearches();
+    setRecentSearches([]);
+  };
+
+  const handleResetFilters = () => {
+    setAuthor('');
+    setSubject('');
+    setCourseCode('');
+    setLanguage('');
+    setYearFrom('');
+    setYearTo('');
+  };
+
+  const renderFilterInput = (
+    icon: ComponentProps<typeof Ionicons>['name'],
+    placeholder: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    numeric = false
+  ) => (
+    <ThemedView style={[styles.filterInputContainer, { borderColor: colors.icon + '40' }]}>
+      <Ionicons name={icon} size={16} color={colors.icon} style={styles.filterIcon} />
+      <TextInput
+        style={[styles.filterInput, { color: colors.text }]}
+        placeholder={placeholder}
+        placeholderTextColor={colors.icon}
+        value={value}
+        onChangeText={onChangeText}
+        keyboardType={numeric ? 'number-pad' : 'default'}
+        maxLength={numeric ? 4 : undefined}
+        autoCapitalize={numeric ? 'none' : 'words'}
+        autoCorrect={false}
+      />
+    </ThemedView>
+  );
+
+  const renderRecentSearches = () => (
+    <ThemedView style={styles.recentContainer}>
+      <ThemedView style={styles.recentHeader}>
+        <ThemedText type="defaultSemiBold">Recent searches</ThemedText>
+        {recentSearches.length > 0 && (
+          <TouchableOpacity onPress={handleClearRecent}>
+            <ThemedText style={{ color: colors.tint }}>Clear</ThemedText>
+          </TouchableOpacity>
+        )}
+      </ThemedView>
+      {recentSearches.length === 0 ? (
+        <ThemedText style={styles.stateText}>
+          Search by title, author or course code, e.g. &quot;CSE-301&quot;.
+        </ThemedText>
+      ) : (
+        recentSearches.map((search) => (
+          <TouchableOpacity
+            key={search.searchedAt}
+            style={styles.recentItem}
+            onPress={() => applyRecentSearch(search)}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="time-outline" size={18} color={colors.icon} style={styles.recentIcon} />
+            <ThemedText numberOfLines={1} style={styles.recentText}>
+              {describeSearch(search)}
+            </ThemedText>
+          </TouchableOpacity>
+        ))
+      )}
+    </ThemedView>
+  );
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.stateLoader} size="large" color={colors.tint} />;
+    }
+    if (error) {
+      return <ThemedText style={styles.stateText}>{error}</ThemedText>;
+    }
+    return <ThemedText style={styles.stateText}>No books match your search.</ThemedText>;
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <ThemedView style={[styles.searchInputContainer, { backgroundColor: colors.icon + '15' }]}>
+          <Ionicons name="search" size={18} color={colors.icon} style={styles.filterIcon} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            placeholder="Title, author or course code"
+            placeholderTextColor={colors.icon}
+            value={query}
+            onChangeText={setQuery}
+            onSubmitEditing={rememberSearch}
+            returnKeyType="search"
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')}>
+              <Ionicons name="close-circle" size={18} color={colors.icon} />
+            </TouchableOpacity>
+          )}
+        </ThemedView>
+        <TouchableOpacity
+          style={styles.filterToggle}
+          onPress={() => setShowFilters(!showFilters)}
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name={showFilters ? 'options' : 'options-outline'}
+            size={24}
+            color={hasActiveFilters(filters) ? colors.tint : colors.text}
+          />
+        </TouchableOpacity>
+      </ThemedView>
+
+      {showFilters && (
+        <ThemedView style={styles.filters}>
+          {renderFilterInput('school', 'Course code (e.g. CSE-301)', courseCode, setCourseCode)}
+          {renderFilterInput('person', 'Author', author, setAuthor)}
+          {renderFilterInput('pricetag', 'Subject or department', subject, setSubject)}
+          {renderFilterInput('language', 'Language', language, setLanguage)}
+          <ThemedView style={styles.yearRow}>
+            <ThemedView style={styles.yearInput}>
+              {renderFilterInput('calendar', 'From year', yearFrom, setYearFrom, true)}
+            </ThemedView>
+            <ThemedView style={styles.yearInput}>
+              {renderFilterInput('calendar', 'To year', yearTo, setYearTo, true)}
+            </ThemedView>
+          </ThemedView>
+          {hasActiveFilters(filters) && (
+            <TouchableOpacity onPress={handleResetFilters} style={styles.resetFilters}>
+              <ThemedText style={{ color: colors.tint }}>Reset filters</ThemedText>
+            </TouchableOpacity>
+          )}
+        </ThemedView>
+      )}
+
+      {isSearching ? (
+        <FlatList
+          data={results}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <BookListItem
+              book={item}
+              onPress={(book) => {
+                rememberSearch();
+                router.push({ pathname: '/book/[id]', params: { id: book.id } });
+              }}
+            />
+          )}
+          ListEmptyComponent={renderEmpty}
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator style={styles.stateLoader} color={colors.tint} /> : null
+          }
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          keyboardShouldPersistTaps="handled"
+        />
+      ) : (
+        renderRecentSearches()
+      )}
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  backButton: {
+    padding: 8,
+  },
+  searchInputContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 44,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    height: '100%',
+  },
+  filterToggle: {
+    padding: 8,
+  },
+  filters: {
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
+  filterInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    height: 44,
+    marginBottom: 8,
+  },
+  filterIcon: {
+    marginRight: 8,
+  },
+  filterInput: {
+    flex: 1,
+    fontSize: 15,
+    height: '100%',
+  },
+  yearRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  yearInput: {
+    flex: 1,
+  },
+  resetFilters: {
+    alignSelf: 'flex-end',
+    paddingVertical: 4,
+  },
+  recentContainer: {
+    paddingHorizontal: 20,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  recentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  recentIcon: {
+    marginRight: 12,
+  },
+  recentText: {
+    flex: 1,
+  },
+  stateText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 24,
+  },
+  stateLoader: {
+    paddingVertical: 24,
+  },
+});
+
+export default SearchScreen;
@@ -0,0 +1,81 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { router } from 'expo-router';
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useTheme } from '@/hooks/useTheme';
+import { Book, getBookCoverUrl } from '@/lib/books';
+
+export type BookCoverCardProps = {
+  book: Book;
+  caption?: string;
+  /** Defaults to opening the book detail screen. */
+  onPress?: (book: Book) => void;
+};
+
+/**
+ * Compact cover + title tile used in horizontal shelves.
+ */
+export function BookCoverCard({ book, caption, onPress }: BookCoverCardProps) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const coverUrl = getBookCoverUrl(book);
+
+  const handlePress = () => {
+    if (onPress) {
+      onPress(book);
+      return;
+    }
+    router.push({ pathname: '/book/[id]', params: { id: book.id } });
+  };
+
+  return (
+    <TouchableOpacity style={styles.container} activeOpacity={0.7} onPress={handlePress}>
+      {coverUrl ? (
+        <Image source={{ uri: coverUrl }} style={styles.cover} contentFit="cover" transition={150} />
+      ) : (
+        <View style={[styles.cover, styles.coverPlaceholder, { backgroundColor: colors.tint + '20' }]}>
+          <Ionicons name="book" size={32} color={colors.tint} />
+        </View>
+      )}
+      <ThemedText numberOfLines={2} style={styles.title}>
+        {book.title}
+      </ThemedText>
+      {caption ? (
+        <ThemedText numberOfLines={1} style={styles.caption}>
+          {caption}
+        </ThemedText>
+      ) : null}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: 112,
+    marginRight: 12,
+  },
+  cover: {
+    width: 112,
+    height: 160,
+    borderRadius: 8,
+    marginBottom: 6,
+  },
+  coverPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 13,
+    lineHeight: 17,
+    fontWeight: '600',
+  },
+  caption: {
+    fontSize: 12,
+    lineHeight: 16,
+    opacity: 0.6,
+  },
+});
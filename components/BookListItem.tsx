@@ -0,0 +1,90 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { router } from 'expo-router';
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useTheme } from '@/hooks/useTheme';
+import { Book, formatAuthors, getBookCoverUrl } from '@/lib/books';
+
+export type BookListItemProps = {
+  book: Book;
+  /** Defaults to opening the book detail screen. */
+  onPress?: (book: Book) => void;
+  /** Trailing content such as a status badge. */
+  right?: React.ReactNode;
+};
+
+export function BookListItem({ book, onPress, right }: BookListItemProps) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const coverUrl = getBookCoverUrl(book);
+
+  const handlePress = () => {
+    if (onPress) {
+      onPress(book);
+      return;
+    }
+    router.push({ pathname: '/book/[id]', params: { id: book.id } });
+  };
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      activeOpacity={0.7}
+      onPress={handlePress}
+    >
+      {coverUrl ? (
+        <Image source={{ uri: coverUrl }} style={styles.cover} contentFit="cover" transition={150} />
+      ) : (
+        <View style={[styles.cover, styles.coverPlaceholder, { backgroundColor: colors.tint + '20' }]}>
+          <Ionicons name="book" size={24} color={colors.tint} />
+        </View>
+      )}
+      <View style={styles.details}>
+        <ThemedText type="defaultSemiBold" numberOfLines={2}>
+          {book.title}
+        </ThemedText>
+        <ThemedText style={styles.authors} numberOfLines={1}>
+          {formatAuthors(book.authors)}
+        </ThemedText>
+        {book.published_year ? (
+          <ThemedText style={styles.meta}>{book.published_year}</ThemedText>
+        ) : null}
+      </View>
+      {right}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  cover: {
+    width: 56,
+    height: 80,
+    borderRadius: 6,
+    marginRight: 16,
+  },
+  coverPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  details: {
+    flex: 1,
+  },
+  authors: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  meta: {
+    fontSize: 12,
+    opacity: 0.5,
+  },
+});
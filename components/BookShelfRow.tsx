@@ -0,0 +1,75 @@
+import React from 'react';
+import { FlatList, StyleSheet, View } from 'react-native';
+
+import { BookCoverCard } from '@/components/BookCoverCard';
+import { ThemedText } from '@/components/ThemedText';
+import { Book } from '@/lib/books';
+
+export type BookShelfRowProps = {
+  title: string;
+  books: Book[];
+  getCaption?: (book: Book) => string | undefined;
+  onPressBook?: (book: Book) => void;
+  right?: React.ReactNode;
+  /** Shown in place of the covers when there are no books; without it an empty row is hidden. */
+  emptyText?: string;
+};
+
+/**
+ * Titled, horizontally scrolling row of book covers. Renders nothing when empty
+ * unless `emptyText` is given.
+ */
+export function BookShelfRow({ title, books, getCaption, onPressBook, right, emptyText }: BookShelfRowProps) {
+  if (books.length === 0 && !emptyText) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText type="subtitle" style={styles.title}>
+          {title}
+        </ThemedText>
+        {right}
+      </View>
+      {books.length === 0 ? (
+        <ThemedText style={styles.emptyText}>{emptyText}</ThemedText>
+      ) : (
+        <FlatList
+          horizontal
+          data={books}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <BookCoverCard book={item} caption={getCaption?.(item)} onPress={onPressBook} />
+          )}
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.list}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  title: {
+    flexShrink: 1,
+    fontSize: 18,
+  },
+  list: {
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    paddingHorizontal: 20,
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,137 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Alert, Platform, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useDownloads } from '@/hooks/useDownloads';
+import { useTheme } from '@/hooks/useTheme';
+import { Book, formatFileSize } from '@/lib/books';
+import { deleteDownload, downloadBook, pauseDownload, resumeDownload } from '@/lib/downloads';
+
+export type DownloadButtonProps = {
+  book: Book;
+  /** When the reader's loan ends; the offline copy is deleted then. Staff read without a loan. */
+  expiresAt?: number;
+};
+
+export function DownloadButton({ book, expiresAt }: DownloadButtonProps) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const record = useDownloads()[book.id];
+
+  // Files are streamed on the web build; there is no device storage to manage.
+  if (Platform.OS === 'web' || !book.file_path) {
+    return null;
+  }
+
+  const handleDownload = async () => {
+    try {
+      await downloadBook(book, expiresAt);
+    } catch (error) {
+      Alert.alert('Download Failed', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleResume = async () => {
+    try {
+      await resumeDownload(book.id);
+    } catch (error) {
+      Alert.alert('Download Failed', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleRemove = () => {
+    Alert.alert('Remove Download', `Remove the offline copy of "${book.title}" from this device?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => deleteDownload(book.id) },
+    ]);
+  };
+
+  if (!record) {
+    return (
+      <TouchableOpacity
+        style={[styles.button, { borderColor: colors.tint }]}
+        onPress={handleDownload}
+        activeOpacity={0.8}
+      >
+        <Ionicons name="download-outline" size={20} color={colors.tint} style={styles.icon} />
+        <ThemedText style={[styles.buttonText, { color: colors.tint }]}>
+          Download{book.file_size ? ` (${formatFileSize(book.file_size)})` : ''}
+        </ThemedText>
+      </TouchableOpacity>
+    );
+  }
+
+  if (record.status === 'completed') {
+    return (
+      <TouchableOpacity
+        style={[styles.button, { borderColor: colors.icon + '40' }]}
+        onPress={handleRemove}
+        activeOpacity={0.8}
+      >
+        <Ionicons name="checkmark-circle" size={20} color={colors.tint} style={styles.icon} />
+        <ThemedText style={styles.buttonText}>Downloaded · Remove</ThemedText>
+      </TouchableOpacity>
+    );
+  }
+
+  const fraction = record.totalBytes ? Math.min(1, record.bytesWritten / record.totalBytes) : 0;
+  const downloading = record.status === 'downloading';
+
+  return (
+    <View style={[styles.button, styles.progressButton, { borderColor: colors.icon + '40' }]}>
+      <View style={[styles.progressFill, { width: `${fraction * 100}%`, backgroundColor: colors.tint + '20' }]} />
+      <ThemedText style={styles.progressText}>
+        {downloading ? 'Downloading' : record.status === 'failed' ? 'Download interrupted' : 'Paused'} ·{' '}
+        {Math.round(fraction * 100)}%
+      </ThemedText>
+      <TouchableOpacity
+        style={styles.progressAction}
+        onPress={() => (downloading ? pauseDownload(book.id) : handleResume())}
+      >
+        <Ionicons name={downloading ? 'pause' : 'play'} size={20} color={colors.tint} />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.progressAction} onPress={() => deleteDownload(book.id)}>
+        <Ionicons name="close" size={20} color={colors.icon} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+    overflow: 'hidden',
+  },
+  icon: {
+    marginRight: 8,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  progressButton: {
+    justifyContent: 'flex-start',
+    paddingLeft: 16,
+  },
+  progressFill: {
+    ...StyleSheet.absoluteFillObject,
+    right: undefined,
+  },
+  progressText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  progressAction: {
+    paddingHorizontal: 12,
+    height: '100%',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,72 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { ComponentProps, useState } from 'react';
+import { StyleProp, StyleSheet, TextInput, TextInputProps, TouchableOpacity, View, ViewStyle } from 'react-native';
+
+export type FormInputProps = TextInputProps & {
+  icon?: ComponentProps<typeof Ionicons>['name'];
+  /** Hides the text and adds a button to reveal it, for passwords. */
+  secure?: boolean;
+  containerStyle?: StyleProp<ViewStyle>;
+};
+
+/**
+ * Rounded input with a leading icon, shared by the auth and librarian forms.
+ */
+export function FormInput({ icon, secure, containerStyle, style, multiline, ...rest }: FormInputProps) {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <View style={[styles.inputContainer, multiline && styles.multilineContainer, containerStyle]}>
+      {icon && <Ionicons name={icon} size={20} color="#666666" style={styles.inputIcon} />}
+      <TextInput
+        style={[styles.input, multiline && styles.multilineInput, style]}
+        placeholderTextColor="#666666"
+        secureTextEntry={secure && !revealed}
+        multiline={multiline}
+        {...rest}
+      />
+      {secure && (
+        <TouchableOpacity onPress={() => setRevealed(!revealed)} style={styles.eyeIcon}>
+          <Ionicons name={revealed ? 'eye-off' : 'eye'} size={20} color="#666666" />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F8F9FA',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 12,
+    marginBottom: 16,
+    paddingHorizontal: 16,
+    height: 56,
+  },
+  multilineContainer: {
+    alignItems: 'flex-start',
+    height: undefined,
+    minHeight: 120,
+    paddingVertical: 12,
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    height: '100%',
+    color: '#000000',
+  },
+  multilineInput: {
+    height: undefined,
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  eyeIcon: {
+    padding: 4,
+  },
+});
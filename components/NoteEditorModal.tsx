@@ -0,0 +1,152 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { KeyboardAvoidingView, Modal, Platform, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+
+export type NoteEditorModalProps = {
+  visible: boolean;
+  title: string;
+  /** Highlighted passage the note is attached to, if any. */
+  quote?: string | null;
+  initialNote?: string | null;
+  colorMode: keyof typeof Colors;
+  onSave: (note: string) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+};
+
+export function NoteEditorModal({
+  visible,
+  title,
+  quote,
+  initialNote,
+  colorMode,
+  onSave,
+  onDelete,
+  onClose,
+}: NoteEditorModalProps) {
+  const colors = Colors[colorMode];
+  const [note, setNote] = useState(initialNote ?? '');
+
+  useEffect(() => {
+    if (visible) {
+      setNote(initialNote ?? '');
+    }
+  }, [visible, initialNote]);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={[styles.sheet, { backgroundColor: colors.background }]}>
+          <View style={styles.header}>
+            <ThemedText type="subtitle" style={{ color: colors.text }}>
+              {title}
+            </ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {quote ? (
+            <ThemedText numberOfLines={4} style={[styles.quote, { color: colors.text, borderColor: colors.tint }]}>
+              {quote}
+            </ThemedText>
+          ) : null}
+
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.icon + '40' }]}
+            value={note}
+            onChangeText={setNote}
+            placeholder="Write a note..."
+            placeholderTextColor={colors.icon}
+            multiline
+            autoFocus
+          />
+
+          <View style={styles.actions}>
+            {onDelete && (
+              <TouchableOpacity style={styles.deleteButton} onPress={onDelete}>
+                <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                <ThemedText style={styles.deleteText}>Delete</ThemedText>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.saveButton, { backgroundColor: colors.tint }]}
+              onPress={() => onSave(note.trim())}
+              activeOpacity={0.8}
+            >
+              <ThemedText style={styles.saveText}>Save</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    paddingLeft: 12,
+    marginBottom: 16,
+    fontStyle: 'italic',
+    opacity: 0.8,
+  },
+  input: {
+    minHeight: 120,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 'auto',
+    padding: 8,
+  },
+  deleteText: {
+    color: '#FF3B30',
+    marginLeft: 6,
+  },
+  saveButton: {
+    height: 44,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
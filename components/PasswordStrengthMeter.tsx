@@ -0,0 +1,71 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { checkPassword, PASSWORD_STRENGTH_LABELS, PasswordStrength } from '@/lib/passwordPolicy';
+
+export type PasswordStrengthMeterProps = {
+  password: string;
+  /** The user's name, email and similar, which the password must not contain. */
+  context?: string[];
+};
+
+const STRENGTH_COLORS: Record<PasswordStrength, string> = {
+  0: '#FF3B30',
+  1: '#FF3B30',
+  2: '#FF9500',
+  3: '#34C759',
+  4: '#34C759',
+};
+
+const SEGMENTS = 4;
+
+/**
+ * Live strength bar and the first unmet rule, shown under a new-password field.
+ */
+export function PasswordStrengthMeter({ password, context }: PasswordStrengthMeterProps) {
+  if (!password) return null;
+
+  const { strength, errors } = checkPassword(password, context);
+  const color = STRENGTH_COLORS[strength];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.bar}>
+        {Array.from({ length: SEGMENTS }, (_, index) => (
+          <View
+            key={index}
+            style={[styles.segment, { backgroundColor: index < Math.max(strength, 1) ? color : '#E0E0E0' }]}
+          />
+        ))}
+      </View>
+      <Text style={[styles.label, { color }]}>{PASSWORD_STRENGTH_LABELS[strength]}</Text>
+      {errors.length > 0 && <Text style={styles.hint}>{errors[0]}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  bar: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  segment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+});
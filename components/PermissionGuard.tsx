@@ -0,0 +1,47 @@
+import { Redirect } from 'expo-router';
+import React from 'react';
+import { ActivityIndicator, StyleSheet } from 'react-native';
+
+import { ThemedView } from '@/components/ThemedView';
+import { useAuth } from '@/hooks/useAuth';
+import { Permission } from '@/lib/permissions';
+
+export type PermissionGuardProps = {
+  permission: Permission;
+  children: React.ReactNode;
+  /**
+   * Rendered when the permission is missing. Defaults to a redirect to Home,
+   * which suits guarding whole screens or route groups.
+   */
+  fallback?: React.ReactNode;
+};
+
+/**
+ * Renders its children only for users whose role grants `permission`. This
+ * only hides UI; the database policies are what actually protect the data.
+ */
+export function PermissionGuard({ permission, children, fallback }: PermissionGuardProps) {
+  const { loading, can } = useAuth();
+
+  if (loading) {
+    return fallback === undefined ? (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator size="large" />
+      </ThemedView>
+    ) : null;
+  }
+
+  if (!can(permission)) {
+    return fallback === undefined ? <Redirect href="/" /> : <>{fallback}</>;
+  }
+
+  return <>{children}</>;
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
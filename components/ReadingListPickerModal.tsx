@@ -0,0 +1,196 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  addListItem,
+  fetchOwnListItemsForBook,
+  fetchOwnReadingLists,
+  ReadingList,
+  removeListItem,
+} from '@/lib/readingLists';
+
+export type ReadingListPickerModalProps = {
+  visible: boolean;
+  ownerId: string;
+  bookId: string;
+  onClose: () => void;
+};
+
+/** Lets faculty put a title on, or take it off, their course reading lists. */
+export function ReadingListPickerModal({ visible, ownerId, bookId, onClose }: ReadingListPickerModalProps) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+
+  const [lists, setLists] = useState<ReadingList[]>([]);
+  // List ID to the title's entry on that list.
+  const [itemIds, setItemIds] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [busyListId, setBusyListId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadLists = async () => {
+      setLoading(true);
+      try {
+        const [ownLists, items] = await Promise.all([
+          fetchOwnReadingLists(ownerId),
+          fetchOwnListItemsForBook(ownerId, bookId),
+        ]);
+        setLists(ownLists);
+        setItemIds(Object.fromEntries(items.map((item) => [item.list_id, item.id])));
+      } catch (error) {
+        console.error('Error loading reading lists:', error);
+        Alert.alert('Error', 'Could not load your reading lists.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadLists();
+  }, [visible, ownerId, bookId]);
+
+  const handleToggle = async (list: ReadingList) => {
+    setBusyListId(list.id);
+    try {
+      const itemId = itemIds[list.id];
+      if (itemId) {
+        await removeListItem(itemId);
+        setItemIds((current) => {
+          const next = { ...current };
+          delete next[list.id];
+          return next;
+        });
+      } else {
+        const newItemId = await addListItem(list.id, bookId);
+        setItemIds((current) => ({ ...current, [list.id]: newItemId }));
+      }
+    } catch (error) {
+      console.error('Error updating reading list:', error);
+      Alert.alert('Error', 'Could not update the reading list. Please try again.');
+    } finally {
+      setBusyListId(null);
+    }
+  };
+
+  const handleCreate = () => {
+    onClose();
+    router.push('/reading-lists/edit');
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.sheet, { backgroundColor: colors.background }]}>
+          <View style={styles.header}>
+            <ThemedText type="subtitle">Add to reading list</ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loading} color={colors.tint} />
+          ) : (
+            <ScrollView style={styles.list}>
+              {lists.map((list) => {
+                const selected = !!itemIds[list.id];
+                return (
+                  <TouchableOpacity
+                    key={list.id}
+                    style={styles.listItem}
+                    onPress={() => handleToggle(list)}
+                    disabled={busyListId !== null}
+                    activeOpacity={0.7}
+                  >
+                    {busyListId === list.id ? (
+                      <ActivityIndicator color={colors.tint} />
+                    ) : (
+                      <Ionicons
+                        name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                        size={24}
+                        color={selected ? colors.tint : colors.icon}
+                      />
+                    )}
+                    <View style={styles.listText}>
+                      <ThemedText numberOfLines={1}>{list.title}</ThemedText>
+                      <ThemedText style={styles.listMeta}>
+                        {list.course_code} · {list.semester}
+                      </ThemedText>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+              {lists.length === 0 && (
+                <ThemedText style={styles.emptyText}>You have not published any reading lists yet.</ThemedText>
+              )}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity style={styles.createButton} onPress={handleCreate} activeOpacity={0.7}>
+            <Ionicons name="add-circle" size={24} color={colors.tint} />
+            <ThemedText style={[styles.createText, { color: colors.tint }]}>New reading list</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '75%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  listText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  listMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  emptyText: {
+    opacity: 0.7,
+    paddingVertical: 12,
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  createText: {
+    marginLeft: 8,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
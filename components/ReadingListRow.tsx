@@ -0,0 +1,124 @@
+import { router } from 'expo-router';
+import React from 'react';
+import { FlatList, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useTheme } from '@/hooks/useTheme';
+import { ReadingListSummary } from '@/lib/readingLists';
+
+export type ReadingListRowProps = {
+  lists: ReadingListSummary[];
+};
+
+/**
+ * Followed course reading lists on Home, with a badge on lists changed since
+ * they were last opened and a link to browse every list.
+ */
+export function ReadingListRow({ lists }: ReadingListRowProps) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText type="subtitle" style={styles.title}>
+          Course reading lists
+        </ThemedText>
+        <TouchableOpacity onPress={() => router.push('/reading-lists')} activeOpacity={0.7}>
+          <ThemedText style={[styles.browse, { color: colors.tint }]}>Browse</ThemedText>
+        </TouchableOpacity>
+      </View>
+      {lists.length === 0 ? (
+        <ThemedText style={styles.emptyText}>Follow the reading lists for your courses to see them here.</ThemedText>
+      ) : (
+        <FlatList
+          horizontal
+          data={lists}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <TouchableOpacity
+              style={[styles.card, { borderColor: item.hasUpdates ? colors.tint : colors.icon + '40' }]}
+              onPress={() => router.push({ pathname: '/reading-lists/[id]', params: { id: item.id } })}
+              activeOpacity={0.7}
+            >
+              <View style={styles.cardHeader}>
+                <ThemedText style={[styles.courseCode, { color: colors.tint }]}>{item.course_code}</ThemedText>
+                {item.hasUpdates && (
+                  <View style={[styles.badge, { backgroundColor: colors.tint }]}>
+                    <ThemedText style={[styles.badgeText, { color: colors.background }]}>Updated</ThemedText>
+                  </View>
+                )}
+              </View>
+              <ThemedText type="defaultSemiBold" numberOfLines={2}>
+                {item.title}
+              </ThemedText>
+              <ThemedText style={styles.semester}>{item.semester}</ThemedText>
+            </TouchableOpacity>
+          )}
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.list}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  title: {
+    flexShrink: 1,
+    fontSize: 18,
+  },
+  browse: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  list: {
+    paddingHorizontal: 20,
+    gap: 12,
+  },
+  card: {
+    width: 180,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  courseCode: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  badge: {
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  semester: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  emptyText: {
+    paddingHorizontal: 20,
+    opacity: 0.6,
+  },
+});
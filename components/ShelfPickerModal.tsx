@@ -0,0 +1,217 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  addBookToShelf,
+  createShelf,
+  fetchShelves,
+  fetchShelvesForBook,
+  removeBookFromShelf,
+  Shelf,
+} from '@/lib/shelves';
+
+export type ShelfPickerModalProps = {
+  visible: boolean;
+  userId: string;
+  bookId: string;
+  onClose: () => void;
+  /** Called with the shelves that hold the book after every change. */
+  onChange?: (shelves: Shelf[]) => void;
+};
+
+export function ShelfPickerModal({ visible, userId, bookId, onClose, onChange }: ShelfPickerModalProps) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+
+  const [shelves, setShelves] = useState<Shelf[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [newShelfName, setNewShelfName] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadShelves = async () => {
+      setLoading(true);
+      try {
+        const [allShelves, bookShelves] = await Promise.all([
+          fetchShelves(userId),
+          fetchShelvesForBook(userId, bookId),
+        ]);
+        setShelves(allShelves);
+        setSelectedIds(bookShelves.map((shelf) => shelf.id));
+      } catch (error) {
+        console.error('Error loading shelves:', error);
+        Alert.alert('Error', 'Could not load your shelves.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadShelves();
+  }, [visible, userId, bookId]);
+
+  const updateSelection = (ids: string[], allShelves = shelves) => {
+    setSelectedIds(ids);
+    onChange?.(allShelves.filter((shelf) => ids.includes(shelf.id)));
+  };
+
+  const handleToggle = async (shelf: Shelf) => {
+    const previous = selectedIds;
+    const selected = previous.includes(shelf.id);
+    let next = selected ? previous.filter((id) => id !== shelf.id) : [...previous, shelf.id];
+    // A book has a single reading status, mirroring the server-side trigger.
+    if (!selected && shelf.kind !== 'custom') {
+      next = next.filter((id) => id === shelf.id || shelves.find((s) => s.id === id)?.kind === 'custom');
+    }
+    updateSelection(next);
+
+    try {
+      if (selected) {
+        await removeBookFromShelf(shelf.id, bookId);
+      } else {
+        await addBookToShelf(shelf.id, bookId);
+      }
+    } catch (error) {
+      console.error('Error updating shelf:', error);
+      updateSelection(previous);
+      Alert.alert('Error', 'Could not update your shelf. Please try again.');
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = newShelfName.trim();
+    if (!name) return;
+
+    try {
+      const shelf = await createShelf(userId, name, shelves.length);
+      await addBookToShelf(shelf.id, bookId);
+      const allShelves = [...shelves, shelf];
+      setShelves(allShelves);
+      updateSelection([...selectedIds, shelf.id], allShelves);
+      setNewShelfName('');
+    } catch (error) {
+      console.error('Error creating shelf:', error);
+      Alert.alert('Error', 'Could not create the collection. Please try again.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView style={styles.backdrop} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={[styles.sheet, { backgroundColor: colors.background }]}>
+          <View style={styles.header}>
+            <ThemedText type="subtitle">Add to shelf</ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loading} color={colors.tint} />
+          ) : (
+            <ScrollView style={styles.list}>
+              {shelves.map((shelf) => {
+                const selected = selectedIds.includes(shelf.id);
+                return (
+                  <TouchableOpacity
+                    key={shelf.id}
+                    style={styles.shelfItem}
+                    onPress={() => handleToggle(shelf)}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                      size={24}
+                      color={selected ? colors.tint : colors.icon}
+                    />
+                    <ThemedText style={styles.shelfName}>{shelf.name}</ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          <View style={[styles.newShelf, { borderColor: colors.icon + '40' }]}>
+            <TextInput
+              style={[styles.newShelfInput, { color: colors.text }]}
+              value={newShelfName}
+              onChangeText={setNewShelfName}
+              placeholder="New collection"
+              placeholderTextColor={colors.icon}
+              maxLength={60}
+              returnKeyType="done"
+              onSubmitEditing={handleCreate}
+            />
+            <TouchableOpacity onPress={handleCreate} disabled={!newShelfName.trim()}>
+              <Ionicons name="add-circle" size={28} color={newShelfName.trim() ? colors.tint : colors.icon} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '75%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  shelfItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  shelfName: {
+    marginLeft: 12,
+    fontSize: 16,
+  },
+  newShelf: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    marginTop: 12,
+  },
+  newShelfInput: {
+    flex: 1,
+    height: 48,
+    fontSize: 16,
+  },
+});
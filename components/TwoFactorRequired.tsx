@@ -0,0 +1,77 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useTheme } from '@/hooks/useTheme';
+
+export type TwoFactorRequiredProps = {
+  /** What the screen opens, e.g. "the librarian console". */
+  area: string;
+};
+
+/**
+ * Shown in place of staff screens on sessions that are not aal2. Staff writes
+ * need an aal2 session, so this explains that up front rather than letting
+ * every save fail.
+ */
+export function TwoFactorRequired({ area }: TwoFactorRequiredProps) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+
+  return (
+    <ThemedView style={styles.container}>
+      <Ionicons name="shield-half" size={56} color={colors.tint} />
+      <ThemedText type="subtitle" style={styles.title}>
+        Two-factor authentication required
+      </ThemedText>
+      <ThemedText style={styles.message}>
+        Set up an authenticator app, or sign in again with it, to use {area}.
+      </ThemedText>
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.tint }]}
+        onPress={() => router.push('/account/security')}
+        activeOpacity={0.8}
+      >
+        <ThemedText style={[styles.buttonText, { color: colors.background }]}>Open Security Settings</ThemedText>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.backLink} onPress={() => router.back()}>
+        <ThemedText style={{ color: colors.tint }}>Go Back</ThemedText>
+      </TouchableOpacity>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  title: {
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  message: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginVertical: 12,
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    marginTop: 8,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  backLink: {
+    paddingVertical: 16,
+  },
+});
@@ -5,6 +5,7 @@
 
 const tintColorLight = '#0a7ea4';
 const tintColorDark = '#fff';
+const tintColorSepia = '#8B5E3C';
 
 export const Colors = {
   light: {
@@ -23,4 +24,13 @@ export const Colors = {
     tabIconDefault: '#9BA1A6',
     tabIconSelected: tintColorDark,
   },
+  // Warm paper palette, currently only offered by the book reader.
+  sepia: {
+    text: '#5B4636',
+    background: '#F4ECD8',
+    tint: tintColorSepia,
+    icon: '#8C7A66',
+    tabIconDefault: '#8C7A66',
+    tabIconSelected: tintColorSepia,
+  },
 };
@@ -0,0 +1,164 @@
+/**
+ * Frequently used and leaked passwords, plus everyday words people build
+ * passwords from. Entries are lowercase with digits and symbols stripped;
+ * see normalizePassword in lib/passwordPolicy.ts for how input is compared.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  'password',
+  'passw',
+  'pass',
+  'passwd',
+  'passcode',
+  'qwerty',
+  'qwertyuiop',
+  'qwertz',
+  'azerty',
+  'asdf',
+  'asdfgh',
+  'asdfghjkl',
+  'zxcvbn',
+  'zxcvbnm',
+  'qazwsx',
+  'abc',
+  'abcd',
+  'abcdef',
+  'abcdefg',
+  'abcdefgh',
+  'letmein',
+  'welcome',
+  'admin',
+  'administrator',
+  'root',
+  'login',
+  'user',
+  'guest',
+  'test',
+  'default',
+  'changeme',
+  'secret',
+  'master',
+  'access',
+  'iloveyou',
+  'loveyou',
+  'love',
+  'lovely',
+  'princess',
+  'prince',
+  'sunshine',
+  'shadow',
+  'monkey',
+  'dragon',
+  'football',
+  'baseball',
+  'basketball',
+  'soccer',
+  'cricket',
+  'hockey',
+  'tennis',
+  'superman',
+  'batman',
+  'spiderman',
+  'starwars',
+  'pokemon',
+  'naruto',
+  'trustno',
+  'whatever',
+  'freedom',
+  'hello',
+  'helloworld',
+  'charlie',
+  'michael',
+  'jennifer',
+  'jordan',
+  'thomas',
+  'daniel',
+  'jessica',
+  'ashley',
+  'nicole',
+  'michelle',
+  'robert',
+  'hunter',
+  'ranger',
+  'buster',
+  'tigger',
+  'ginger',
+  'pepper',
+  'cookie',
+  'cheese',
+  'chocolate',
+  'banana',
+  'orange',
+  'apple',
+  'summer',
+  'winter',
+  'spring',
+  'autumn',
+  'flower',
+  'angel',
+  'baby',
+  'babygirl',
+  'family',
+  'friends',
+  'forever',
+  'computer',
+  'internet',
+  'google',
+  'facebook',
+  'instagram',
+  'samsung',
+  'iphone',
+  'mustang',
+  'ferrari',
+  'porsche',
+  'harley',
+  'matrix',
+  'killer',
+  'hacker',
+  'zaq',
+  'zaqxsw',
+  'mypassword',
+  'yourpassword',
+  'newpassword',
+  'oldpassword',
+  'money',
+  'happy',
+  'lucky',
+  'qwe',
+  'qweasd',
+  'qweasdzxc',
+  'aaaaaa',
+  'library',
+  'librarian',
+  'book',
+  'books',
+  'ebook',
+  'reading',
+  'student',
+  'students',
+  'teacher',
+  'faculty',
+  'college',
+  'school',
+  'university',
+  'campus',
+  'bci',
+  'bcilibrary',
+  'bangladesh',
+  'dhaka',
+  'india',
+  'america',
+  'london',
+  'january',
+  'february',
+  'march',
+  'april',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+  'monday',
+  'friday',
+]);
@@ -1,13 +1,29 @@
 import { Session, User } from '@supabase/supabase-js';
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 
+import { ApprovalStatus, fetchApprovalStatus } from '@/lib/membership';
+import { AssuranceLevel, getAssuranceLevel } from '@/lib/mfa';
+import { fetchUserRole, hasPermission, Permission, Role } from '@/lib/permissions';
+import { recordSession, SignOutScope } from '@/lib/sessions';
 import { supabase } from '@/lib/supabase';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  /** Null while signed out. */
+  role: Role | null;
+  /** Null while signed out. Anything but 'approved' keeps the user on the pending screen. */
+  approvalStatus: ApprovalStatus | null;
+  /** Null while signed out. `current` is 'aal2' once the session was verified with a second factor. */
+  assuranceLevel: AssuranceLevel | null;
+  /** The account has an authenticator but this session still has to be verified with it. */
+  mfaRequired: boolean;
   loading: boolean;
-  signOut: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+  /** Signs out this device by default; 'others' and 'global' end the user's other sessions too. */
+  signOut: (scope?: SignOutScope) => Promise<void>;
+  /** Re-reads the approval status, e.g. after a librarian has reviewed the account. */
+  refreshApproval: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -15,39 +31,89 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+  const [approvalStatus, setApprovalStatus] = useState<ApprovalStatus | null>(null);
+  const [assuranceLevel, setAssuranceLevel] = useState<AssuranceLevel | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    // Ignore role lookups that finish after a newer auth event.
+    let latestRequest = 0;
+
+    const applySession = async (session: Session | null) => {
+      const request = ++latestRequest;
+      let nextRole: Role | null = null;
+      let nextApproval: ApprovalStatus | null = null;
+      let nextLevel: AssuranceLevel | null = null;
+      if (session) {
+        [nextRole, nextApproval, nextLevel] = await Promise.all([
+          fetchUserRole(session).catch((error) => {
+            // Fall back to the least privileged role; the server enforces access anyway.
+            console.error('Error loading role:', error);
+            return 'student' as const;
+          }),
+          fetchApprovalStatus(session.user.id).catch((error) => {
+            // Don't lock offline members out of their downloads; the server still hides the catalog.
+            console.error('Error loading approval status:', error);
+            return 'approved' as const;
+          }),
+          getAssuranceLevel().catch((error) => {
+            // Staff writes still require aal2 on the server.
+            console.error('Error loading assurance level:', error);
+            return null;
+          }),
+        ]);
+      }
+      if (request !== latestRequest) return;
+      if (session) {
+        recordSession(session).catch((error) => console.error('Error recording session:', error));
+      }
       setSession(session);
       setUser(session?.user ?? null);
+      setRole(nextRole);
+      setApprovalStatus(nextApproval);
+      setAssuranceLevel(nextLevel);
       setLoading(false);
-    });
+    };
+
+    supabase.auth.getSession().then(({ data: { session } }) => applySession(session));
 
     const {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      setLoading(false);
+      // Supabase warns against awaiting other calls inside this callback.
+      setTimeout(() => applySession(session), 0);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  const signOut = async () => {
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  const signOut = async (scope: SignOutScope = 'local') => {
     try {
-      await supabase.auth.signOut();
+      await supabase.auth.signOut({ scope });
     } catch (error) {
       console.error('Sign out error:', error);
     }
   };
 
+  const refreshApproval = useCallback(async () => {
+    if (!user) return;
+    setApprovalStatus(await fetchApprovalStatus(user.id));
+  }, [user]);
+
   const value = {
     user,
     session,
+    role,
+    approvalStatus,
+    assuranceLevel,
+    mfaRequired: assuranceLevel?.next === 'aal2' && assuranceLevel.current !== 'aal2',
     loading,
+    can,
     signOut,
+    refreshApproval,
   };
 
   return React.createElement(AuthContext.Provider, { value }, children);
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+
+import { DownloadIndex, getDownloads, subscribeToDownloads } from '@/lib/downloads';
+
+export const useDownloads = () => {
+  const [downloads, setDownloads] = useState<DownloadIndex>({});
+
+  useEffect(() => {
+    let mounted = true;
+    getDownloads().then((index) => {
+      if (mounted) setDownloads(index);
+    });
+    const unsubscribe = subscribeToDownloads(setDownloads);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return downloads;
+};
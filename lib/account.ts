@@ -0,0 +1,134 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import JSZip from 'jszip';
+import { Platform } from 'react-native';
+
+import { getDeviceId } from '@/lib/deviceId';
+import { RateLimitError } from '@/lib/rateLimitUtils';
+import { supabase } from '@/lib/supabase';
+
+// Must match GRACE_DAYS in supabase/functions/delete-account.
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+const PROFILES_TABLE = 'profiles';
+
+export interface DataExport {
+  exported_at: string;
+  account: { id: string; email: string | null; created_at: string | null };
+  profile: Record<string, unknown> | null;
+  reading_history: Record<string, unknown>[];
+  shelves: Record<string, unknown>[];
+  annotations: Record<string, unknown>[];
+  loans: Record<string, unknown>[];
+  holds: Record<string, unknown>[];
+  reading_lists: Record<string, unknown>[];
+  followed_reading_lists: Record<string, unknown>[];
+  devices: Record<string, unknown>[];
+}
+
+const BOOK_SUMMARY = 'book:books(title, authors)';
+
+// Every query is limited to the user's own rows by RLS as well.
+const selectOwn = async (table: string, columns: string, userColumn: string, userId: string) => {
+  const { data, error } = await supabase.from(table).select(columns).eq(userColumn, userId);
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as unknown as Record<string, unknown>[];
+};
+
+/** Collects everything the library stores about the signed-in user. */
+export const buildDataExport = async (userId: string): Promise<DataExport> => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const [profiles, readingHistory, shelves, annotations, loans, holds, readingLists, followedLists, devices] = await Promise.all([
+    selectOwn(PROFILES_TABLE, '*', 'id', userId),
+    selectOwn('reading_progress', `book_id, page, total_pages, progress, updated_at, ${BOOK_SUMMARY}`, 'user_id', userId),
+    selectOwn('shelves', `id, name, kind, created_at, books:shelf_books(added_at, ${BOOK_SUMMARY})`, 'user_id', userId),
+    selectOwn('annotations', `id, book_id, kind, page, cfi, quote, note, created_at, updated_at, ${BOOK_SUMMARY}`, 'user_id', userId),
+    selectOwn('loans', `book_id, borrowed_at, due_at, returned_at, renewals, status, ${BOOK_SUMMARY}`, 'user_id', userId),
+    selectOwn('holds', `book_id, status, created_at, ready_at, pickup_expires_at, ${BOOK_SUMMARY}`, 'user_id', userId),
+    selectOwn(
+      'reading_lists',
+      `title, course_code, semester, description, created_at, updated_at, items:reading_list_items(position, note, on_reserve, ${BOOK_SUMMARY})`,
+      'owner_id',
+      userId
+    ),
+    selectOwn('reading_list_follows', 'followed_at, list:reading_lists(title, course_code, semester)', 'user_id', userId),
+    selectOwn('user_sessions', 'platform, device_name, app_version, created_at, last_seen_at', 'user_id', userId),
+  ]);
+
+  return {
+    exported_at: new Date().toISOString(),
+    account: { id: userId, email: user?.email ?? null, created_at: user?.created_at ?? null },
+    profile: profiles[0] ?? null,
+    reading_history: readingHistory,
+    shelves,
+    annotations,
+    loans,
+    holds,
+    reading_lists: readingLists,
+    followed_reading_lists: followedLists,
+    devices,
+  };
+};
+
+/**
+ * Saves the export as a ZIP with one JSON file per section and opens the share
+ * sheet, or downloads it on the web.
+ */
+export const shareDataExport = async (data: DataExport): Promise<void> => {
+  const { exported_at, account, ...sections } = data;
+  const zip = new JSZip();
+  zip.file('account.json', JSON.stringify({ exported_at, account }, null, 2));
+  for (const [name, rows] of Object.entries(sections)) {
+    zip.file(`${name}.json`, JSON.stringify(rows, null, 2));
+  }
+  const filename = `bci-library-data-${exported_at.slice(0, 10)}.zip`;
+
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(await zip.generateAsync({ type: 'blob' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${filename}`;
+  await FileSystem.writeAsStringAsync(fileUri, await zip.generateAsync({ type: 'base64' }), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  await Sharing.shareAsync(fileUri, { mimeType: 'application/zip', dialogTitle: 'Your library data' });
+};
+
+/** How the user proves it's them: their password, or a sign-in code from `sendSignInCode` for accounts without one. */
+export type DeletionConfirmation = { password: string } | { code: string };
+
+/** Confirms the password or code on the server and schedules the deletion; returns its date. */
+export const scheduleAccountDeletion = async (confirmation: DeletionConfirmation): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke('delete-account', {
+    body: { ...confirmation, device_id: await getDeviceId() },
+  });
+  if (error) {
+    // FunctionsHttpError keeps the response so the server's message can be shown.
+    const body = await error.context?.json?.().catch(() => null);
+    if (typeof body?.wait_seconds === 'number') {
+      throw new RateLimitError(body.wait_seconds);
+    }
+    throw new Error(body?.error ?? error.message);
+  }
+  return data.scheduled_for;
+};
+
+export const cancelAccountDeletion = async (userId: string): Promise<void> => {
+  const { error } = await supabase.from(PROFILES_TABLE).update({ deletion_scheduled_for: null }).eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,85 @@
+import { ApprovalStatus } from '@/lib/membership';
+import { Role } from '@/lib/permissions';
+import { supabase } from '@/lib/supabase';
+
+export interface AdminUser {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  role: Role;
+  approval_status: ApprovalStatus | null;
+  email_confirmed_at: string | null;
+  banned_until: string | null;
+  last_sign_in_at: string | null;
+  created_at: string;
+}
+
+export type AdminAction = 'resend_confirmation' | 'confirm_email' | 'ban' | 'unban' | 'set_role' | 'reset_rate_limits';
+
+export interface AuditLogEntry {
+  id: number;
+  actor_id: string | null;
+  target_user_id: string | null;
+  target_email: string | null;
+  action: AdminAction;
+  /** Holds `error` when the action was attempted but failed. */
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export const ADMIN_ACTION_LABELS: Record<AdminAction, string> = {
+  resend_confirmation: 'Resent confirmation',
+  confirm_email: 'Confirmed email',
+  ban: 'Banned',
+  unban: 'Unbanned',
+  set_role: 'Changed role',
+  reset_rate_limits: 'Reset rate limits',
+};
+
+const AUDIT_LOG_TABLE = 'admin_audit_log';
+const AUDIT_LOG_LIMIT = 50;
+
+const invokeAdminUsers = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('admin-users', { body });
+  if (error) {
+    // FunctionsHttpError keeps the response so the server's message can be shown.
+    const response = await error.context?.json?.().catch(() => null);
+    throw new Error(response?.error ?? error.message);
+  }
+  return data as T;
+};
+
+export const isBanned = (user: AdminUser): boolean => {
+  return !!user.banned_until && new Date(user.banned_until).getTime() > Date.now();
+};
+
+/** Matches email, name or member ID; an empty query lists the newest accounts. */
+export const searchUsers = async (query: string): Promise<AdminUser[]> => {
+  const { users } = await invokeAdminUsers<{ users: AdminUser[] }>({ action: 'search', query });
+  return users;
+};
+
+/** Runs an action against one account and returns its updated state. */
+export const runAdminAction = async (userId: string, action: AdminAction, role?: Role): Promise<AdminUser> => {
+  const { user } = await invokeAdminUsers<{ user: AdminUser }>({ action, userId, role });
+  return user;
+};
+
+export const fetchAuditLog = async (targetUserId?: string): Promise<AuditLogEntry[]> => {
+  let query = supabase
+    .from(AUDIT_LOG_TABLE)
+    .select('id, actor_id, target_user_id, target_email, action, details, created_at')
+    .order('created_at', { ascending: false })
+    .limit(AUDIT_LOG_LIMIT);
+
+  if (targetUserId) {
+    query = query.eq('target_user_id', targetUserId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as AuditLogEntry[];
+};
@@ -0,0 +1,212 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+
+import { Book, formatAuthors } from '@/lib/books';
+import { supabase } from '@/lib/supabase';
+
+export type AnnotationKind = 'bookmark' | 'highlight' | 'note';
+
+export interface Annotation {
+  id: string;
+  book_id: string;
+  kind: AnnotationKind;
+  page: number | null;
+  /** EPUB location (a CFI range for highlights); null for PDFs. */
+  cfi: string | null;
+  /** Highlighted passage. */
+  quote: string | null;
+  note: string | null;
+  color: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export type AnnotationInput = Pick<Annotation, 'book_id' | 'kind'> &
+  Partial<Pick<Annotation, 'id' | 'page' | 'cfi' | 'quote' | 'note' | 'color'>>;
+
+type AnnotationMap = Record<string, Annotation>;
+
+export const HIGHLIGHT_COLOR = '#FFD54F';
+
+const ANNOTATIONS_KEY = 'annotations';
+const ANNOTATIONS_QUEUE_KEY = 'annotations_queue';
+const ANNOTATIONS_TABLE = 'annotations';
+const ANNOTATION_COLUMNS = 'id, book_id, kind, page, cfi, quote, note, color, created_at, updated_at, deleted_at';
+
+const annotationsKey = (userId: string) => `${ANNOTATIONS_KEY}_${userId}`;
+const queueKey = (userId: string) => `${ANNOTATIONS_QUEUE_KEY}_${userId}`;
+
+const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const data = await AsyncStorage.getItem(key);
+    return data ? JSON.parse(data) : fallback;
+  } catch (error) {
+    console.error('Error reading annotations storage:', error);
+    return fallback;
+  }
+};
+
+const writeJson = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error('Error writing annotations storage:', error);
+  }
+};
+
+const sortAnnotations = (annotations: Annotation[]): Annotation[] => {
+  return annotations.sort(
+    (a, b) => (a.page ?? 0) - (b.page ?? 0) || a.created_at.localeCompare(b.created_at)
+  );
+};
+
+/**
+ * Returns the annotations stored on this device, optionally for one book.
+ */
+export const getAnnotations = async (userId: string, bookId?: string): Promise<Annotation[]> => {
+  const map = await readJson<AnnotationMap>(annotationsKey(userId), {});
+  return sortAnnotations(
+    Object.values(map).filter((annotation) => !annotation.deleted_at && (!bookId || annotation.book_id === bookId))
+  );
+};
+
+const storeLocally = async (userId: string, annotation: Annotation): Promise<void> => {
+  const map = await readJson<AnnotationMap>(annotationsKey(userId), {});
+  map[annotation.id] = annotation;
+  await writeJson(annotationsKey(userId), map);
+
+  const queue = await readJson<string[]>(queueKey(userId), []);
+  if (!queue.includes(annotation.id)) {
+    await writeJson(queueKey(userId), [...queue, annotation.id]);
+  }
+};
+
+/**
+ * Pushes edits made while offline. Edits stay queued until the server accepts them.
+ */
+export const flushAnnotationQueue = async (userId: string): Promise<void> => {
+  const queue = await readJson<string[]>(queueKey(userId), []);
+  if (queue.length === 0) return;
+
+  const map = await readJson<AnnotationMap>(annotationsKey(userId), {});
+  const pending = queue.map((id) => map[id]).filter(Boolean);
+
+  const { error } = await supabase
+    .from(ANNOTATIONS_TABLE)
+    .upsert(pending.map((annotation) => ({ ...annotation, user_id: userId })));
+
+  if (error) {
+    console.error('Error syncing annotations:', error);
+    return;
+  }
+
+  // Keep anything queued or edited again while the request was in flight.
+  const sent = new Map(pending.map((annotation) => [annotation.id, annotation.updated_at]));
+  const latestMap = await readJson<AnnotationMap>(annotationsKey(userId), {});
+  const latestQueue = await readJson<string[]>(queueKey(userId), []);
+  await writeJson(
+    queueKey(userId),
+    latestQueue.filter((id) => sent.get(id) !== latestMap[id]?.updated_at)
+  );
+};
+
+/**
+ * Flushes local edits, then merges the server copy in, keeping whichever
+ * version of each annotation was edited last.
+ */
+export const syncAnnotations = async (userId: string): Promise<void> => {
+  await flushAnnotationQueue(userId);
+
+  const { data, error } = await supabase.from(ANNOTATIONS_TABLE).select(ANNOTATION_COLUMNS).eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching annotations:', error);
+    return;
+  }
+
+  const map = await readJson<AnnotationMap>(annotationsKey(userId), {});
+  for (const remote of (data ?? []) as Annotation[]) {
+    const local = map[remote.id];
+    if (!local || new Date(remote.updated_at).getTime() > new Date(local.updated_at).getTime()) {
+      map[remote.id] = remote;
+    }
+  }
+  await writeJson(annotationsKey(userId), map);
+};
+
+export const saveAnnotation = async (userId: string, input: AnnotationInput): Promise<Annotation> => {
+  const map = await readJson<AnnotationMap>(annotationsKey(userId), {});
+  const existing = input.id ? map[input.id] : undefined;
+  const now = new Date().toISOString();
+
+  const annotation: Annotation = {
+    page: null,
+    cfi: null,
+    quote: null,
+    note: null,
+    color: null,
+    ...existing,
+    ...input,
+    id: existing?.id ?? input.id ?? Crypto.randomUUID(),
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+    deleted_at: null,
+  };
+
+  await storeLocally(userId, annotation);
+  await flushAnnotationQueue(userId);
+  return annotation;
+};
+
+export const deleteAnnotation = async (userId: string, annotationId: string): Promise<void> => {
+  const map = await readJson<AnnotationMap>(annotationsKey(userId), {});
+  const existing = map[annotationId];
+  if (!existing) return;
+
+  const now = new Date().toISOString();
+  await storeLocally(userId, { ...existing, updated_at: now, deleted_at: now });
+  await flushAnnotationQueue(userId);
+};
+
+const describeLocation = (annotation: Annotation): string => {
+  return annotation.page ? `Page ${annotation.page}` : 'Location';
+};
+
+export const formatAnnotationsAsMarkdown = (book: Book, annotations: Annotation[]): string => {
+  const lines = [`# ${book.title}`, `_${formatAuthors(book.authors)}_`, ''];
+
+  for (const annotation of annotations) {
+    const heading = `## ${describeLocation(annotation)} — ${annotation.kind}`;
+    lines.push(heading);
+    if (annotation.quote) {
+      lines.push(...annotation.quote.split('\n').map((line) => `> ${line}`));
+    }
+    if (annotation.note) {
+      lines.push('', annotation.note);
+    }
+    lines.push('');
+  }
+  return lines.join('\n').trim() + '\n';
+};
+
+export const formatAnnotationsAsJson = (book: Book, annotations: Annotation[]): string => {
+  return JSON.stringify(
+    {
+      book: { id: book.id, title: book.title, authors: book.authors, isbn: book.isbn },
+      exported_at: new Date().toISOString(),
+      annotations: annotations.map(({ id, kind, page, cfi, quote, note, created_at, updated_at }) => ({
+        id,
+        kind,
+        page,
+        cfi,
+        quote,
+        note,
+        created_at,
+        updated_at,
+      })),
+    },
+    null,
+    2
+  );
+};
@@ -0,0 +1,67 @@
+import { getDeviceId } from '@/lib/deviceId';
+import { getAuthRedirectUrl } from '@/lib/oauth';
+import { RateLimitError } from '@/lib/rateLimitUtils';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Signed-out auth calls go through the auth-gateway edge function, which
+ * counts each attempt against the rate limits before making the call.
+ */
+
+/** Which code to send again, named after the flow that sent the first one. */
+export type ResendType = 'signup' | 'email_change' | 'login' | 'recovery';
+
+export interface SignUpDetails {
+  fullName: string;
+  memberId?: string;
+}
+
+const invokeGateway = async <T = { ok: true }>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('auth-gateway', {
+    body: { ...body, device_id: await getDeviceId() },
+  });
+  if (error) {
+    // FunctionsHttpError keeps the response so the server's message can be shown.
+    const response = await error.context?.json?.().catch(() => null);
+    if (typeof response?.wait_seconds === 'number') {
+      throw new RateLimitError(response.wait_seconds);
+    }
+    throw new Error(response?.error ?? error.message);
+  }
+  return data as T;
+};
+
+export const signInWithPassword = async (email: string, password: string): Promise<void> => {
+  const { session } = await invokeGateway<{ session: { access_token: string; refresh_token: string } }>({
+    action: 'login',
+    email,
+    password,
+  });
+  const { error } = await supabase.auth.setSession(session);
+  if (error) {
+    throw error;
+  }
+};
+
+/** Emails a sign-in code and magic link to an existing account. */
+export const sendSignInCode = async (email: string): Promise<void> => {
+  await invokeGateway({ action: 'email_code', email, redirect_to: getAuthRedirectUrl() });
+};
+
+export const signUp = async (email: string, password: string, details: SignUpDetails): Promise<void> => {
+  await invokeGateway({
+    action: 'register',
+    email,
+    password,
+    full_name: details.fullName,
+    member_id: details.memberId,
+  });
+};
+
+export const resendCode = async (type: ResendType, email: string): Promise<void> => {
+  await invokeGateway({ action: 'resend', resend_type: type, email, redirect_to: getAuthRedirectUrl() });
+};
+
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  await invokeGateway({ action: 'password_reset', email });
+};
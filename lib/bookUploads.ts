@@ -0,0 +1,144 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+
+import { BookFileFormat, COVERS_BUCKET, FILES_BUCKET } from '@/lib/books';
+import { uploadFile } from '@/lib/storageUpload';
+
+/** A file chosen with the document picker but not uploaded yet. */
+export interface PickedFile {
+  uri: string;
+  name: string;
+  size: number | null;
+  mimeType: string | null;
+}
+
+export const MAX_BOOK_FILE_BYTES = 200 * 1024 * 1024;
+export const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+export const BOOK_FILE_MIME_TYPES: Record<BookFileFormat, string> = {
+  pdf: 'application/pdf',
+  epub: 'application/epub+zip',
+};
+
+const COVER_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+// Reading the whole file is needed to count pages; skip files too large to do
+// that comfortably on a phone and let the librarian enter the count instead.
+const MAX_PAGE_COUNT_SCAN_BYTES = 50 * 1024 * 1024;
+
+const getExtension = (name: string): string => {
+  const match = /\.([a-z0-9]+)$/i.exec(name);
+  return match ? match[1].toLowerCase() : '';
+};
+
+export const getBookFileFormat = (file: PickedFile): BookFileFormat | null => {
+  const extension = getExtension(file.name);
+  if (extension === 'pdf' || file.mimeType === BOOK_FILE_MIME_TYPES.pdf) return 'pdf';
+  if (extension === 'epub' || file.mimeType === BOOK_FILE_MIME_TYPES.epub) return 'epub';
+  return null;
+};
+
+/**
+ * Returns a message describing why the file cannot be used as a book file, or
+ * null when it is acceptable.
+ */
+export const validateBookFile = (file: PickedFile): string | null => {
+  if (!getBookFileFormat(file)) {
+    return 'Book files must be PDF or EPUB.';
+  }
+  if (file.size !== null && file.size > MAX_BOOK_FILE_BYTES) {
+    return 'Book files must be smaller than 200 MB.';
+  }
+  if (file.size === 0) {
+    return 'This file is empty.';
+  }
+  return null;
+};
+
+export const validateCoverFile = (file: PickedFile): string | null => {
+  if (!COVER_MIME_TYPES[getExtension(file.name)]) {
+    return 'Covers must be JPEG, PNG or WebP images.';
+  }
+  if (file.size !== null && file.size > MAX_COVER_BYTES) {
+    return 'Covers must be smaller than 5 MB.';
+  }
+  return null;
+};
+
+const readAsBinaryString = async (uri: string): Promise<string> => {
+  if (Platform.OS === 'web') {
+    const bytes = new Uint8Array(await (await fetch(uri)).arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return binary;
+  }
+  return atob(await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }));
+};
+
+/**
+ * Reads the page count from a PDF's page tree. Returns null when it cannot be
+ * found, e.g. when the tree is inside a compressed object stream.
+ */
+export const extractPdfPageCount = async (file: PickedFile): Promise<number | null> => {
+  if (file.size !== null && file.size > MAX_PAGE_COUNT_SCAN_BYTES) {
+    return null;
+  }
+
+  try {
+    const content = await readAsBinaryString(file.uri);
+    // The root /Pages node has the largest /Count; nested nodes count subtrees.
+    const counts = [...content.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)/g)].map((match) =>
+      Number(match[1])
+    );
+    if (counts.length > 0) {
+      return Math.max(...counts);
+    }
+    const pages = content.match(/\/Type\s*\/Page\b/g);
+    return pages ? pages.length : null;
+  } catch (error) {
+    console.error('Error reading PDF page count:', error);
+    return null;
+  }
+};
+
+export const uploadBookFile = async (
+  bookId: string,
+  file: PickedFile,
+  onProgress: (fraction: number) => void
+): Promise<string> => {
+  const format = getBookFileFormat(file) as BookFileFormat;
+  // A new name per upload keeps signed URLs and offline copies of the old file valid.
+  const path = `${bookId}/${Date.now()}.${format}`;
+  await uploadFile({
+    bucket: FILES_BUCKET,
+    path,
+    fileUri: file.uri,
+    contentType: BOOK_FILE_MIME_TYPES[format],
+    onProgress,
+  });
+  return path;
+};
+
+export const uploadCover = async (
+  bookId: string,
+  file: PickedFile,
+  onProgress: (fraction: number) => void
+): Promise<string> => {
+  const extension = getExtension(file.name);
+  const path = `${bookId}/${Date.now()}.${extension}`;
+  await uploadFile({
+    bucket: COVERS_BUCKET,
+    path,
+    fileUri: file.uri,
+    contentType: COVER_MIME_TYPES[extension],
+    onProgress,
+  });
+  return path;
+};
@@ -0,0 +1,257 @@
+import { supabase } from '@/lib/supabase';
+
+export type BookFileFormat = 'pdf' | 'epub';
+
+/** Faculty titles are course material hidden from students by the database policies. */
+export type BookVisibility = 'public' | 'faculty';
+
+/** Drafts are only visible to librarians until they are published. */
+export type BookStatus = 'draft' | 'published';
+
+export interface Book {
+  id: string;
+  title: string;
+  subtitle: string | null;
+  authors: string[];
+  subjects: string[];
+  course_codes: string[];
+  language: string | null;
+  published_year: number | null;
+  edition: string | null;
+  isbn: string | null;
+  page_count: number | null;
+  description: string | null;
+  cover_path: string | null;
+  file_path: string | null;
+  file_format: BookFileFormat | null;
+  file_size: number | null;
+  /** Copies that may be on loan at once; null lends without limit. */
+  license_count: number | null;
+  visibility: BookVisibility;
+  status: BookStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BookSearchFilters {
+  author?: string;
+  subject?: string;
+  courseCode?: string;
+  language?: string;
+  yearFrom?: number;
+  yearTo?: number;
+}
+
+export const BOOKS_PAGE_SIZE = 20;
+export const BOOK_COLUMNS =
+  'id, title, subtitle, authors, subjects, course_codes, language, published_year, edition, isbn, page_count, description, cover_path, file_path, file_format, file_size, license_count, visibility, status, created_at, updated_at';
+
+const BOOKS_TABLE = 'books';
+export const COVERS_BUCKET = 'book-covers';
+export const FILES_BUCKET = 'book-files';
+const FILE_URL_TTL_SECONDS = 60 * 60;
+
+export const fetchBooks = async (page = 0, pageSize = BOOKS_PAGE_SIZE): Promise<Book[]> => {
+  const from = page * pageSize;
+  const { data, error } = await supabase
+    .from(BOOKS_TABLE)
+    .select(BOOK_COLUMNS)
+    .eq('status', 'published')
+    .order('title', { ascending: true })
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Book[];
+};
+
+export const fetchBook = async (id: string): Promise<Book | null> => {
+  const { data, error } = await supabase.from(BOOKS_TABLE).select(BOOK_COLUMNS).eq('id', id).maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data as Book | null;
+};
+
+export const fetchBooksByAuthor = async (author: string, excludeId?: string, limit = 10): Promise<Book[]> => {
+  let request = supabase
+    .from(BOOKS_TABLE)
+    .select(BOOK_COLUMNS)
+    .eq('status', 'published')
+    .contains('authors', [author]);
+  if (excludeId) {
+    request = request.neq('id', excludeId);
+  }
+
+  const { data, error } = await request.order('published_year', { ascending: false }).limit(limit);
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Book[];
+};
+
+export const fetchBooksBySubject = async (subject: string, excludeId?: string, limit = 10): Promise<Book[]> => {
+  let request = supabase
+    .from(BOOKS_TABLE)
+    .select(BOOK_COLUMNS)
+    .eq('status', 'published')
+    .contains('subjects', [subject]);
+  if (excludeId) {
+    request = request.neq('id', excludeId);
+  }
+
+  const { data, error } = await request.order('title', { ascending: true }).limit(limit);
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Book[];
+};
+
+export const fetchBooksByIds = async (ids: string[]): Promise<Book[]> => {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from(BOOKS_TABLE)
+    .select(BOOK_COLUMNS)
+    .in('id', ids)
+    .order('title', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Book[];
+};
+
+/**
+ * Lists every title, drafts included, for the librarian console. Only staff
+ * can see drafts, so other users get the published catalog.
+ */
+export const fetchCatalogForStaff = async (status?: BookStatus): Promise<Book[]> => {
+  let request = supabase.from(BOOKS_TABLE).select(BOOK_COLUMNS);
+  if (status) {
+    request = request.eq('status', status);
+  }
+
+  const { data, error } = await request.order('updated_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Book[];
+};
+
+export type BookInput = Omit<Book, 'id' | 'created_at' | 'updated_at'>;
+
+export const saveBook = async (id: string, input: BookInput): Promise<Book> => {
+  const { data, error } = await supabase
+    .from(BOOKS_TABLE)
+    .upsert({ id, ...input })
+    .select(BOOK_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return data as Book;
+};
+
+export const hasActiveFilters = (filters: BookSearchFilters): boolean => {
+  return Object.values(filters).some((value) => value !== undefined && value !== '');
+};
+
+export const searchBooks = async (
+  query: string,
+  filters: BookSearchFilters = {},
+  page = 0,
+  pageSize = BOOKS_PAGE_SIZE
+): Promise<Book[]> => {
+  const from = page * pageSize;
+  let request = supabase.from(BOOKS_TABLE).select(BOOK_COLUMNS).eq('status', 'published');
+
+  const trimmedQuery = query.trim();
+  if (trimmedQuery) {
+    // Course codes are indexed as CSE301, CSE 301 and CSE-301, so any of them matches.
+    request = request.textSearch('search_vector', trimmedQuery, { type: 'websearch', config: 'simple' });
+  }
+  if (filters.author?.trim()) {
+    request = request.ilike('authors_text', `%${filters.author.trim()}%`);
+  }
+  if (filters.subject?.trim()) {
+    request = request.contains('subjects', [filters.subject.trim()]);
+  }
+  if (filters.courseCode?.trim()) {
+    // Course codes are stored upper-case without spaces, e.g. "CSE301".
+    request = request.contains('course_codes', [normalizeCourseCode(filters.courseCode)]);
+  }
+  if (filters.language?.trim()) {
+    request = request.ilike('language', filters.language.trim());
+  }
+  if (filters.yearFrom) {
+    request = request.gte('published_year', filters.yearFrom);
+  }
+  if (filters.yearTo) {
+    request = request.lte('published_year', filters.yearTo);
+  }
+
+  const { data, error } = await request
+    .order('title', { ascending: true })
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Book[];
+};
+
+export const normalizeCourseCode = (courseCode: string): string => {
+  return courseCode.replace(/[\s-]/g, '').toUpperCase();
+};
+
+export const getBookCoverUrl = (book: Pick<Book, 'cover_path'>): string | null => {
+  if (!book.cover_path) {
+    return null;
+  }
+  return supabase.storage.from(COVERS_BUCKET).getPublicUrl(book.cover_path).data.publicUrl;
+};
+
+export const getBookFileUrl = async (book: Pick<Book, 'file_path'>): Promise<string> => {
+  if (!book.file_path) {
+    throw new Error('This book has no digital file.');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(FILES_BUCKET)
+    .createSignedUrl(book.file_path, FILE_URL_TTL_SECONDS);
+
+  if (error) {
+    throw error;
+  }
+  return data.signedUrl;
+};
+
+export const formatAuthors = (authors: string[]): string => {
+  if (authors.length === 0) {
+    return 'Unknown author';
+  }
+  return authors.join(', ');
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unitIndex = 0;
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+  return `${size.toFixed(size < 10 ? 1 : 0)} ${units[unitIndex]}`;
+};
@@ -0,0 +1,45 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Application from 'expo-application';
+import * as Crypto from 'expo-crypto';
+import { Platform } from 'react-native';
+
+const DEVICE_ID_KEY = 'device_id';
+
+let cachedId: string | null = null;
+
+const getStoredId = async (): Promise<string> => {
+  try {
+    const stored = await AsyncStorage.getItem(DEVICE_ID_KEY);
+    if (stored) return stored;
+
+    const id = Crypto.randomUUID();
+    await AsyncStorage.setItem(DEVICE_ID_KEY, id);
+    return id;
+  } catch (error) {
+    console.error('Error loading device id:', error);
+    return Crypto.randomUUID();
+  }
+};
+
+/**
+ * Identifies this install for server-side checks. Native builds use the
+ * platform's install id, which survives clearing app storage; the web falls
+ * back to a random id kept in storage.
+ */
+export const getDeviceId = async (): Promise<string> => {
+  if (cachedId) return cachedId;
+
+  let id: string | null = null;
+  try {
+    if (Platform.OS === 'android') {
+      id = Application.getAndroidId();
+    } else if (Platform.OS === 'ios') {
+      id = await Application.getIosIdForVendorAsync();
+    }
+  } catch (error) {
+    console.error('Error reading install id:', error);
+  }
+
+  cachedId = id ? `${Platform.OS}:${id}` : await getStoredId();
+  return cachedId;
+};
@@ -0,0 +1,393 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { AppState } from 'react-native';
+
+import { Book, BookFileFormat, getBookFileUrl } from '@/lib/books';
+
+export type DownloadStatus = 'downloading' | 'paused' | 'completed' | 'failed';
+
+export interface DownloadRecord {
+  bookId: string;
+  title: string;
+  format: BookFileFormat;
+  filePath: string;
+  fileUri: string;
+  totalBytes: number;
+  bytesWritten: number;
+  status: DownloadStatus;
+  /** Saved `DownloadResumable.savable()` data used to pick up an interrupted download. */
+  resumeData?: string;
+  completedAt?: number;
+  /** Last time the book was opened; the least recently read books are evicted first. */
+  lastReadAt: number;
+  /**
+   * When the loan ends; the copy is deleted then, even if the device is offline.
+   * Staff read without a loan, so their copies have none.
+   */
+  expiresAt?: number;
+}
+
+export type DownloadIndex = Record<string, DownloadRecord>;
+
+export const STORAGE_CAP_OPTIONS = [250, 500, 1024, 2048, 5120].map((mb) => mb * 1024 * 1024);
+export const DEFAULT_STORAGE_CAP = 1024 * 1024 * 1024;
+
+const DOWNLOADS_INDEX_KEY = 'downloads_index';
+const STORAGE_CAP_KEY = 'downloads_storage_cap';
+const DOWNLOADS_DIRECTORY = `${FileSystem.documentDirectory}books/`;
+// Persist resume data every few percent so a killed app loses little progress.
+const PERSIST_EVERY_FRACTION = 0.05;
+const TOO_LARGE_MESSAGE =
+  'This book is larger than your download storage limit. You can raise the limit in Settings.';
+
+// Each account on the device has its own index and folder, so one account's
+// loans never decide what happens to another account's copies.
+let accountId: string | null = null;
+let downloadIndex: DownloadIndex | null = null;
+let listeners: ((index: DownloadIndex) => void)[] = [];
+const activeDownloads = new Map<string, FileSystem.DownloadResumable>();
+
+const notifyListeners = (index: DownloadIndex) => {
+  listeners.forEach((listener) => listener(index));
+};
+
+export const subscribeToDownloads = (listener: (index: DownloadIndex) => void): (() => void) => {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter((l) => l !== listener);
+  };
+};
+
+/** The signed-in account's downloads; empty while signed out. */
+export const getDownloads = async (): Promise<DownloadIndex> => {
+  if (downloadIndex) {
+    return downloadIndex;
+  }
+  if (!accountId) {
+    return {};
+  }
+  try {
+    const data = await AsyncStorage.getItem(`${DOWNLOADS_INDEX_KEY}:${accountId}`);
+    downloadIndex = data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error('Error getting downloads index:', error);
+    downloadIndex = {};
+  }
+  return downloadIndex as DownloadIndex;
+};
+
+const persistIndex = async (): Promise<void> => {
+  if (!accountId) return;
+  try {
+    await AsyncStorage.setItem(`${DOWNLOADS_INDEX_KEY}:${accountId}`, JSON.stringify(downloadIndex ?? {}));
+  } catch (error) {
+    console.error('Error storing downloads index:', error);
+  }
+};
+
+const updateRecord = async (
+  bookId: string,
+  changes: Partial<DownloadRecord> | null,
+  persist = true
+): Promise<void> => {
+  const index = { ...(await getDownloads()) };
+  if (changes === null) {
+    delete index[bookId];
+  } else if (index[bookId]) {
+    index[bookId] = { ...index[bookId], ...changes };
+  }
+  downloadIndex = index;
+  notifyListeners(index);
+  if (persist) {
+    await persistIndex();
+  }
+};
+
+export const getStorageCap = async (): Promise<number> => {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_CAP_KEY);
+    return data ? Number(data) : DEFAULT_STORAGE_CAP;
+  } catch (error) {
+    console.error('Error getting storage cap:', error);
+    return DEFAULT_STORAGE_CAP;
+  }
+};
+
+export const setStorageCap = async (bytes: number): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_CAP_KEY, String(bytes));
+  } catch (error) {
+    console.error('Error storing storage cap:', error);
+  }
+  await enforceStorageCap();
+};
+
+export const getUsedStorage = (index: DownloadIndex): number => {
+  return Object.values(index).reduce(
+    (total, record) => total + (record.status === 'completed' ? record.totalBytes : record.bytesWritten),
+    0
+  );
+};
+
+/**
+ * Deletes completed downloads, least recently read first, until `requiredBytes`
+ * more fit under the cap. Returns false if that is impossible.
+ */
+const makeRoom = async (requiredBytes: number, keepBookId?: string): Promise<boolean> => {
+  const cap = await getStorageCap();
+  const index = await getDownloads();
+  let used = getUsedStorage(index);
+
+  const candidates = Object.values(index)
+    .filter((record) => record.status === 'completed' && record.bookId !== keepBookId)
+    .sort((a, b) => a.lastReadAt - b.lastReadAt);
+
+  for (const record of candidates) {
+    if (used + requiredBytes <= cap) break;
+    await deleteDownload(record.bookId);
+    used -= record.totalBytes;
+  }
+  return used + requiredBytes <= cap;
+};
+
+export const enforceStorageCap = async (): Promise<void> => {
+  await makeRoom(0);
+};
+
+const startTask = async (bookId: string, remoteUrl: string, resumeData?: string): Promise<void> => {
+  const record = (await getDownloads())[bookId];
+  if (!record) return;
+  let lastPersistedFraction = record.totalBytes ? record.bytesWritten / record.totalBytes : 0;
+
+  const resumable = FileSystem.createDownloadResumable(
+    remoteUrl,
+    record.fileUri,
+    {},
+    ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+      const totalBytes = totalBytesExpectedToWrite > 0 ? totalBytesExpectedToWrite : record.totalBytes;
+      const fraction = totalBytes ? totalBytesWritten / totalBytes : 0;
+      const persist = fraction - lastPersistedFraction >= PERSIST_EVERY_FRACTION;
+      if (persist) {
+        lastPersistedFraction = fraction;
+      }
+      const changes: Partial<DownloadRecord> = { bytesWritten: totalBytesWritten, totalBytes };
+      if (persist) {
+        changes.resumeData = resumable.savable().resumeData;
+      }
+      updateRecord(bookId, changes, persist);
+    },
+    resumeData
+  );
+  activeDownloads.set(bookId, resumable);
+  await updateRecord(bookId, { status: 'downloading' });
+
+  let completed = false;
+  try {
+    const result = resumeData ? await resumable.resumeAsync() : await resumable.downloadAsync();
+    // Pausing resolves the task with no result.
+    if (!result) return;
+    if (result.status < 200 || result.status >= 300) {
+      throw new Error(`Download failed with status ${result.status}`);
+    }
+    const info = await FileSystem.getInfoAsync(result.uri);
+    const size = info.exists ? info.size : record.totalBytes;
+    await updateRecord(bookId, {
+      status: 'completed',
+      resumeData: undefined,
+      completedAt: Date.now(),
+      totalBytes: size,
+      bytesWritten: size,
+    });
+    completed = true;
+  } catch (error) {
+    // A download removed with deleteDownload is cancelled on purpose.
+    if (!activeDownloads.has(bookId)) return;
+    console.error('Download error:', error);
+    // Keep the partial file so the download can resume where it stopped.
+    await updateRecord(bookId, { status: 'failed', resumeData: resumable.savable().resumeData });
+  } finally {
+    activeDownloads.delete(bookId);
+  }
+
+  // Books with no recorded size pass the check in downloadBook, so repeat it with the real size.
+  if (completed && !(await makeRoom(0, bookId))) {
+    await deleteDownload(bookId);
+    throw new Error(TOO_LARGE_MESSAGE);
+  }
+};
+
+export const downloadBook = async (book: Book, expiresAt?: number): Promise<void> => {
+  if (!book.file_path || !book.file_format) {
+    throw new Error('This book has no downloadable file.');
+  }
+  if (!accountId) {
+    throw new Error('Sign in to download books.');
+  }
+  const existing = (await getDownloads())[book.id];
+  if (existing?.status === 'paused' || existing?.status === 'failed') {
+    return resumeDownload(book.id);
+  }
+  if (existing) {
+    return;
+  }
+
+  const size = book.file_size ?? 0;
+  if (!(await makeRoom(size, book.id))) {
+    throw new Error(TOO_LARGE_MESSAGE);
+  }
+
+  const directory = `${DOWNLOADS_DIRECTORY}${accountId}/`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true }).catch(() => undefined);
+  const remoteUrl = await getBookFileUrl(book);
+
+  downloadIndex = {
+    ...(await getDownloads()),
+    [book.id]: {
+      bookId: book.id,
+      title: book.title,
+      format: book.file_format,
+      filePath: book.file_path,
+      fileUri: `${directory}${book.id}.${book.file_format}`,
+      totalBytes: size,
+      bytesWritten: 0,
+      status: 'downloading',
+      lastReadAt: Date.now(),
+      expiresAt,
+    },
+  };
+  await persistIndex();
+  notifyListeners(downloadIndex);
+
+  await startTask(book.id, remoteUrl);
+};
+
+export const pauseDownload = async (bookId: string): Promise<void> => {
+  const resumable = activeDownloads.get(bookId);
+  if (!resumable) return;
+
+  try {
+    const state = await resumable.pauseAsync();
+    await updateRecord(bookId, { status: 'paused', resumeData: state.resumeData });
+  } catch (error) {
+    console.error('Pause download error:', error);
+  }
+};
+
+export const resumeDownload = async (bookId: string): Promise<void> => {
+  const record = (await getDownloads())[bookId];
+  if (!record || activeDownloads.has(bookId) || record.status === 'completed') return;
+
+  // Signed URLs expire, so always ask for a fresh one before resuming.
+  const remoteUrl = await getBookFileUrl({ file_path: record.filePath });
+  await startTask(bookId, remoteUrl, record.resumeData);
+};
+
+export const deleteDownload = async (bookId: string): Promise<void> => {
+  const record = (await getDownloads())[bookId];
+  if (!record) return;
+
+  const resumable = activeDownloads.get(bookId);
+  if (resumable) {
+    activeDownloads.delete(bookId);
+    await resumable.cancelAsync().catch(() => undefined);
+  }
+  try {
+    await FileSystem.deleteAsync(record.fileUri, { idempotent: true });
+  } catch (error) {
+    console.error('Delete download error:', error);
+  }
+  await updateRecord(bookId, null);
+};
+
+const isExpired = (record: DownloadRecord): boolean => {
+  return record.expiresAt !== undefined && record.expiresAt <= Date.now();
+};
+
+/** Moves a download's expiry, e.g. after the loan is renewed. */
+export const setDownloadExpiry = async (bookId: string, expiresAt: number): Promise<void> => {
+  await updateRecord(bookId, { expiresAt });
+};
+
+/** Deletes offline copies whose loan has ended. */
+export const removeExpiredDownloads = async (): Promise<void> => {
+  const expired = Object.values(await getDownloads()).filter(isExpired);
+  for (const record of expired) {
+    await deleteDownload(record.bookId);
+  }
+};
+
+/**
+ * Returns the local file for a fully downloaded book, or null to stream it.
+ */
+export const getLocalBookUri = async (bookId: string): Promise<string | null> => {
+  const record = (await getDownloads())[bookId];
+  if (!record || record.status !== 'completed') {
+    return null;
+  }
+  if (isExpired(record)) {
+    await deleteDownload(bookId);
+    return null;
+  }
+
+  const info = await FileSystem.getInfoAsync(record.fileUri);
+  if (!info.exists) {
+    await updateRecord(bookId, null);
+    return null;
+  }
+  return record.fileUri;
+};
+
+export const markBookOpened = async (bookId: string): Promise<void> => {
+  if ((await getDownloads())[bookId]) {
+    await updateRecord(bookId, { lastReadAt: Date.now() });
+  }
+};
+
+const persistActiveDownloads = async (): Promise<void> => {
+  for (const [bookId, resumable] of activeDownloads) {
+    await updateRecord(bookId, { resumeData: resumable.savable().resumeData }, false);
+  }
+  await persistIndex();
+};
+
+/**
+ * Switches to the signed-in account's downloads, or to none when signed out.
+ * The previous account's downloads are paused and pick up again when it signs
+ * back in; the new account's expired copies are removed and downloads that
+ * were cut off are resumed.
+ */
+export const setDownloadsAccount = async (userId: string | null): Promise<void> => {
+  if (userId === accountId) return;
+
+  await persistActiveDownloads();
+  const paused = [...activeDownloads.values()];
+  activeDownloads.clear();
+  await Promise.all(paused.map((resumable) => resumable.pauseAsync().catch(() => undefined)));
+
+  accountId = userId;
+  downloadIndex = null;
+  const index = await getDownloads();
+  notifyListeners(index);
+
+  await removeExpiredDownloads();
+  Object.values(await getDownloads())
+    .filter((record) => record.status === 'downloading')
+    .forEach((record) => {
+      resumeDownload(record.bookId).catch((error) => console.error('Resume download error:', error));
+    });
+};
+
+/**
+ * Removes copies of expired loans and saves resume data whenever the app is
+ * backgrounded. Returns a cleanup function.
+ */
+export const startDownloadManager = (): (() => void) => {
+  const subscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      removeExpiredDownloads();
+    } else {
+      persistActiveDownloads();
+    }
+  });
+  return () => subscription.remove();
+};
@@ -0,0 +1,85 @@
+import { supabase } from '@/lib/supabase';
+
+export type HoldStatus = 'waiting' | 'ready';
+
+/** An open hold of the signed-in user, as returned by public.my_holds(). */
+export interface Hold {
+  id: string;
+  book_id: string;
+  book_title: string;
+  status: HoldStatus;
+  /** Place among waiting readers, starting at 1; 0 once a copy is set aside. */
+  queue_position: number;
+  created_at: string;
+  pickup_expires_at: string | null;
+}
+
+/** An open hold in the librarian queue, as returned by public.hold_queue(). */
+export interface QueuedHold extends Hold {
+  user_id: string;
+  member_name: string | null;
+  member_email: string | null;
+}
+
+// Must match public.hold_pickup_window().
+export const HOLD_PICKUP_HOURS = 48;
+
+/** A ready hold can lapse between server sweeps, so its deadline is checked too. */
+export const isHoldReady = (hold: Hold): boolean => {
+  return hold.status === 'ready' && !!hold.pickup_expires_at && new Date(hold.pickup_expires_at).getTime() > Date.now();
+};
+
+export const fetchMyHolds = async (): Promise<Hold[]> => {
+  const { data, error } = await supabase.rpc('my_holds');
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Hold[];
+};
+
+export const fetchHold = async (bookId: string): Promise<Hold | null> => {
+  const { data, error } = await supabase.rpc('my_holds', { p_book_id: bookId });
+
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as Hold[])[0] ?? null;
+};
+
+/** Joins the queue for a title with no free copies, or returns the existing hold. */
+export const placeHold = async (bookId: string): Promise<void> => {
+  const { error } = await supabase.rpc('place_hold', { p_book_id: bookId });
+
+  if (error) {
+    throw error;
+  }
+};
+
+/** Cancels a hold; staff can also remove other readers' holds. */
+export const cancelHold = async (holdId: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_hold', { p_hold_id: holdId });
+
+  if (error) {
+    throw error;
+  }
+};
+
+/** Staff only. Ready holds come first, then each title's waiting queue in order. */
+export const fetchHoldQueue = async (): Promise<QueuedHold[]> => {
+  const { data, error } = await supabase.rpc('hold_queue');
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as QueuedHold[];
+};
+
+/** Staff only. Moves a waiting hold to a 1-based place in its title's queue. */
+export const moveHold = async (holdId: string, position: number): Promise<void> => {
+  const { error } = await supabase.rpc('move_hold', { p_hold_id: holdId, p_position: position });
+
+  if (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,139 @@
+import { Book, BOOK_COLUMNS } from '@/lib/books';
+import { deleteDownload, getDownloads, setDownloadExpiry } from '@/lib/downloads';
+import { supabase } from '@/lib/supabase';
+
+export type LoanStatus = 'active' | 'returned' | 'expired';
+
+export interface Loan {
+  id: string;
+  user_id: string;
+  book_id: string;
+  borrowed_at: string;
+  due_at: string;
+  returned_at: string | null;
+  renewals: number;
+  status: LoanStatus;
+}
+
+export interface LoanWithBook extends Loan {
+  book: Book | null;
+}
+
+// Must match max_renewals in public.renew_loan().
+export const MAX_RENEWALS = 2;
+
+const LOANS_TABLE = 'loans';
+const LOAN_COLUMNS = 'id, user_id, book_id, borrowed_at, due_at, returned_at, renewals, status';
+const LOAN_HISTORY_LIMIT = 100;
+
+/** The server expires loans every few minutes, so the due date is checked too. */
+export const isLoanActive = (loan: Loan): boolean => {
+  return loan.status === 'active' && new Date(loan.due_at).getTime() > Date.now();
+};
+
+export const canRenewLoan = (loan: Loan): boolean => {
+  return isLoanActive(loan) && loan.renewals < MAX_RENEWALS;
+};
+
+export const fetchActiveLoan = async (userId: string, bookId: string): Promise<Loan | null> => {
+  const { data, error } = await supabase
+    .from(LOANS_TABLE)
+    .select(LOAN_COLUMNS)
+    .eq('user_id', userId)
+    .eq('book_id', bookId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data && isLoanActive(data as Loan) ? (data as Loan) : null;
+};
+
+/** Current loans first, then the most recent history. */
+export const fetchLoans = async (userId: string): Promise<LoanWithBook[]> => {
+  const { data, error } = await supabase
+    .from(LOANS_TABLE)
+    .select(`${LOAN_COLUMNS}, book:books(${BOOK_COLUMNS})`)
+    .eq('user_id', userId)
+    .order('borrowed_at', { ascending: false })
+    .limit(LOAN_HISTORY_LIMIT);
+
+  if (error) {
+    throw error;
+  }
+  const loans = (data ?? []) as unknown as LoanWithBook[];
+  return [...loans].sort((a, b) => Number(isLoanActive(b)) - Number(isLoanActive(a)));
+};
+
+/** Copies that can be borrowed right now, or null when the title has no limit. */
+export const fetchAvailableCopies = async (bookId: string): Promise<number | null> => {
+  const { data, error } = await supabase.rpc('available_copies', { p_book_id: bookId });
+
+  if (error) {
+    throw error;
+  }
+  return data === null ? null : Math.max(Number(data), 0);
+};
+
+/** Borrows a copy, or returns the existing loan. Fails once every licensed copy is out. */
+export const borrowBook = async (bookId: string): Promise<Loan> => {
+  const { data, error } = await supabase.rpc('borrow_book', { p_book_id: bookId });
+
+  if (error) {
+    throw error;
+  }
+  return data as Loan;
+};
+
+export const renewLoan = async (loan: Loan): Promise<Loan> => {
+  const { data, error } = await supabase.rpc('renew_loan', { p_loan_id: loan.id });
+
+  if (error) {
+    throw error;
+  }
+  const renewed = data as Loan;
+  await setDownloadExpiry(renewed.book_id, new Date(renewed.due_at).getTime());
+  return renewed;
+};
+
+/** Returns a loan early, which also deletes its offline copy. */
+export const returnLoan = async (loan: Loan): Promise<void> => {
+  const { error } = await supabase.rpc('return_loan', { p_loan_id: loan.id });
+
+  if (error) {
+    throw error;
+  }
+  await deleteDownload(loan.book_id);
+};
+
+/**
+ * Brings the user's loan copies in line with the server: copies without a
+ * current loan (returned on another device or expired) are deleted and renewed
+ * loans move their copy's expiry. Call it after `setDownloadsAccount(userId)`;
+ * staff copies, which have no expiry, are left alone.
+ */
+export const syncLoanDownloads = async (userId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from(LOANS_TABLE)
+    .select(LOAN_COLUMNS)
+    .eq('user_id', userId)
+    .eq('status', 'active');
+
+  if (error) {
+    throw error;
+  }
+
+  const dueDates = new Map(
+    ((data ?? []) as Loan[]).filter(isLoanActive).map((loan) => [loan.book_id, new Date(loan.due_at).getTime()])
+  );
+  for (const record of Object.values(await getDownloads())) {
+    if (record.expiresAt === undefined) continue;
+    const dueAt = dueDates.get(record.bookId);
+    if (dueAt === undefined) {
+      await deleteDownload(record.bookId);
+    } else if (record.expiresAt !== dueAt) {
+      await setDownloadExpiry(record.bookId, dueAt);
+    }
+  }
+};
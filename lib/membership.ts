@@ -0,0 +1,67 @@
+import { supabase } from '@/lib/supabase';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface MemberRequest {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  approval_status: ApprovalStatus;
+  created_at: string;
+}
+
+const PROFILES_TABLE = 'profiles';
+const DOMAINS_TABLE = 'allowed_email_domains';
+
+export const getEmailDomain = (email: string): string => {
+  return email.trim().toLowerCase().split('@')[1] ?? '';
+};
+
+/** Mirrors public.is_allowed_email(); subdomains of an allowed domain count. */
+export const isAllowedEmailDomain = (email: string, domains: string[]): boolean => {
+  const domain = getEmailDomain(email);
+  return domains.some((allowed) => domain === allowed || domain.endsWith(`.${allowed}`));
+};
+
+export const fetchAllowedDomains = async (): Promise<string[]> => {
+  const { data, error } = await supabase.from(DOMAINS_TABLE).select('domain').order('domain');
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map((row) => row.domain);
+};
+
+export const fetchApprovalStatus = async (userId: string): Promise<ApprovalStatus> => {
+  const { data, error } = await supabase
+    .from(PROFILES_TABLE)
+    .select('approval_status')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return (data?.approval_status as ApprovalStatus | undefined) ?? 'pending';
+};
+
+export const fetchMemberRequests = async (status: Exclude<ApprovalStatus, 'approved'>): Promise<MemberRequest[]> => {
+  const { data, error } = await supabase
+    .from(PROFILES_TABLE)
+    .select('id, full_name, email, approval_status, created_at')
+    .eq('approval_status', status)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data as MemberRequest[]) ?? [];
+};
+
+export const setApprovalStatus = async (userId: string, status: ApprovalStatus): Promise<void> => {
+  const { error } = await supabase.from(PROFILES_TABLE).update({ approval_status: status }).eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,152 @@
+import { Factor } from '@supabase/supabase-js';
+import * as Crypto from 'expo-crypto';
+
+import { supabase } from '@/lib/supabase';
+
+export interface TotpEnrollment {
+  factorId: string;
+  /** Data URI of the QR code SVG, ready for an image component. */
+  qrCodeUri: string;
+  /** Shown for manual entry when the QR code can't be scanned. */
+  secret: string;
+}
+
+export interface AssuranceLevel {
+  current: 'aal1' | 'aal2' | null;
+  next: 'aal1' | 'aal2' | null;
+}
+
+const RECOVERY_CODES_TABLE = 'mfa_recovery_codes';
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_LENGTH = 10;
+// No 0/O or 1/I so codes survive being written down.
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const getAssuranceLevel = async (): Promise<AssuranceLevel> => {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) {
+    throw error;
+  }
+  return { current: data.currentLevel, next: data.nextLevel };
+};
+
+/** True when the user has an authenticator but this session hasn't been verified with it. */
+export const needsMfaChallenge = async (): Promise<boolean> => {
+  const { current, next } = await getAssuranceLevel();
+  return next === 'aal2' && current !== 'aal2';
+};
+
+export const fetchTotpFactor = async (): Promise<Factor | null> => {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) {
+    throw error;
+  }
+  return data.totp[0] ?? null;
+};
+
+const toQrCodeUri = (qrCode: string): string => {
+  const svg = qrCode.startsWith('data:') ? qrCode.slice(qrCode.indexOf(',') + 1) : qrCode;
+  return `data:image/svg+xml;utf8,${svg.startsWith('<') ? encodeURIComponent(svg) : svg}`;
+};
+
+/**
+ * Starts TOTP enrolment. Unfinished enrolments from earlier attempts are
+ * removed first, since Supabase rejects a second factor with the same name.
+ */
+export const startTotpEnrollment = async (): Promise<TotpEnrollment> => {
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) {
+    throw listError;
+  }
+  for (const factor of factors.all.filter((item) => item.status === 'unverified')) {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    if (error) {
+      throw error;
+    }
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    friendlyName: 'Authenticator app',
+  });
+  if (error) {
+    throw error;
+  }
+  return { factorId: data.id, qrCodeUri: toQrCodeUri(data.totp.qr_code), secret: data.totp.secret };
+};
+
+/** Verifies a code from the authenticator; on success the session becomes aal2. */
+export const verifyTotpCode = async (factorId: string, code: string): Promise<void> => {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) {
+    throw error;
+  }
+};
+
+export const removeTotpFactor = async (factorId: string): Promise<void> => {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) {
+    throw error;
+  }
+};
+
+/** Must match normalizeCode in supabase/functions/mfa-recovery. */
+export const normalizeRecoveryCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const hashRecoveryCode = (code: string): Promise<string> => {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, normalizeRecoveryCode(code));
+};
+
+const createRecoveryCode = (): string => {
+  const bytes = Crypto.getRandomBytes(RECOVERY_CODE_LENGTH);
+  const chars = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+};
+
+/**
+ * Creates a fresh set of recovery codes, replacing any earlier ones. Only the
+ * hashes are stored, so the returned codes must be shown to the user now.
+ */
+export const generateRecoveryCodes = async (): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, createRecoveryCode);
+  const hashes = await Promise.all(codes.map(hashRecoveryCode));
+
+  const { error } = await supabase.rpc('replace_mfa_recovery_codes', { p_code_hashes: hashes });
+  if (error) {
+    throw error;
+  }
+  return codes;
+};
+
+export const countRecoveryCodes = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from(RECOVERY_CODES_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .is('used_at', null);
+
+  if (error) {
+    throw error;
+  }
+  return count ?? 0;
+};
+
+/**
+ * Uses a recovery code in place of the authenticator. The server removes the
+ * user's TOTP factor, so they are signed in without a second factor and
+ * should enrol a new device.
+ */
+export const redeemRecoveryCode = async (code: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke('mfa-recovery', {
+    body: { code: normalizeRecoveryCode(code) },
+  });
+  if (error) {
+    // FunctionsHttpError keeps the response so the server's message can be shown.
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error ?? error.message);
+  }
+
+  const { error: refreshError } = await supabase.auth.refreshSession();
+  if (refreshError) {
+    throw refreshError;
+  }
+};
@@ -0,0 +1,146 @@
+import { EmailOtpType } from '@supabase/supabase-js';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { Platform } from 'react-native';
+
+import { clearOTPData, getOTPData } from '@/lib/otpUtils';
+import { supabase } from '@/lib/supabase';
+
+export interface AuthRedirectParams {
+  code?: string;
+  /**
+   * Set instead of `code` by sign-in links emailed through the auth gateway.
+   * The Magic Link template must point at
+   * `{{ .RedirectTo }}?token_hash={{ .TokenHash }}&type=email`.
+   */
+  tokenHash?: string;
+  type?: string;
+  /** The redirect carried a ready-made session, which is never accepted. */
+  hasSessionTokens: boolean;
+  error?: string;
+}
+
+// Closes the popup window when the web build is opened as an auth redirect.
+WebBrowser.maybeCompleteAuthSession();
+
+const AUTH_CALLBACK_PATH = 'auth/callback';
+
+// The redirect can reach both the auth session and the callback route, but a
+// PKCE code can only be exchanged once, so concurrent callers share the work.
+let pendingExchange: { code: string; promise: Promise<void> } | null = null;
+
+/**
+ * URL the provider sends the user back to, e.g.
+ * `bciebooklibrarywithsupabase://auth/callback`. It must be listed under
+ * Redirect URLs in the Supabase Auth settings.
+ */
+export const getAuthRedirectUrl = (): string => Linking.createURL(AUTH_CALLBACK_PATH);
+
+/**
+ * Reads the authorization code or error from a redirect URL. Providers put
+ * errors in either the query string or the fragment.
+ */
+export const parseAuthRedirect = (url: string): AuthRedirectParams => {
+  const params: Record<string, string> = {};
+  const [withoutFragment, fragment = ''] = url.split('#');
+  const query = withoutFragment.split('?')[1] ?? '';
+
+  for (const part of [query, fragment]) {
+    new URLSearchParams(part).forEach((value, key) => {
+      params[key] = value;
+    });
+  }
+
+  return {
+    code: params.code,
+    tokenHash: params.token_hash,
+    type: params.type,
+    hasSessionTokens: !!(params.access_token || params.refresh_token),
+    error: params.error_description || params.error,
+  };
+};
+
+export const exchangeAuthCode = async (code: string): Promise<void> => {
+  if (pendingExchange?.code !== code) {
+    const promise = supabase.auth.exchangeCodeForSession(code).then(({ error }) => {
+      if (error) {
+        throw error;
+      }
+    });
+    pendingExchange = { code, promise };
+  }
+  return pendingExchange.promise;
+};
+
+const EMAIL_LINK_TYPES: EmailOtpType[] = ['email', 'magiclink'];
+
+/**
+ * Signs in with an emailed link. Anyone can send someone a link to their own
+ * account, so it only counts if this device asked for a code for the same
+ * address.
+ */
+const verifyEmailLink = async (tokenHash: string, type: EmailOtpType): Promise<void> => {
+  const pending = await getOTPData();
+  if (!pending) {
+    throw new Error('Open the sign-in link on the device you requested it from, or enter the code instead.');
+  }
+
+  const { data, error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type });
+  if (error) {
+    throw error;
+  }
+  if (data.user?.email?.toLowerCase() !== pending.email.trim().toLowerCase()) {
+    await supabase.auth.signOut({ scope: 'local' });
+    throw new Error('This sign-in link is for a different email address.');
+  }
+  await clearOTPData();
+};
+
+export const completeAuthRedirect = async (url: string): Promise<void> => {
+  const { code, tokenHash, type, hasSessionTokens, error } = parseAuthRedirect(url);
+  if (error) {
+    throw new Error(error);
+  }
+  // Tokens in a link could sign the user into someone else's account.
+  if (hasSessionTokens) {
+    throw new Error('This sign-in link is not valid. Please request a new one from the app.');
+  }
+  if (tokenHash) {
+    if (!EMAIL_LINK_TYPES.includes(type as EmailOtpType)) {
+      throw new Error('This sign-in link is not valid. Please request a new one from the app.');
+    }
+    await verifyEmailLink(tokenHash, type as EmailOtpType);
+    return;
+  }
+  if (!code) {
+    throw new Error('Sign-in did not return an authorization code. Please try again.');
+  }
+  await exchangeAuthCode(code);
+};
+
+/**
+ * Signs in with Google in an in-app browser session. Resolves true once a
+ * session exists, or false if the user closed the browser. On the web the
+ * page navigates to Google instead and finishes on the callback route.
+ */
+export const signInWithGoogle = async (): Promise<boolean> => {
+  const redirectTo = getAuthRedirectUrl();
+  const { data, error } = await supabase.auth.signInWithOAuth({
+    provider: 'google',
+    options: { redirectTo, skipBrowserRedirect: Platform.OS !== 'web' },
+  });
+
+  if (error) {
+    throw error;
+  }
+  if (Platform.OS === 'web') {
+    return false;
+  }
+
+  const result = await WebBrowser.openAuthSessionAsync(data.url, redirectTo);
+  if (result.type !== 'success') {
+    return false;
+  }
+  await completeAuthRedirect(result.url);
+  return true;
+};
@@ -1,26 +1,73 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
 
-interface OTPData {
+/** Which flow sent the code: sign-up confirmation, password reset, passwordless sign-in or email change. */
+export type OTPFlow = 'register' | 'reset' | 'login' | 'email_change';
+
+export interface OTPData {
 	email: string;
-	type: 'register' | 'reset';
-	password?: string;
-	session?: any;
+	type: OTPFlow;
+}
+
+export interface StoredOTPData extends OTPData {
+	/** Epoch milliseconds after which the state is wiped. */
+	expiresAt: number;
 }
 
 const OTP_STORAGE_KEY = 'otp_verification_data';
+// Matches Supabase's default email OTP lifetime.
+const OTP_TTL_MS = 60 * 60 * 1000;
+
+// SecureStore has no web implementation, so the web build falls back to
+// AsyncStorage. Nothing secret is stored, only the pending email and flow.
+const storage =
+	Platform.OS === 'web'
+		? {
+				getItem: (key: string) => AsyncStorage.getItem(key),
+				setItem: (key: string, value: string) => AsyncStorage.setItem(key, value),
+				removeItem: (key: string) => AsyncStorage.removeItem(key),
+			}
+		: {
+				getItem: (key: string) => SecureStore.getItemAsync(key),
+				setItem: (key: string, value: string) => SecureStore.setItemAsync(key, value),
+				removeItem: (key: string) => SecureStore.deleteItemAsync(key),
+			};
+
+// Older builds kept this state, password included, in plain AsyncStorage.
+const removeLegacyData = async (): Promise<void> => {
+	if (Platform.OS !== 'web') {
+		await AsyncStorage.removeItem(OTP_STORAGE_KEY);
+	}
+};
 
 export const storeOTPData = async (data: OTPData): Promise<void> => {
 	try {
-		await AsyncStorage.setItem(OTP_STORAGE_KEY, JSON.stringify(data));
+		const stored: StoredOTPData = {
+			email: data.email,
+			type: data.type,
+			expiresAt: Date.now() + OTP_TTL_MS,
+		};
+		await storage.setItem(OTP_STORAGE_KEY, JSON.stringify(stored));
+		await removeLegacyData();
 	} catch (error) {
 		console.error('Error storing OTP data:', error);
 	}
 };
 
-export const getOTPData = async (): Promise<OTPData | null> => {
+/** Returns the pending verification, or null once it has expired. */
+export const getOTPData = async (): Promise<StoredOTPData | null> => {
 	try {
-		const data = await AsyncStorage.getItem(OTP_STORAGE_KEY);
-		return data ? JSON.parse(data) : null;
+		await removeLegacyData();
+		const raw = await storage.getItem(OTP_STORAGE_KEY);
+		if (!raw) return null;
+
+		const data: StoredOTPData = JSON.parse(raw);
+		if (!data.email || !data.type || !(data.expiresAt > Date.now())) {
+			await storage.removeItem(OTP_STORAGE_KEY);
+			return null;
+		}
+		return data;
 	} catch (error) {
 		console.error('Error getting OTP data:', error);
 		return null;
@@ -29,10 +76,8 @@ export const getOTPData = async (): Promise<OTPData | null> => {
 
 export const clearOTPData = async (): Promise<void> => {
 	try {
-		await AsyncStorage.removeItem(OTP_STORAGE_KEY);
+		await storage.removeItem(OTP_STORAGE_KEY);
 	} catch (error) {
 		console.error('Error clearing OTP data:', error);
 	}
 };
-
-
@@ -0,0 +1,133 @@
+import { COMMON_PASSWORDS } from '@/constants/commonPasswords';
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+/** 0 is very weak, 4 is strong. */
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordCheck {
+  valid: boolean;
+  /** Unmet rules, phrased for the user. Empty when valid. */
+  errors: string[];
+  strength: PasswordStrength;
+}
+
+// Keep minLength in step with the minimum password length in the Supabase Auth settings.
+export const PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+};
+
+export const PASSWORD_STRENGTH_LABELS: Record<PasswordStrength, string> = {
+  0: 'Very weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Good',
+  4: 'Strong',
+};
+
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  $: 's',
+  '!': 'i',
+};
+
+/**
+ * Reduces a password to the word underneath, so "P@ssw0rd123!" and
+ * "password" are treated alike: leading digits and trailing digits or
+ * symbols are dropped, then leetspeak is undone.
+ */
+export const normalizePassword = (password: string): string => {
+  return password
+    .toLowerCase()
+    .replace(/^[0-9]+|[^a-z]+$/g, '')
+    .split('')
+    .map((char) => LEET_SUBSTITUTIONS[char] ?? char)
+    .join('')
+    .replace(/[^a-z]/g, '');
+};
+
+const isCommonPassword = (password: string): boolean => {
+  // Passwords without any letters are digit or keyboard runs like 12345678.
+  if (!/[a-z]/i.test(password)) return true;
+  return COMMON_PASSWORDS.has(normalizePassword(password));
+};
+
+// Words from the user's own details; only the part of an email before the @ counts.
+const getPersonalWords = (context: string[]): string[] => {
+  return context
+    .flatMap((value) => value.toLowerCase().split('@')[0].split(/[^a-z0-9]+/))
+    .filter((word) => word.length >= 3);
+};
+
+/**
+ * Checks a password against the policy. `context` holds things like the
+ * user's name and email, which must not appear in the password.
+ */
+export const checkPassword = (
+  password: string,
+  context: string[] = [],
+  policy: PasswordPolicy = PASSWORD_POLICY
+): PasswordCheck => {
+  const errors: string[] = [];
+  const hasLowercase = /[a-z]/.test(password);
+  const hasUppercase = /[A-Z]/.test(password);
+  const hasNumber = /[0-9]/.test(password);
+  const hasSymbol = /[^A-Za-z0-9]/.test(password);
+
+  if (password.length < policy.minLength) {
+    errors.push(`Use at least ${policy.minLength} characters.`);
+  }
+  if (policy.requireLowercase && !hasLowercase) {
+    errors.push('Add a lowercase letter.');
+  }
+  if (policy.requireUppercase && !hasUppercase) {
+    errors.push('Add an uppercase letter.');
+  }
+  if (policy.requireNumber && !hasNumber) {
+    errors.push('Add a number.');
+  }
+  if (policy.requireSymbol && !hasSymbol) {
+    errors.push('Add a symbol such as ! or #.');
+  }
+
+  const common = password.length > 0 && isCommonPassword(password);
+  if (common) {
+    errors.push('This password is too common. Avoid everyday words and well-known passwords.');
+  }
+
+  const lower = password.toLowerCase();
+  const personal = getPersonalWords(context).some((word) => lower.includes(word));
+  if (personal) {
+    errors.push('Do not include your name or email address.');
+  }
+
+  let score = 0;
+  if (password.length >= policy.minLength) score += 1;
+  if (password.length >= policy.minLength + 4) score += 1;
+  const classes = [hasLowercase, hasUppercase, hasNumber, hasSymbol].filter(Boolean).length;
+  if (classes >= 3) score += 1;
+  if (classes === 4) score += 1;
+  if (common || personal) score = Math.min(score, 1);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    strength: Math.min(score, 4) as PasswordStrength,
+  };
+};
@@ -0,0 +1,61 @@
+import { Session } from '@supabase/supabase-js';
+
+import { supabase } from '@/lib/supabase';
+
+export type Role = 'student' | 'faculty' | 'librarian' | 'admin';
+
+export type Permission =
+  | 'view_faculty_titles'
+  | 'manage_reading_lists'
+  | 'manage_catalog'
+  | 'approve_members'
+  | 'manage_users';
+
+export const ROLES: Role[] = ['student', 'faculty', 'librarian', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  student: 'Student',
+  faculty: 'Faculty',
+  librarian: 'Librarian',
+  admin: 'Administrator',
+};
+
+// Mirrors the checks in the database policies; the server remains the authority.
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  student: [],
+  faculty: ['view_faculty_titles', 'manage_reading_lists'],
+  librarian: ['view_faculty_titles', 'manage_catalog', 'approve_members'],
+  admin: ['view_faculty_titles', 'manage_catalog', 'approve_members', 'manage_users'],
+};
+
+const PROFILES_TABLE = 'profiles';
+
+export const isRole = (value: unknown): value is Role => {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+};
+
+export const hasPermission = (role: Role | null, permission: Permission): boolean => {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false;
+};
+
+/**
+ * Resolves the signed-in user's role. The JWT claim is used when present so no
+ * request is needed; otherwise the role is read from the profile.
+ */
+export const fetchUserRole = async (session: Session): Promise<Role> => {
+  const claim = session.user.app_metadata?.role;
+  if (isRole(claim)) {
+    return claim;
+  }
+
+  const { data, error } = await supabase
+    .from(PROFILES_TABLE)
+    .select('role')
+    .eq('id', session.user.id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return isRole(data?.role) ? data.role : 'student';
+};
@@ -0,0 +1,124 @@
+import { getDeviceId } from '@/lib/deviceId';
+import { getAuthRedirectUrl } from '@/lib/oauth';
+import { RateLimitError } from '@/lib/rateLimitUtils';
+import { uploadFile } from '@/lib/storageUpload';
+import { supabase } from '@/lib/supabase';
+
+export interface Profile {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  department: string | null;
+  study_year: number | null;
+  avatar_path: string | null;
+  /** Set while the account is waiting to be deleted. */
+  deletion_scheduled_for: string | null;
+}
+
+export type ProfileUpdate = Pick<Profile, 'full_name' | 'department' | 'study_year'>;
+
+export interface PickedAvatar {
+  uri: string;
+  mimeType?: string | null;
+  size?: number | null;
+}
+
+export const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+export const MAX_STUDY_YEAR = 8;
+
+const PROFILES_TABLE = 'profiles';
+const AVATARS_BUCKET = 'avatars';
+const PROFILE_COLUMNS = 'id, full_name, email, department, study_year, avatar_path, deletion_scheduled_for';
+
+const AVATAR_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export const fetchProfile = async (userId: string): Promise<Profile | null> => {
+  const { data, error } = await supabase.from(PROFILES_TABLE).select(PROFILE_COLUMNS).eq('id', userId).maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data as Profile | null;
+};
+
+export const updateProfile = async (userId: string, update: ProfileUpdate): Promise<void> => {
+  const { error } = await supabase.from(PROFILES_TABLE).update(update).eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const getAvatarUrl = (profile: Pick<Profile, 'avatar_path'>): string | null => {
+  if (!profile.avatar_path) {
+    return null;
+  }
+  return supabase.storage.from(AVATARS_BUCKET).getPublicUrl(profile.avatar_path).data.publicUrl;
+};
+
+export const validateAvatar = (avatar: PickedAvatar): string | null => {
+  if (!AVATAR_EXTENSIONS[avatar.mimeType ?? 'image/jpeg']) {
+    return 'Please choose a JPEG, PNG or WebP image.';
+  }
+  if (avatar.size && avatar.size > MAX_AVATAR_BYTES) {
+    return 'Please choose an image under 2 MB.';
+  }
+  return null;
+};
+
+/** Uploads a new avatar, points the profile at it and removes the old one. */
+export const uploadAvatar = async (profile: Profile, avatar: PickedAvatar): Promise<string> => {
+  const contentType = avatar.mimeType ?? 'image/jpeg';
+  // A fresh name per upload keeps cached copies of the old picture from showing.
+  const path = `${profile.id}/${Date.now()}.${AVATAR_EXTENSIONS[contentType]}`;
+  await uploadFile({ bucket: AVATARS_BUCKET, path, fileUri: avatar.uri, contentType });
+
+  const { error } = await supabase.from(PROFILES_TABLE).update({ avatar_path: path }).eq('id', profile.id);
+  if (error) {
+    throw error;
+  }
+
+  if (profile.avatar_path) {
+    const { error: removeError } = await supabase.storage.from(AVATARS_BUCKET).remove([profile.avatar_path]);
+    if (removeError) {
+      console.error('Error removing old avatar:', removeError);
+    }
+  }
+  return path;
+};
+
+/**
+ * Sets a new password through the change-password edge function, which checks
+ * the current one first. Calling the auth API directly with a session still
+ * skips that check, so "Secure password change" should stay on in the Auth
+ * settings to ask for an emailed code from sessions older than a day.
+ */
+export const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke('change-password', {
+    body: { current_password: currentPassword, new_password: newPassword, device_id: await getDeviceId() },
+  });
+  if (error) {
+    // FunctionsHttpError keeps the response so the server's message can be shown.
+    const body = await error.context?.json?.().catch(() => null);
+    if (typeof body?.wait_seconds === 'number') {
+      throw new RateLimitError(body.wait_seconds);
+    }
+    throw new Error(body?.error ?? error.message);
+  }
+};
+
+/** Sends a confirmation code to the new address; the change applies once it is verified. */
+export const requestEmailChange = async (newEmail: string): Promise<void> => {
+  const { error } = await supabase.auth.updateUser(
+    { email: newEmail.trim().toLowerCase() },
+    { emailRedirectTo: getAuthRedirectUrl() }
+  );
+
+  if (error) {
+    throw error;
+  }
+};
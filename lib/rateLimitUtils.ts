@@ -1,93 +1,64 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDeviceId } from '@/lib/deviceId';
+import { supabase } from '@/lib/supabase';
 
-interface RateLimitData {
-  lastRequest: number;
-  requestCount: number;
-  blockedUntil?: number;
-}
+/**
+ * Limits for each action live in the rate_limit_config table. The auth-gateway
+ * edge function enforces them before it makes the auth call; calls made
+ * straight to the auth API only meet Supabase Auth's own limits.
+ */
+export type RateLimitAction = 'login' | 'register' | 'resend' | 'password_reset';
 
-const RATE_LIMIT_KEY = 'rate_limit_data';
-const MAX_REQUESTS_PER_MINUTE = 3;
-const BLOCK_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the next attempt is allowed; missing if the check itself failed. */
+  waitTime?: number;
+}
 
-export const checkRateLimit = async (action: string): Promise<{ allowed: boolean; waitTime?: number }> => {
+/**
+ * Asks the server whether an attempt may go ahead, without counting one; the
+ * gateway counts it when the attempt is made. Fails closed: if the server
+ * can't be reached the attempt is refused.
+ */
+export const checkRateLimit = async (action: RateLimitAction, email: string): Promise<RateLimitResult> => {
   try {
-    const key = `${RATE_LIMIT_KEY}_${action}`;
-    const data = await AsyncStorage.getItem(key);
-    const now = Date.now();
-    
-    if (!data) {
-      // First request
-      await AsyncStorage.setItem(key, JSON.stringify({
-        lastRequest: now,
-        requestCount: 1
-      }));
-      return { allowed: true };
-    }
-    
-    const rateLimitData: RateLimitData = JSON.parse(data);
-    
-    // Check if currently blocked
-    if (rateLimitData.blockedUntil && now < rateLimitData.blockedUntil) {
-      return { 
-        allowed: false, 
-        waitTime: Math.ceil((rateLimitData.blockedUntil - now) / 1000) 
-      };
-    }
-    
-    // Reset if more than 1 minute has passed
-    if (now - rateLimitData.lastRequest > 60 * 1000) {
-      await AsyncStorage.setItem(key, JSON.stringify({
-        lastRequest: now,
-        requestCount: 1
-      }));
-      return { allowed: true };
-    }
-    
-    // Check if within rate limit
-    if (rateLimitData.requestCount < MAX_REQUESTS_PER_MINUTE) {
-      await AsyncStorage.setItem(key, JSON.stringify({
-        lastRequest: now,
-        requestCount: rateLimitData.requestCount + 1
-      }));
-      return { allowed: true };
-    }
-    
-    // Rate limit exceeded, block for 5 minutes
-    const blockedUntil = now + BLOCK_DURATION;
-    await AsyncStorage.setItem(key, JSON.stringify({
-      lastRequest: now,
-      requestCount: rateLimitData.requestCount + 1,
-      blockedUntil
-    }));
-    
-    return { 
-      allowed: false, 
-      waitTime: Math.ceil(BLOCK_DURATION / 1000) 
-    };
-    
-  } catch (error) {
-    console.error('Rate limit check error:', error);
-    return { allowed: true }; // Allow if there's an error
-  }
-};
+    const { data, error } = await supabase.functions.invoke('auth-gateway', {
+      body: { action: 'status', limit_action: action, email, device_id: await getDeviceId() },
+    });
 
-export const clearRateLimit = async (action: string): Promise<void> => {
-  try {
-    const key = `${RATE_LIMIT_KEY}_${action}`;
-    await AsyncStorage.removeItem(key);
+    if (error) throw error;
+
+    const result = data as { allowed: boolean; wait_seconds: number };
+    return result.allowed ? { allowed: true } : { allowed: false, waitTime: result.wait_seconds };
   } catch (error) {
-    console.error('Clear rate limit error:', error);
+    console.error('Rate limit check error:', error);
+    return { allowed: false };
   }
 };
 
 export const formatWaitTime = (seconds: number): string => {
   const minutes = Math.floor(seconds / 60);
   const remainingSeconds = seconds % 60;
-  
+
   if (minutes > 0) {
     return `${minutes}m ${remainingSeconds}s`;
   }
   return `${remainingSeconds}s`;
 };
 
+export const getRateLimitMessage = (result: RateLimitResult): string => {
+  if (result.waitTime === undefined) {
+    return 'We could not reach the server. Please check your connection and try again.';
+  }
+  return `Too many attempts. Please try again in ${formatWaitTime(result.waitTime)}.`;
+};
+
+/** Thrown when the server refuses an attempt because of too many recent ones. */
+export class RateLimitError extends Error {
+  constructor(
+    /** Seconds until the next attempt is allowed. */
+    public waitTime: number
+  ) {
+    super(`Too many attempts. Please try again in ${formatWaitTime(waitTime)}.`);
+    this.name = 'RateLimitError';
+  }
+}
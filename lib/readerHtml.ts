@@ -0,0 +1,310 @@
+import { BookFileFormat } from '@/lib/books';
+
+/**
+ * HTML shell for the in-app reader. PDFs are drawn with pdf.js and EPUBs with
+ * epub.js inside a WebView; the page talks to React Native through
+ * `window.ReactNativeWebView.postMessage` and exposes `window.reader` for
+ * commands injected from the screen. The page must be loaded from disk through
+ * `writeReaderPage` so its script tags resolve.
+ */
+
+/** A signed URL, or the file:// URI of a downloaded copy read straight from disk. */
+export type ReaderSource = { uri: string };
+
+export interface ReaderAppearance {
+  background: string;
+  text: string;
+  /** CSS filter applied to rendered PDF pages so they match the theme. */
+  pageFilter: string;
+  fontSize: number;
+  lineHeight: number;
+}
+
+export interface ReaderLocation {
+  page?: number;
+  cfi?: string;
+}
+
+export interface ReaderTocItem {
+  label: string;
+  /** PDF page number or EPUB href. */
+  target: number | string;
+  depth: number;
+}
+
+export interface ReaderHighlight {
+  id: string;
+  /** EPUB CFI range of the highlighted passage. */
+  cfi: string;
+  color: string;
+}
+
+export type ReaderMessage =
+  | { type: 'ready'; totalPages: number }
+  | { type: 'toc'; items: ReaderTocItem[] }
+  | { type: 'location'; page: number; totalPages: number; progress: number; cfi?: string }
+  | { type: 'selection'; cfi: string; text: string }
+  | { type: 'highlightPressed'; id: string }
+  | { type: 'error'; message: string };
+
+export type ReaderCommand =
+  | { name: 'next' }
+  | { name: 'prev' }
+  | { name: 'goTo'; target: number | string }
+  | { name: 'setAppearance'; appearance: ReaderAppearance }
+  | { name: 'setHighlights'; highlights: ReaderHighlight[] }
+  | { name: 'clearSelection' };
+
+interface ReaderConfig {
+  format: BookFileFormat;
+  source: ReaderSource;
+  appearance: ReaderAppearance;
+  initialLocation?: ReaderLocation;
+}
+
+// Relative to the page, which `writeReaderPage` saves next to the bundled scripts.
+const PDF_JS_URL = 'pdf.min.js';
+const PDF_WORKER_URL = 'pdf.worker.min.js';
+const JSZIP_URL = 'jszip.min.js';
+const EPUB_JS_URL = 'epub.min.js';
+
+export const getPageFilter = (mode: 'light' | 'dark' | 'sepia'): string => {
+  if (mode === 'dark') return 'invert(0.9) hue-rotate(180deg)';
+  if (mode === 'sepia') return 'sepia(0.5)';
+  return 'none';
+};
+
+export const serializeReaderCommand = (command: ReaderCommand): string => {
+  // Trailing `true` keeps injectJavaScript from complaining about the result.
+  return `window.reader && window.reader.run(${JSON.stringify(command)}); true;`;
+};
+
+const PDF_SCRIPT = `
+  pdfjsLib.GlobalWorkerOptions.workerSrc = '${PDF_WORKER_URL}';
+  var pdfDoc = null;
+  var currentPage = 1;
+  var rendering = false;
+  var pendingPage = null;
+  var canvas = document.getElementById('page');
+
+  function renderPage(num) {
+    rendering = true;
+    pdfDoc.getPage(num).then(function (page) {
+      var dpr = window.devicePixelRatio || 1;
+      var unscaled = page.getViewport({ scale: 1 });
+      var scale = document.getElementById('viewer').clientWidth / unscaled.width;
+      var viewport = page.getViewport({ scale: scale * dpr });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      canvas.style.width = viewport.width / dpr + 'px';
+      canvas.style.height = viewport.height / dpr + 'px';
+      return page.render({ canvasContext: canvas.getContext('2d'), viewport: viewport }).promise;
+    }).then(function () {
+      rendering = false;
+      window.scrollTo(0, 0);
+      post({ type: 'location', page: num, totalPages: pdfDoc.numPages, progress: num / pdfDoc.numPages });
+      if (pendingPage !== null) {
+        var next = pendingPage;
+        pendingPage = null;
+        renderPage(next);
+      }
+    }).catch(fail);
+  }
+
+  function showPage(num) {
+    if (!pdfDoc) return;
+    currentPage = Math.max(1, Math.min(pdfDoc.numPages, num));
+    if (rendering) {
+      pendingPage = currentPage;
+    } else {
+      renderPage(currentPage);
+    }
+  }
+
+  function flattenOutline(items, depth, out) {
+    return (items || []).reduce(function (promise, item) {
+      return promise.then(function () {
+        var dest = typeof item.dest === 'string' ? pdfDoc.getDestination(item.dest) : Promise.resolve(item.dest);
+        return dest.then(function (resolved) {
+          return resolved ? pdfDoc.getPageIndex(resolved[0]) : null;
+        }).then(function (index) {
+          if (index !== null) out.push({ label: item.title, target: index + 1, depth: depth });
+          return flattenOutline(item.items, depth + 1, out);
+        }).catch(function () {});
+      });
+    }, Promise.resolve()).then(function () { return out; });
+  }
+
+  pdfjsLib.getDocument({ url: config.source.uri }).promise.then(function (doc) {
+    pdfDoc = doc;
+    post({ type: 'ready', totalPages: doc.numPages });
+    showPage((config.initialLocation && config.initialLocation.page) || 1);
+    return doc.getOutline().then(function (outline) { return flattenOutline(outline, 0, []); });
+  }).then(function (items) {
+    post({ type: 'toc', items: items });
+  }).catch(fail);
+
+  function applyAppearance(appearance) {
+    document.body.style.background = appearance.background;
+    canvas.style.filter = appearance.pageFilter;
+  }
+
+  var touchStartX = null;
+  document.addEventListener('touchstart', function (e) {
+    touchStartX = e.touches.length === 1 ? e.touches[0].clientX : null;
+  });
+  document.addEventListener('touchend', function (e) {
+    var zoomed = window.visualViewport && window.visualViewport.scale > 1.01;
+    if (touchStartX === null || zoomed) return;
+    var dx = e.changedTouches[0].clientX - touchStartX;
+    if (Math.abs(dx) > 60) showPage(currentPage + (dx < 0 ? 1 : -1));
+  });
+
+  window.reader = {
+    next: function () { showPage(currentPage + 1); },
+    prev: function () { showPage(currentPage - 1); },
+    goTo: function (target) { showPage(Number(target)); },
+    setAppearance: applyAppearance,
+    // Pages are drawn to a canvas, so there is no text to select or highlight.
+    setHighlights: function () {},
+    clearSelection: function () {},
+  };
+`;
+
+const EPUB_SCRIPT = `
+  var book = ePub();
+  var rendition = book.renderTo('viewer', { width: '100%', height: '100%', flow: 'paginated', spread: 'none' });
+  var totalPages = 0;
+
+  function applyAppearance(appearance) {
+    document.body.style.background = appearance.background;
+    rendition.themes.override('color', appearance.text);
+    rendition.themes.override('background', appearance.background);
+    rendition.themes.override('line-height', String(appearance.lineHeight));
+    rendition.themes.fontSize(appearance.fontSize + '%');
+  }
+
+  function flattenToc(items, depth, out) {
+    (items || []).forEach(function (item) {
+      out.push({ label: (item.label || '').trim(), target: item.href, depth: depth });
+      flattenToc(item.subitems, depth + 1, out);
+    });
+    return out;
+  }
+
+  book.open(config.source.uri, 'epub').catch(fail);
+  applyAppearance(config.appearance);
+  rendition.display((config.initialLocation && config.initialLocation.cfi) || undefined).catch(fail);
+
+  book.loaded.navigation.then(function (nav) {
+    post({ type: 'toc', items: flattenToc(nav.toc, 0, []) });
+  });
+
+  book.ready.then(function () {
+    return book.locations.generate(1600);
+  }).then(function (locations) {
+    totalPages = locations.length;
+    post({ type: 'ready', totalPages: totalPages });
+    var current = rendition.currentLocation();
+    if (current && current.start) reportLocation(current);
+  }).catch(fail);
+
+  function reportLocation(location) {
+    var cfi = location.start.cfi;
+    var index = totalPages ? book.locations.locationFromCfi(cfi) : 0;
+    post({
+      type: 'location',
+      cfi: cfi,
+      page: (index || 0) + 1,
+      totalPages: totalPages,
+      progress: totalPages ? book.locations.percentageFromCfi(cfi) : 0,
+    });
+  }
+
+  rendition.on('relocated', reportLocation);
+
+  rendition.on('selected', function (cfiRange) {
+    book.getRange(cfiRange).then(function (range) {
+      var text = range ? range.toString().trim() : '';
+      if (text) post({ type: 'selection', cfi: cfiRange, text: text });
+    });
+  });
+
+  var shownHighlights = [];
+  function setHighlights(highlights) {
+    shownHighlights.forEach(function (cfi) { rendition.annotations.remove(cfi, 'highlight'); });
+    shownHighlights = highlights.map(function (highlight) {
+      rendition.annotations.highlight(highlight.cfi, {}, function () {
+        post({ type: 'highlightPressed', id: highlight.id });
+      }, 'reader-highlight', { fill: highlight.color, 'fill-opacity': '0.35', 'mix-blend-mode': 'multiply' });
+      return highlight.cfi;
+    });
+  }
+
+  function clearSelection() {
+    rendition.getContents().forEach(function (contents) {
+      contents.window.getSelection().removeAllRanges();
+    });
+  }
+
+  window.reader = {
+    next: function () { rendition.next(); },
+    prev: function () { rendition.prev(); },
+    goTo: function (target) { rendition.display(String(target)); },
+    setAppearance: applyAppearance,
+    setHighlights: setHighlights,
+    clearSelection: clearSelection,
+  };
+`;
+
+export const buildReaderHtml = ({ format, source, appearance, initialLocation }: ReaderConfig): string => {
+  const config = JSON.stringify({ source, appearance, initialLocation }).replace(/</g, '\\u003c');
+  const isPdf = format === 'pdf';
+  const scripts = isPdf
+    ? `<script src="${PDF_JS_URL}"></script>`
+    : `<script src="${JSZIP_URL}"></script><script src="${EPUB_JS_URL}"></script>`;
+  const viewport = isPdf
+    ? 'width=device-width, initial-scale=1, maximum-scale=5, user-scalable=yes'
+    : 'width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="${viewport}" />
+  <style>
+    html, body { margin: 0; padding: 0; height: 100%; background: ${appearance.background}; }
+    #viewer { width: 100%; height: 100%; ${isPdf ? 'overflow: auto;' : 'overflow: hidden;'} }
+    #page { display: block; margin: 0 auto; filter: ${appearance.pageFilter}; }
+  </style>
+  ${scripts}
+</head>
+<body>
+  <div id="viewer">${isPdf ? '<canvas id="page"></canvas>' : ''}</div>
+  <script>
+    (function () {
+      var config = ${config};
+      function post(message) {
+        window.ReactNativeWebView.postMessage(JSON.stringify(message));
+      }
+      function fail(error) {
+        post({ type: 'error', message: (error && error.message) || String(error) });
+      }
+      window.onerror = function (message) { fail(message); };
+      try {
+        ${isPdf ? PDF_SCRIPT : EPUB_SCRIPT}
+        var reader = window.reader;
+        reader.run = function (command) {
+          if (command.name === 'goTo') reader.goTo(command.target);
+          else if (command.name === 'setAppearance') reader.setAppearance(command.appearance);
+          else if (command.name === 'setHighlights') reader.setHighlights(command.highlights);
+          else if (reader[command.name]) reader[command.name]();
+        };
+      } catch (error) {
+        fail(error);
+      }
+    })();
+  </script>
+</body>
+</html>`;
+};
@@ -0,0 +1,60 @@
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system';
+
+import epubScript from '@/assets/reader/epub.min.js.txt';
+import jszipScript from '@/assets/reader/jszip.min.js.txt';
+import pdfScript from '@/assets/reader/pdf.min.js.txt';
+import pdfWorkerScript from '@/assets/reader/pdf.worker.min.js.txt';
+
+/**
+ * The reader page is written to disk next to the pdf.js and epub.js builds
+ * that scripts/copy-reader-assets.js puts in assets/reader on install, and
+ * the WebView loads it from there. Books then open without a network and the
+ * reader runs no remote code.
+ */
+
+const READER_DIRECTORY = `${FileSystem.documentDirectory}reader/`;
+
+/** What the WebView may read: the page, its scripts and downloaded books. */
+export const READER_FILE_ACCESS_ROOT = FileSystem.documentDirectory ?? '';
+
+// Copied under their real names, which the page's relative script tags use.
+const READER_SCRIPTS: Record<string, number> = {
+  'pdf.min.js': pdfScript,
+  'pdf.worker.min.js': pdfWorkerScript,
+  'jszip.min.js': jszipScript,
+  'epub.min.js': epubScript,
+};
+
+// Copied once per launch, so an app update always replaces the previous builds.
+let scriptsReady: Promise<void> | null = null;
+
+const copyReaderScripts = async (): Promise<void> => {
+  await FileSystem.makeDirectoryAsync(READER_DIRECTORY, { intermediates: true });
+  await Promise.all(
+    Object.entries(READER_SCRIPTS).map(async ([name, moduleId]) => {
+      const asset = await Asset.fromModule(moduleId).downloadAsync();
+      if (!asset.localUri) {
+        throw new Error(`The reader script ${name} is missing.`);
+      }
+      const target = `${READER_DIRECTORY}${name}`;
+      await FileSystem.deleteAsync(target, { idempotent: true });
+      await FileSystem.copyAsync({ from: asset.localUri, to: target });
+    })
+  );
+};
+
+/** Writes the page built by `buildReaderHtml` and returns its file:// URI. */
+export const writeReaderPage = async (html: string): Promise<string> => {
+  if (!scriptsReady) {
+    scriptsReady = copyReaderScripts().catch((error) => {
+      scriptsReady = null;
+      throw error;
+    });
+  }
+  await scriptsReady;
+
+  const uri = `${READER_DIRECTORY}index.html`;
+  await FileSystem.writeAsStringAsync(uri, html);
+  return uri;
+};
@@ -0,0 +1,45 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type ReaderColorMode = 'app' | 'sepia';
+
+export interface ReaderPreferences {
+  /** 'app' follows the light/dark theme chosen in Settings. */
+  colorMode: ReaderColorMode;
+  /** EPUB font size as a percentage of the publisher's default. */
+  fontSize: number;
+  /** EPUB line height multiplier. */
+  lineHeight: number;
+}
+
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = {
+  colorMode: 'app',
+  fontSize: 100,
+  lineHeight: 1.5,
+};
+
+export const FONT_SIZE_RANGE = { min: 70, max: 200, step: 10 };
+export const LINE_HEIGHT_RANGE = { min: 1.2, max: 2.2, step: 0.1 };
+
+const READER_PREFERENCES_KEY = 'reader_preferences';
+
+export const getReaderPreferences = async (): Promise<ReaderPreferences> => {
+  try {
+    const data = await AsyncStorage.getItem(READER_PREFERENCES_KEY);
+    return data ? { ...DEFAULT_READER_PREFERENCES, ...JSON.parse(data) } : DEFAULT_READER_PREFERENCES;
+  } catch (error) {
+    console.error('Error getting reader preferences:', error);
+    return DEFAULT_READER_PREFERENCES;
+  }
+};
+
+export const storeReaderPreferences = async (preferences: ReaderPreferences): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(READER_PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Error storing reader preferences:', error);
+  }
+};
+
+export const clampPreference = (value: number, range: { min: number; max: number }): number => {
+  return Math.round(Math.min(range.max, Math.max(range.min, value)) * 10) / 10;
+};
@@ -0,0 +1,304 @@
+import { Book, BOOK_COLUMNS, normalizeCourseCode } from '@/lib/books';
+import { supabase } from '@/lib/supabase';
+
+export interface ReadingList {
+  id: string;
+  owner_id: string;
+  title: string;
+  course_code: string;
+  semester: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReadingListItem {
+  id: string;
+  list_id: string;
+  book_id: string;
+  position: number;
+  /** Which chapters or pages to read. */
+  note: string | null;
+  on_reserve: boolean;
+  /** Null when the title is hidden from the viewer, e.g. a faculty-only title. */
+  book: Book | null;
+}
+
+export interface ReadingListWithItems extends ReadingList {
+  items: ReadingListItem[];
+}
+
+/** A list as seen by the signed-in user. */
+export interface ReadingListSummary extends ReadingList {
+  followed: boolean;
+  /** Followed and changed since the user last opened it. */
+  hasUpdates: boolean;
+}
+
+export type ReadingListInput = Pick<ReadingList, 'title' | 'course_code' | 'semester' | 'description'>;
+
+export type ReadingListItemUpdate = Partial<Pick<ReadingListItem, 'note' | 'on_reserve'>>;
+
+// Must match public.reserve_loan_period().
+export const RESERVE_LOAN_DAYS = 3;
+
+const LISTS_TABLE = 'reading_lists';
+const ITEMS_TABLE = 'reading_list_items';
+const FOLLOWS_TABLE = 'reading_list_follows';
+const LIST_COLUMNS = 'id, owner_id, title, course_code, semester, description, created_at, updated_at';
+const ITEM_COLUMNS = 'id, list_id, book_id, position, note, on_reserve';
+
+interface FollowRow {
+  list_id: string;
+  last_seen_at: string;
+}
+
+const fetchFollowRows = async (userId: string): Promise<FollowRow[]> => {
+  const { data, error } = await supabase.from(FOLLOWS_TABLE).select('list_id, last_seen_at').eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as FollowRow[];
+};
+
+const summarize = (lists: ReadingList[], follows: FollowRow[]): ReadingListSummary[] => {
+  return lists.map((list) => {
+    const follow = follows.find((row) => row.list_id === list.id);
+    return {
+      ...list,
+      followed: !!follow,
+      hasUpdates: !!follow && new Date(list.updated_at).getTime() > new Date(follow.last_seen_at).getTime(),
+    };
+  });
+};
+
+/** All lists, optionally narrowed to a course code prefix, by course then semester. */
+export const fetchReadingLists = async (userId: string, courseCode = ''): Promise<ReadingListSummary[]> => {
+  let request = supabase
+    .from(LISTS_TABLE)
+    .select(LIST_COLUMNS)
+    .order('course_code', { ascending: true })
+    .order('created_at', { ascending: false });
+
+  const code = normalizeCourseCode(courseCode);
+  if (code) {
+    request = request.ilike('course_code', `${code}%`);
+  }
+
+  const [{ data, error }, follows] = await Promise.all([request, fetchFollowRows(userId)]);
+
+  if (error) {
+    throw error;
+  }
+  return summarize((data ?? []) as ReadingList[], follows);
+};
+
+/** Followed lists, most recently changed first. */
+export const fetchFollowedLists = async (userId: string): Promise<ReadingListSummary[]> => {
+  const follows = await fetchFollowRows(userId);
+  if (follows.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from(LISTS_TABLE)
+    .select(LIST_COLUMNS)
+    .in('id', follows.map((row) => row.list_id))
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return summarize((data ?? []) as ReadingList[], follows);
+};
+
+/** Lists owned by a faculty member, for adding titles from a book's page. */
+export const fetchOwnReadingLists = async (ownerId: string): Promise<ReadingList[]> => {
+  const { data, error } = await supabase
+    .from(LISTS_TABLE)
+    .select(LIST_COLUMNS)
+    .eq('owner_id', ownerId)
+    .order('course_code', { ascending: true })
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as ReadingList[];
+};
+
+/** Entries for a title on the owner's lists, keyed by list. */
+export const fetchOwnListItemsForBook = async (
+  ownerId: string,
+  bookId: string
+): Promise<{ id: string; list_id: string }[]> => {
+  const { data, error } = await supabase
+    .from(ITEMS_TABLE)
+    .select('id, list_id, list:reading_lists!inner(owner_id)')
+    .eq('book_id', bookId)
+    .eq('list.owner_id', ownerId);
+
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as unknown as { id: string; list_id: string }[]).map(({ id, list_id }) => ({ id, list_id }));
+};
+
+export const fetchReadingList = async (id: string): Promise<ReadingListWithItems | null> => {
+  const { data, error } = await supabase
+    .from(LISTS_TABLE)
+    .select(`${LIST_COLUMNS}, items:${ITEMS_TABLE}(${ITEM_COLUMNS}, book:books(${BOOK_COLUMNS}))`)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  const list = data as unknown as ReadingListWithItems;
+  return { ...list, items: [...list.items].sort((a, b) => a.position - b.position) };
+};
+
+export const followList = async (userId: string, listId: string): Promise<void> => {
+  const { error } = await supabase
+    .from(FOLLOWS_TABLE)
+    .upsert({ user_id: userId, list_id: listId }, { onConflict: 'user_id,list_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const unfollowList = async (userId: string, listId: string): Promise<void> => {
+  const { error } = await supabase.from(FOLLOWS_TABLE).delete().eq('user_id', userId).eq('list_id', listId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const isFollowingList = async (userId: string, listId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from(FOLLOWS_TABLE)
+    .select('list_id')
+    .eq('user_id', userId)
+    .eq('list_id', listId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return !!data;
+};
+
+/** Clears the update badge once the signed-in follower has opened the list, using the server's clock. */
+export const markListSeen = async (listId: string): Promise<void> => {
+  const { error } = await supabase.rpc('mark_reading_list_seen', { p_list_id: listId });
+
+  if (error) {
+    throw error;
+  }
+};
+
+/** Whether a title is on reserve for any course, and so lends for the shorter period. */
+export const isBookOnReserve = async (bookId: string): Promise<boolean> => {
+  const { count, error } = await supabase
+    .from(ITEMS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('book_id', bookId)
+    .eq('on_reserve', true);
+
+  if (error) {
+    throw error;
+  }
+  return (count ?? 0) > 0;
+};
+
+export const saveReadingList = async (
+  ownerId: string,
+  id: string | null,
+  input: ReadingListInput
+): Promise<ReadingList> => {
+  const values = {
+    title: input.title.trim(),
+    course_code: normalizeCourseCode(input.course_code),
+    semester: input.semester.trim(),
+    description: input.description?.trim() || null,
+  };
+  const request = id
+    ? supabase.from(LISTS_TABLE).update(values).eq('id', id)
+    : supabase.from(LISTS_TABLE).insert({ ...values, owner_id: ownerId });
+
+  const { data, error } = await request.select(LIST_COLUMNS).single();
+
+  if (error) {
+    throw error;
+  }
+  return data as ReadingList;
+};
+
+export const deleteReadingList = async (id: string): Promise<void> => {
+  const { error } = await supabase.from(LISTS_TABLE).delete().eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+};
+
+/** Adds a title at the end of the list. */
+export const addListItem = async (listId: string, bookId: string): Promise<string> => {
+  const { data: last, error: lastError } = await supabase
+    .from(ITEMS_TABLE)
+    .select('position')
+    .eq('list_id', listId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastError) {
+    throw lastError;
+  }
+
+  const { data, error } = await supabase
+    .from(ITEMS_TABLE)
+    .insert({ list_id: listId, book_id: bookId, position: (last?.position ?? -1) + 1 })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return data.id as string;
+};
+
+export const updateListItem = async (itemId: string, update: ReadingListItemUpdate): Promise<void> => {
+  const { error } = await supabase.from(ITEMS_TABLE).update(update).eq('id', itemId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const removeListItem = async (itemId: string): Promise<void> => {
+  const { error } = await supabase.from(ITEMS_TABLE).delete().eq('id', itemId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+/** Saves a new order, given the item IDs in the order they should appear. */
+export const reorderListItems = async (itemIds: string[]): Promise<void> => {
+  const results = await Promise.all(
+    itemIds.map((id, position) => supabase.from(ITEMS_TABLE).update({ position }).eq('id', id))
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) {
+    throw failed.error;
+  }
+};
@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { Book, BOOK_COLUMNS } from '@/lib/books';
+import { supabase } from '@/lib/supabase';
+
+export interface ReadingProgress {
+  book_id: string;
+  page: number | null;
+  total_pages: number | null;
+  /** EPUB location; null for PDFs. */
+  cfi: string | null;
+  /** Fraction of the book read, from 0 to 1. */
+  progress: number;
+  updated_at: string;
+}
+
+export interface ContinueReadingEntry {
+  book: Book;
+  progress: ReadingProgress;
+}
+
+interface LocalProgressEntry {
+  progress: ReadingProgress;
+  synced: boolean;
+}
+
+type LocalProgressMap = Record<string, LocalProgressEntry>;
+
+const PROGRESS_STORAGE_KEY = 'reading_progress';
+const PROGRESS_TABLE = 'reading_progress';
+const PROGRESS_COLUMNS = 'book_id, page, total_pages, cfi, progress, updated_at';
+// Books past this point are treated as finished and drop off "Continue reading".
+const FINISHED_THRESHOLD = 0.98;
+
+const storageKey = (userId: string) => `${PROGRESS_STORAGE_KEY}_${userId}`;
+
+const isNewer = (a: ReadingProgress, b: ReadingProgress): boolean => {
+  return new Date(a.updated_at).getTime() > new Date(b.updated_at).getTime();
+};
+
+const getLocalProgressMap = async (userId: string): Promise<LocalProgressMap> => {
+  try {
+    const data = await AsyncStorage.getItem(storageKey(userId));
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error('Error getting local reading progress:', error);
+    return {};
+  }
+};
+
+const storeLocalProgress = async (userId: string, entry: LocalProgressEntry): Promise<void> => {
+  try {
+    const map = await getLocalProgressMap(userId);
+    map[entry.progress.book_id] = entry;
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify(map));
+  } catch (error) {
+    console.error('Error storing local reading progress:', error);
+  }
+};
+
+const pushProgress = async (userId: string, progress: ReadingProgress): Promise<boolean> => {
+  const { error } = await supabase
+    .from(PROGRESS_TABLE)
+    .upsert({ user_id: userId, ...progress }, { onConflict: 'user_id,book_id' });
+
+  if (error) {
+    console.error('Error syncing reading progress:', error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Saves the position on the device first, then tries to sync it. Unsynced
+ * positions are retried by `syncPendingProgress`.
+ */
+export const saveProgress = async (
+  userId: string,
+  progress: Omit<ReadingProgress, 'updated_at'>
+): Promise<void> => {
+  const entry: ReadingProgress = { ...progress, updated_at: new Date().toISOString() };
+  await storeLocalProgress(userId, { progress: entry, synced: false });
+
+  try {
+    if (await pushProgress(userId, entry)) {
+      await storeLocalProgress(userId, { progress: entry, synced: true });
+    }
+  } catch (error) {
+    console.error('Error saving reading progress:', error);
+  }
+};
+
+/**
+ * Returns the most recent position for a book across this device and the
+ * server, and brings whichever side is stale up to date.
+ */
+export const getProgress = async (userId: string, bookId: string): Promise<ReadingProgress | null> => {
+  const local = (await getLocalProgressMap(userId))[bookId];
+
+  let remote: ReadingProgress | null = null;
+  try {
+    const { data, error } = await supabase
+      .from(PROGRESS_TABLE)
+      .select(PROGRESS_COLUMNS)
+      .eq('user_id', userId)
+      .eq('book_id', bookId)
+      .maybeSingle();
+    if (error) {
+      throw error;
+    }
+    remote = data as ReadingProgress | null;
+  } catch (error) {
+    console.error('Error fetching reading progress:', error);
+    return local?.progress ?? null;
+  }
+
+  if (remote && (!local || isNewer(remote, local.progress))) {
+    await storeLocalProgress(userId, { progress: remote, synced: true });
+    return remote;
+  }
+
+  if (local && !local.synced && (await pushProgress(userId, local.progress))) {
+    await storeLocalProgress(userId, { progress: local.progress, synced: true });
+  }
+  return local?.progress ?? null;
+};
+
+export const syncPendingProgress = async (userId: string): Promise<void> => {
+  const map = await getLocalProgressMap(userId);
+  for (const entry of Object.values(map)) {
+    if (!entry.synced && (await pushProgress(userId, entry.progress))) {
+      await storeLocalProgress(userId, { progress: entry.progress, synced: true });
+    }
+  }
+};
+
+export const fetchContinueReading = async (userId: string, limit = 10): Promise<ContinueReadingEntry[]> => {
+  await syncPendingProgress(userId);
+
+  const { data, error } = await supabase
+    .from(PROGRESS_TABLE)
+    .select(`${PROGRESS_COLUMNS}, book:books(${BOOK_COLUMNS})`)
+    .eq('user_id', userId)
+    .lt('progress', FINISHED_THRESHOLD)
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as (ReadingProgress & { book: Book | null })[])
+    .filter((row) => row.book)
+    .map(({ book, ...progress }) => ({ book: book as Book, progress }));
+};
@@ -0,0 +1,52 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { BookSearchFilters } from '@/lib/books';
+
+export interface RecentSearch {
+  query: string;
+  filters: BookSearchFilters;
+  searchedAt: number;
+}
+
+const RECENT_SEARCHES_KEY = 'recent_book_searches';
+const MAX_RECENT_SEARCHES = 10;
+
+const isSameSearch = (a: RecentSearch, b: Omit<RecentSearch, 'searchedAt'>): boolean => {
+  return (
+    a.query.trim().toLowerCase() === b.query.trim().toLowerCase() &&
+    JSON.stringify(a.filters) === JSON.stringify(b.filters)
+  );
+};
+
+export const getRecentSearches = async (): Promise<RecentSearch[]> => {
+  try {
+    const data = await AsyncStorage.getItem(RECENT_SEARCHES_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error getting recent searches:', error);
+    return [];
+  }
+};
+
+export const addRecentSearch = async (search: Omit<RecentSearch, 'searchedAt'>): Promise<RecentSearch[]> => {
+  try {
+    const existing = await getRecentSearches();
+    const updated = [
+      { ...search, searchedAt: Date.now() },
+      ...existing.filter((item) => !isSameSearch(item, search)),
+    ].slice(0, MAX_RECENT_SEARCHES);
+    await AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(updated));
+    return updated;
+  } catch (error) {
+    console.error('Error storing recent search:', error);
+    return [];
+  }
+};
+
+export const clearRecentSearches = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(RECENT_SEARCHES_KEY);
+  } catch (error) {
+    console.error('Error clearing recent searches:', error);
+  }
+};
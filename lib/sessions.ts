@@ -0,0 +1,81 @@
+import { Session } from '@supabase/supabase-js';
+import * as Application from 'expo-application';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import { Platform } from 'react-native';
+
+import { supabase } from '@/lib/supabase';
+
+export type SignOutScope = 'local' | 'others' | 'global';
+
+export interface UserSession {
+  session_id: string;
+  user_id: string;
+  platform: string;
+  device_name: string | null;
+  app_version: string | null;
+  created_at: string;
+  last_seen_at: string;
+}
+
+const SESSIONS_TABLE = 'user_sessions';
+
+/** Reads the auth session id from the access token's `session_id` claim. */
+export const getSessionId = (session: Session): string | null => {
+  try {
+    const payload = session.access_token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload.padEnd(payload.length + ((4 - (payload.length % 4)) % 4), '=')));
+    return typeof claims.session_id === 'string' ? claims.session_id : null;
+  } catch (error) {
+    console.error('Error reading session id:', error);
+    return null;
+  }
+};
+
+const getDeviceName = (): string | null => {
+  if (Platform.OS === 'web') {
+    return 'Web browser';
+  }
+  return Device.deviceName ?? Device.modelName ?? null;
+};
+
+const getAppVersion = (): string | null => {
+  return Application.nativeApplicationVersion ?? Constants.expoConfig?.version ?? null;
+};
+
+/** Records this device against the session and bumps its last-seen time. */
+export const recordSession = async (session: Session): Promise<void> => {
+  const sessionId = getSessionId(session);
+  if (!sessionId) return;
+
+  const { error } = await supabase.from(SESSIONS_TABLE).upsert({
+    session_id: sessionId,
+    user_id: session.user.id,
+    platform: Platform.OS,
+    device_name: getDeviceName(),
+    app_version: getAppVersion(),
+    last_seen_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw error;
+  }
+};
+
+/** Sessions that are still live, most recently used first. */
+export const fetchSessions = async (): Promise<UserSession[]> => {
+  const { data, error } = await supabase.rpc('list_my_sessions');
+
+  if (error) {
+    throw error;
+  }
+  return (data as UserSession[]) ?? [];
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  const { error } = await supabase.rpc('revoke_user_session', { p_session_id: sessionId });
+
+  if (error) {
+    throw error;
+  }
+};
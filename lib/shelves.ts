@@ -0,0 +1,177 @@
+import { Book, BOOK_COLUMNS } from '@/lib/books';
+import { supabase } from '@/lib/supabase';
+
+export type ShelfKind = 'want_to_read' | 'reading' | 'finished' | 'custom';
+
+export interface Shelf {
+  id: string;
+  name: string;
+  kind: ShelfKind;
+  position: number;
+  created_at: string;
+}
+
+export interface ShelfWithBooks extends Shelf {
+  books: Book[];
+}
+
+export const BUILT_IN_SHELVES: { kind: Exclude<ShelfKind, 'custom'>; name: string }[] = [
+  { kind: 'want_to_read', name: 'Want to read' },
+  { kind: 'reading', name: 'Reading' },
+  { kind: 'finished', name: 'Finished' },
+];
+
+const SHELVES_TABLE = 'shelves';
+const SHELF_BOOKS_TABLE = 'shelf_books';
+const SHELF_COLUMNS = 'id, name, kind, position, created_at';
+const UNIQUE_VIOLATION = '23505';
+
+const fetchShelfRows = async (userId: string): Promise<Shelf[]> => {
+  const { data, error } = await supabase
+    .from(SHELVES_TABLE)
+    .select(SHELF_COLUMNS)
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Shelf[];
+};
+
+/**
+ * Built-in shelves are created the first time a user opens their library, so
+ * accounts that predate shelves get them too.
+ */
+const ensureBuiltInShelves = async (userId: string, shelves: Shelf[]): Promise<boolean> => {
+  const missing = BUILT_IN_SHELVES.filter(({ kind }) => !shelves.some((shelf) => shelf.kind === kind));
+  if (missing.length === 0) {
+    return false;
+  }
+
+  const { error } = await supabase.from(SHELVES_TABLE).insert(
+    missing.map(({ kind, name }) => ({
+      user_id: userId,
+      kind,
+      name,
+      position: BUILT_IN_SHELVES.findIndex((shelf) => shelf.kind === kind),
+    }))
+  );
+
+  // Another device may have created them at the same moment.
+  if (error && error.code !== UNIQUE_VIOLATION) {
+    throw error;
+  }
+  return true;
+};
+
+export const fetchShelves = async (userId: string): Promise<Shelf[]> => {
+  const shelves = await fetchShelfRows(userId);
+  if (await ensureBuiltInShelves(userId, shelves)) {
+    return fetchShelfRows(userId);
+  }
+  return shelves;
+};
+
+export const fetchShelvesWithBooks = async (userId: string): Promise<ShelfWithBooks[]> => {
+  const shelves = await fetchShelves(userId);
+  if (shelves.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from(SHELF_BOOKS_TABLE)
+    .select(`shelf_id, book:books(${BOOK_COLUMNS})`)
+    .in('shelf_id', shelves.map((shelf) => shelf.id))
+    .order('added_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data ?? []) as unknown as { shelf_id: string; book: Book | null }[];
+  return shelves.map((shelf) => ({
+    ...shelf,
+    books: rows.filter((row) => row.shelf_id === shelf.id && row.book).map((row) => row.book as Book),
+  }));
+};
+
+/**
+ * Returns the user's shelves that contain the book.
+ */
+export const fetchShelvesForBook = async (userId: string, bookId: string): Promise<Shelf[]> => {
+  const { data, error } = await supabase
+    .from(SHELF_BOOKS_TABLE)
+    .select(`shelf:shelves!inner(${SHELF_COLUMNS})`)
+    .eq('book_id', bookId)
+    .eq('shelf.user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as unknown as { shelf: Shelf }[])
+    .map((row) => row.shelf)
+    .sort((a, b) => a.position - b.position);
+};
+
+export const createShelf = async (userId: string, name: string, position: number): Promise<Shelf> => {
+  const { data, error } = await supabase
+    .from(SHELVES_TABLE)
+    .insert({ user_id: userId, name: name.trim(), kind: 'custom', position })
+    .select(SHELF_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return data as Shelf;
+};
+
+export const renameShelf = async (shelfId: string, name: string): Promise<void> => {
+  const { error } = await supabase.from(SHELVES_TABLE).update({ name: name.trim() }).eq('id', shelfId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const deleteShelf = async (shelfId: string): Promise<void> => {
+  const { error } = await supabase.from(SHELVES_TABLE).delete().eq('id', shelfId).eq('kind', 'custom');
+
+  if (error) {
+    throw error;
+  }
+};
+
+/**
+ * Saves the given order, where each shelf's position is its index in the list.
+ */
+export const reorderShelves = async (shelfIds: string[]): Promise<void> => {
+  const results = await Promise.all(
+    shelfIds.map((id, position) => supabase.from(SHELVES_TABLE).update({ position }).eq('id', id))
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) {
+    throw failed.error;
+  }
+};
+
+export const addBookToShelf = async (shelfId: string, bookId: string): Promise<void> => {
+  const { error } = await supabase
+    .from(SHELF_BOOKS_TABLE)
+    .upsert({ shelf_id: shelfId, book_id: bookId }, { onConflict: 'shelf_id,book_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const removeBookFromShelf = async (shelfId: string, bookId: string): Promise<void> => {
+  const { error } = await supabase.from(SHELF_BOOKS_TABLE).delete().eq('shelf_id', shelfId).eq('book_id', bookId);
+
+  if (error) {
+    throw error;
+  }
+};
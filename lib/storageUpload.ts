@@ -0,0 +1,124 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+
+import { supabase, supabaseAnonKey, supabaseUrl } from '@/lib/supabase';
+
+export interface UploadOptions {
+  bucket: string;
+  path: string;
+  fileUri: string;
+  contentType: string;
+  /** Receives the uploaded fraction, from 0 to 1. */
+  onProgress?: (fraction: number) => void;
+  /** Extra attempts after the first one fails with a network or server error. */
+  retries?: number;
+}
+
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    /** False for errors that will fail again, such as a rejected file. */
+    public retryable: boolean
+  ) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+const DEFAULT_RETRIES = 2;
+const RETRY_DELAY_MS = 1500;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const parseErrorMessage = (body: string): string => {
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.message || parsed.error || body;
+  } catch {
+    return body || 'Upload failed.';
+  }
+};
+
+// The web build has no native upload task, so it falls back to the client
+// library, which does not report progress.
+const uploadOnWeb = async ({ bucket, path, fileUri, contentType, onProgress }: UploadOptions): Promise<void> => {
+  const blob = await (await fetch(fileUri)).blob();
+  const { error } = await supabase.storage.from(bucket).upload(path, blob, { contentType, upsert: true });
+  if (error) {
+    throw new UploadError(error.message, true);
+  }
+  onProgress?.(1);
+};
+
+const uploadOnce = async ({ bucket, path, fileUri, contentType, onProgress }: UploadOptions): Promise<void> => {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    throw new UploadError('You need to be signed in to upload files.', false);
+  }
+
+  // Storage's REST endpoint is used directly because the client library
+  // cannot stream a local file or report upload progress.
+  const task = FileSystem.createUploadTask(
+    `${supabaseUrl}/storage/v1/object/${bucket}/${path}`,
+    fileUri,
+    {
+      httpMethod: 'POST',
+      uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        apikey: supabaseAnonKey,
+        'Content-Type': contentType,
+        'x-upsert': 'true',
+      },
+    },
+    ({ totalBytesSent, totalBytesExpectedToSend }) => {
+      if (totalBytesExpectedToSend > 0) {
+        onProgress?.(totalBytesSent / totalBytesExpectedToSend);
+      }
+    }
+  );
+
+  let result: FileSystem.FileSystemUploadResult | null | undefined;
+  try {
+    result = await task.uploadAsync();
+  } catch (error) {
+    throw new UploadError(error instanceof Error ? error.message : 'Network error during upload.', true);
+  }
+
+  if (!result) {
+    throw new UploadError('The upload was cancelled.', false);
+  }
+  if (result.status < 200 || result.status >= 300) {
+    throw new UploadError(parseErrorMessage(result.body), result.status >= 500 || result.status === 429);
+  }
+  onProgress?.(1);
+};
+
+/**
+ * Uploads a local file to Supabase Storage, overwriting any object at `path`.
+ * Network and server errors are retried with a growing delay.
+ */
+export const uploadFile = async (options: UploadOptions): Promise<void> => {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      options.onProgress?.(0);
+      if (Platform.OS === 'web') {
+        await uploadOnWeb(options);
+      } else {
+        await uploadOnce(options);
+      }
+      return;
+    } catch (error) {
+      const retryable = !(error instanceof UploadError) || error.retryable;
+      if (!retryable || attempt >= retries) {
+        throw error;
+      }
+      console.error(`Upload attempt ${attempt + 1} failed, retrying:`, error);
+      await wait(RETRY_DELAY_MS * (attempt + 1));
+    }
+  }
+};
@@ -0,0 +1,9 @@
+// Learn more https://docs.expo.dev/guides/customizing-metro
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// The reader's WebView scripts in assets/reader are bundled as files, not modules.
+config.resolver.assetExts.push('txt');
+
+module.exports = config;
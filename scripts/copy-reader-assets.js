@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+
+/**
+ * Copies the pdf.js, JSZip and epub.js builds used by the in-app reader into
+ * assets/reader. They ship with the app as raw assets (hence the .txt
+ * extension Metro bundles as-is) so books open offline and the reader never
+ * runs remote code. It runs on postinstall, so the copies always match the
+ * installed devDependencies and are not committed.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const root = process.cwd();
+const targetDir = path.join(root, "assets", "reader");
+
+const files = [
+  ["pdfjs-dist/build/pdf.min.js", "pdf.min.js.txt"],
+  ["pdfjs-dist/build/pdf.worker.min.js", "pdf.worker.min.js.txt"],
+  ["jszip/dist/jszip.min.js", "jszip.min.js.txt"],
+  ["epubjs/dist/epub.min.js", "epub.min.js.txt"],
+];
+
+fs.mkdirSync(targetDir, { recursive: true });
+
+for (const [source, target] of files) {
+  fs.copyFileSync(require.resolve(source), path.join(targetDir, target));
+  console.log(`📄 ${source} -> assets/reader/${target}`);
+}
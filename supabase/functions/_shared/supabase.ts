@@ -0,0 +1,18 @@
+import { createClient, SupabaseClient, User } from 'jsr:@supabase/supabase-js@2';
+
+/** Service-role client. Bypasses RLS, so only use it after checking the caller. */
+export const createAdminClient = (): SupabaseClient => {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
+
+/** Resolves the user behind the request's bearer token, or null if it is missing or invalid. */
+export const getRequestUser = async (request: Request): Promise<User | null> => {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await createAdminClient().auth.getUser(token);
+  if (error) return null;
+  return data.user;
+};
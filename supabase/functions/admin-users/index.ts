@@ -0,0 +1,206 @@
+// Account administration for admins: search users and confirm, resend,
+// ban, change roles or clear rate limits. Callers must be admins on an aal2
+// session. Every action is written to admin_audit_log before it runs, and
+// failures are noted on the same row.
+
+import { SupabaseClient, User } from 'jsr:@supabase/supabase-js@2';
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, getRequestUser } from '../_shared/supabase.ts';
+
+const ROLES = ['student', 'faculty', 'librarian', 'admin'];
+const SEARCH_LIMIT = 25;
+// Supabase has no permanent ban, so a ban lasts a hundred years.
+const BAN_DURATION = '876000h';
+
+type Action = 'resend_confirmation' | 'confirm_email' | 'ban' | 'unban' | 'set_role' | 'reset_rate_limits';
+
+interface RequestBody {
+  action?: 'search' | Action;
+  query?: string;
+  userId?: string;
+  role?: string;
+}
+
+// The token has already been verified by getRequestUser.
+const getAssuranceLevel = (request: Request): string | null => {
+  try {
+    const token = request.headers.get('Authorization')!.replace(/^Bearer\s+/i, '');
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload.padEnd(payload.length + ((4 - (payload.length % 4)) % 4), '='))).aal ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const toAdminUser = (user: User, profile: Record<string, unknown> | undefined) => ({
+  id: user.id,
+  email: user.email ?? null,
+  full_name: profile?.full_name ?? null,
+  role: profile?.role ?? 'student',
+  approval_status: profile?.approval_status ?? null,
+  email_confirmed_at: user.email_confirmed_at ?? null,
+  banned_until: (user as User & { banned_until?: string }).banned_until ?? null,
+  last_sign_in_at: user.last_sign_in_at ?? null,
+  created_at: user.created_at,
+});
+
+const searchUsers = async (admin: SupabaseClient, query: string): Promise<Response> => {
+  let request = admin
+    .from('profiles')
+    .select('id, full_name, role, approval_status')
+    .order('created_at', { ascending: false })
+    .limit(SEARCH_LIMIT);
+
+  const term = query.trim().replace(/[%,()]/g, '');
+  if (term) {
+    request = request.or(`email.ilike.%${term}%,full_name.ilike.%${term}%,member_id.ilike.%${term}%`);
+  }
+
+  const { data: profiles, error } = await request;
+  if (error) {
+    console.error('Error searching profiles:', error);
+    return jsonResponse({ error: 'Could not search users' }, 500);
+  }
+
+  const users = await Promise.all(
+    (profiles ?? []).map(async (profile) => {
+      const { data } = await admin.auth.admin.getUserById(profile.id);
+      return data.user ? toAdminUser(data.user, profile) : null;
+    })
+  );
+
+  return jsonResponse({ users: users.filter(Boolean) });
+};
+
+const runAction = async (admin: SupabaseClient, action: Action, target: User, body: RequestBody): Promise<string | null> => {
+  switch (action) {
+    case 'resend_confirmation': {
+      if (target.email_confirmed_at) return 'This email is already confirmed';
+      const { error } = await admin.auth.resend({ type: 'signup', email: target.email! });
+      return error?.message ?? null;
+    }
+    case 'confirm_email': {
+      const { error } = await admin.auth.admin.updateUserById(target.id, { email_confirm: true });
+      return error?.message ?? null;
+    }
+    case 'ban':
+    case 'unban': {
+      const { error } = await admin.auth.admin.updateUserById(target.id, {
+        ban_duration: action === 'ban' ? BAN_DURATION : 'none',
+      });
+      return error?.message ?? null;
+    }
+    case 'set_role': {
+      if (!body.role || !ROLES.includes(body.role)) return 'Unknown role';
+      const { error } = await admin.from('profiles').update({ role: body.role }).eq('id', target.id);
+      return error?.message ?? null;
+    }
+    case 'reset_rate_limits': {
+      // Clears the address's own counters and the devices it was tried from.
+      const email = target.email!.toLowerCase();
+      const { data: deviceRows, error: lookupError } = await admin
+        .from('rate_limit_events')
+        .select('subject')
+        .eq('email', email)
+        .like('subject', 'device:%');
+      if (lookupError) return lookupError.message;
+
+      const deviceSubjects = [...new Set((deviceRows ?? []).map((row) => row.subject as string))];
+      const results = await Promise.all([
+        admin.from('rate_limit_events').delete().eq('email', email),
+        admin.from('rate_limit_blocks').delete().eq('email', email),
+        admin.from('rate_limit_events').delete().in('subject', deviceSubjects),
+        admin.from('rate_limit_blocks').delete().in('subject', deviceSubjects),
+      ]);
+      return results.find((result) => result.error)?.error?.message ?? null;
+    }
+  }
+};
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const caller = await getRequestUser(request);
+  if (!caller) {
+    return jsonResponse({ error: 'Not signed in' }, 401);
+  }
+
+  const admin = createAdminClient();
+  const { data: callerProfile } = await admin.from('profiles').select('role').eq('id', caller.id).maybeSingle();
+  if (callerProfile?.role !== 'admin') {
+    return jsonResponse({ error: 'Only administrators can manage users' }, 403);
+  }
+  if (getAssuranceLevel(request) !== 'aal2') {
+    return jsonResponse({ error: 'Verify this session with your authenticator first' }, 403);
+  }
+
+  let body: RequestBody;
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+
+  if (body.action === 'search') {
+    return searchUsers(admin, body.query ?? '');
+  }
+  if (!body.action || !body.userId) {
+    return jsonResponse({ error: 'An action and user are required' }, 400);
+  }
+
+  const action = body.action;
+  if ((action === 'ban' || action === 'set_role') && body.userId === caller.id) {
+    return jsonResponse({ error: 'You cannot ban yourself or change your own role' }, 400);
+  }
+
+  const { data: target, error: targetError } = await admin.auth.admin.getUserById(body.userId);
+  if (targetError || !target.user) {
+    return jsonResponse({ error: 'User not found' }, 404);
+  }
+
+  // The audit row is written first, so nothing runs without a record of it.
+  const details = action === 'set_role' ? { role: body.role } : {};
+  const { data: auditRow, error: auditError } = await admin
+    .from('admin_audit_log')
+    .insert({
+      actor_id: caller.id,
+      target_user_id: target.user.id,
+      target_email: target.user.email,
+      action,
+      details,
+    })
+    .select('id')
+    .single();
+  if (auditError) {
+    console.error('Error writing audit log:', auditError);
+    return jsonResponse({ error: 'Could not record this action, so it was not performed' }, 500);
+  }
+
+  const failure = await runAction(admin, action, target.user, body);
+  if (failure) {
+    console.error(`Error running ${action}:`, failure);
+    const { error: outcomeError } = await admin
+      .from('admin_audit_log')
+      .update({ details: { ...details, error: failure } })
+      .eq('id', auditRow.id);
+    if (outcomeError) {
+      console.error('Error recording failed action:', outcomeError);
+    }
+    return jsonResponse({ error: failure }, 400);
+  }
+
+  const { data: profile } = await admin
+    .from('profiles')
+    .select('full_name, role, approval_status')
+    .eq('id', target.user.id)
+    .maybeSingle();
+  const { data: updated } = await admin.auth.admin.getUserById(target.user.id);
+
+  return jsonResponse({ user: toAdminUser(updated.user ?? target.user, profile ?? undefined) });
+});
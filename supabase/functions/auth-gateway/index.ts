@@ -0,0 +1,212 @@
+// Signed-out auth calls: password sign-in, email sign-in codes, sign-up,
+// resending codes and password resets. Each attempt is counted with
+// check_rate_limit before this function makes the auth call itself, so the
+// limits cannot be skipped by the app. Attempts are keyed on the email with
+// the caller's address as the server sees it, and on the app's device id.
+// A { action: 'status' } request reports the limit for another action without
+// counting an attempt; the app's checkRateLimit uses it.
+//
+// Only calls made here are counted. Someone calling the auth API directly with
+// the anon key skips these limits and is held only by Supabase Auth's own
+// per-address rate limits, which are set in the project's Auth settings.
+
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabase.ts';
+
+type Action = 'login' | 'email_code' | 'register' | 'resend' | 'password_reset';
+type ResendType = 'signup' | 'email_change' | 'login' | 'recovery';
+
+// Rows in rate_limit_config; both ways of signing in share the login limit.
+const RATE_LIMIT_ACTIONS: Record<Action, string> = {
+  login: 'login',
+  email_code: 'login',
+  register: 'register',
+  resend: 'resend',
+  password_reset: 'password_reset',
+};
+
+const RESEND_TYPES: ResendType[] = ['signup', 'email_change', 'login', 'recovery'];
+
+const MEMBER_ID_NOT_FOUND =
+  'That student or staff ID is not on the library roster for this email. Check it, or leave it blank to request approval from a librarian.';
+
+interface GatewayRequest {
+  action: Action;
+  email: string;
+  password: string;
+  fullName: string;
+  memberId: string;
+  resendType: ResendType;
+  redirectTo?: string;
+  deviceId: string;
+}
+
+/**
+ * Anon-key client for the auth calls. The code verifier of a PKCE flow would
+ * stay on this server, so the sign-in email links back to the app with a
+ * token hash, which the app verifies itself (see lib/oauth.ts).
+ */
+const createAuthClient = (): SupabaseClient => {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false, flowType: 'implicit' },
+  });
+};
+
+const getClientAddress = (request: Request): string => {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
+};
+
+const RATE_LIMITED_ACTIONS = Object.values(RATE_LIMIT_ACTIONS);
+
+const getRateLimitStatus = async (request: Request, body: Record<string, unknown>): Promise<Response> => {
+  const limitAction = String(body.limit_action ?? '');
+  const email = String(body.email ?? '').trim().toLowerCase();
+  if (!RATE_LIMITED_ACTIONS.includes(limitAction)) {
+    return jsonResponse({ error: 'Unknown action' }, 400);
+  }
+  if (!email) {
+    return jsonResponse({ error: 'Please enter your email address' }, 400);
+  }
+
+  const { data, error } = await createAdminClient().rpc('rate_limit_status', {
+    p_action: limitAction,
+    p_email: email,
+    p_ip: getClientAddress(request),
+    p_device_id: String(body.device_id ?? '').slice(0, 200),
+  });
+  if (error) {
+    console.error('Error reading rate limit:', error);
+    return jsonResponse({ error: 'Could not check the rate limit' }, 500);
+  }
+  return jsonResponse(data);
+};
+
+const parseRequest = (body: Record<string, unknown>): GatewayRequest | null => {
+  const action = body.action as Action;
+  if (!Object.keys(RATE_LIMIT_ACTIONS).includes(action)) return null;
+
+  const resendType = body.resend_type as ResendType;
+  if (action === 'resend' && !RESEND_TYPES.includes(resendType)) return null;
+
+  return {
+    action,
+    email: String(body.email ?? '').trim().toLowerCase(),
+    password: String(body.password ?? ''),
+    fullName: String(body.full_name ?? '').trim(),
+    memberId: String(body.member_id ?? '').trim(),
+    resendType,
+    redirectTo: typeof body.redirect_to === 'string' ? body.redirect_to : undefined,
+    deviceId: String(body.device_id ?? '').slice(0, 200),
+  };
+};
+
+const sendSignInCode = (auth: SupabaseClient, email: string, redirectTo?: string) => {
+  // Only existing accounts; new users still go through sign-up.
+  return auth.auth.signInWithOtp({ email, options: { shouldCreateUser: false, emailRedirectTo: redirectTo } });
+};
+
+const runAction = async (params: GatewayRequest): Promise<Response> => {
+  const auth = createAuthClient();
+  const { email, password } = params;
+
+  switch (params.action) {
+    case 'login': {
+      const { data, error } = await auth.auth.signInWithPassword({ email, password });
+      if (error) return jsonResponse({ error: error.message }, 400);
+      const { access_token, refresh_token } = data.session;
+      return jsonResponse({ session: { access_token, refresh_token } });
+    }
+    case 'email_code': {
+      const { error } = await sendSignInCode(auth, email, params.redirectTo);
+      if (error) return jsonResponse({ error: error.message }, 400);
+      return jsonResponse({ ok: true });
+    }
+    case 'register': {
+      // Checked here rather than by the app so the register limit covers it.
+      if (params.memberId) {
+        const { data: onRoster, error: rosterError } = await createAdminClient().rpc('verify_member_id', {
+          p_member_id: params.memberId,
+          p_email: email,
+        });
+        if (rosterError) {
+          console.error('Error checking member ID:', rosterError);
+          return jsonResponse({ error: 'Could not check the student or staff ID' }, 500);
+        }
+        if (onRoster !== true) {
+          return jsonResponse({ error: MEMBER_ID_NOT_FOUND }, 400);
+        }
+      }
+      const { error } = await auth.auth.signUp({
+        email,
+        password,
+        options: { data: { full_name: params.fullName, member_id: params.memberId || undefined } },
+      });
+      if (error) return jsonResponse({ error: error.message }, 400);
+      return jsonResponse({ ok: true });
+    }
+    case 'resend': {
+      // Each code is resent with the call that first sent it.
+      const { error } =
+        params.resendType === 'login'
+          ? await sendSignInCode(auth, email, params.redirectTo)
+          : params.resendType === 'recovery'
+            ? await auth.auth.resetPasswordForEmail(email)
+            : await auth.auth.resend({ type: params.resendType, email });
+      if (error) return jsonResponse({ error: error.message }, 400);
+      return jsonResponse({ ok: true });
+    }
+    case 'password_reset': {
+      const { error } = await auth.auth.resetPasswordForEmail(email);
+      if (error) return jsonResponse({ error: error.message }, 400);
+      return jsonResponse({ ok: true });
+    }
+  }
+};
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+  if (body.action === 'status') {
+    return getRateLimitStatus(request, body);
+  }
+
+  const params = parseRequest(body);
+  if (!params) {
+    return jsonResponse({ error: 'Unknown action' }, 400);
+  }
+  if (!params.email) {
+    return jsonResponse({ error: 'Please enter your email address' }, 400);
+  }
+  if ((params.action === 'login' || params.action === 'register') && !params.password) {
+    return jsonResponse({ error: 'Please enter your password' }, 400);
+  }
+
+  const { data: limit, error: limitError } = await createAdminClient().rpc('check_rate_limit', {
+    p_action: RATE_LIMIT_ACTIONS[params.action],
+    p_email: params.email,
+    p_ip: getClientAddress(request),
+    p_device_id: params.deviceId,
+  });
+  if (limitError) {
+    console.error('Error checking rate limit:', limitError);
+    return jsonResponse({ error: 'Could not check the rate limit' }, 500);
+  }
+  if (!limit.allowed) {
+    return jsonResponse({ error: 'Too many attempts', wait_seconds: limit.wait_seconds }, 429);
+  }
+
+  return runAction(params);
+});
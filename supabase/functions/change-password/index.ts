@@ -0,0 +1,72 @@
+// Changes the signed-in user's password. The current password is checked here
+// on a throwaway client, so a session alone is not enough, and attempts are
+// counted with check_rate_limit so it cannot be guessed through this function.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, getRequestUser } from '../_shared/supabase.ts';
+
+const isPasswordCorrect = async (email: string, password: string): Promise<boolean> => {
+  const verifier = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { error } = await verifier.auth.signInWithPassword({ email, password });
+  if (error) return false;
+
+  await verifier.auth.signOut({ scope: 'local' });
+  return true;
+};
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const user = await getRequestUser(request);
+  if (!user?.email) {
+    return jsonResponse({ error: 'Not signed in' }, 401);
+  }
+
+  let body: { current_password?: string; new_password?: string; device_id?: string };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+
+  const currentPassword = String(body.current_password ?? '');
+  const newPassword = String(body.new_password ?? '');
+  if (!currentPassword || !newPassword) {
+    return jsonResponse({ error: 'Please fill in all password fields' }, 400);
+  }
+
+  const admin = createAdminClient();
+  const { data: limit, error: limitError } = await admin.rpc('check_rate_limit', {
+    p_action: 'change_password',
+    p_email: user.email,
+    p_ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown',
+    p_device_id: String(body.device_id ?? '').slice(0, 200),
+  });
+  if (limitError) {
+    console.error('Error checking rate limit:', limitError);
+    return jsonResponse({ error: 'Could not check the rate limit' }, 500);
+  }
+  if (!limit.allowed) {
+    return jsonResponse({ error: 'Too many attempts', wait_seconds: limit.wait_seconds }, 429);
+  }
+
+  if (!(await isPasswordCorrect(user.email, currentPassword))) {
+    return jsonResponse({ error: 'Your current password is incorrect.' }, 403);
+  }
+
+  const { error } = await admin.auth.admin.updateUserById(user.id, { password: newPassword });
+  if (error) {
+    return jsonResponse({ error: error.message }, 400);
+  }
+
+  return jsonResponse({ ok: true });
+});
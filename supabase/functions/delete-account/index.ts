@@ -0,0 +1,142 @@
+// Account deletion with a grace period.
+//  - A signed-in user posts their password, or for accounts without one the
+//    sign-in code emailed to them; it is checked here rather than trusted
+//    from the app, counted against the delete_account rate limit, and their
+//    profile is marked for deletion.
+//  - The nightly cron job posts { action: 'purge' } with the service role key;
+//    every account whose date has passed is deleted with the admin API, which
+//    cascades to their rows, and their avatar files are removed.
+
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, getRequestUser } from '../_shared/supabase.ts';
+
+// Must match ACCOUNT_DELETION_GRACE_DAYS in lib/account.ts.
+const GRACE_DAYS = 14;
+const AVATARS_BUCKET = 'avatars';
+
+interface Confirmation {
+  password?: string;
+  code?: string;
+}
+
+/** Signs in on a throwaway client with the password or emailed code, leaving the caller's session alone. */
+const isConfirmationCorrect = async (email: string, { password, code }: Confirmation): Promise<boolean> => {
+  const verifier = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { error } = password
+    ? await verifier.auth.signInWithPassword({ email, password })
+    : await verifier.auth.verifyOtp({ email, token: code!, type: 'email' });
+  if (error) return false;
+
+  await verifier.auth.signOut({ scope: 'local' });
+  return true;
+};
+
+const removeAvatars = async (admin: SupabaseClient, userId: string): Promise<void> => {
+  const { data: files } = await admin.storage.from(AVATARS_BUCKET).list(userId);
+  if (!files?.length) return;
+
+  const { error } = await admin.storage.from(AVATARS_BUCKET).remove(files.map((file) => `${userId}/${file.name}`));
+  if (error) {
+    console.error('Error removing avatar:', error);
+  }
+};
+
+const purgeDueAccounts = async (admin: SupabaseClient): Promise<Response> => {
+  const { data: due, error } = await admin
+    .from('profiles')
+    .select('id')
+    .lte('deletion_scheduled_for', new Date().toISOString());
+
+  if (error) {
+    console.error('Error listing accounts to delete:', error);
+    return jsonResponse({ error: 'Could not list accounts' }, 500);
+  }
+
+  let deleted = 0;
+  for (const { id } of due ?? []) {
+    await removeAvatars(admin, id);
+    const { error: deleteError } = await admin.auth.admin.deleteUser(id);
+    if (deleteError) {
+      console.error(`Error deleting account ${id}:`, deleteError);
+      continue;
+    }
+    deleted++;
+  }
+
+  return jsonResponse({ deleted });
+};
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  let body: { action?: string; password?: string; code?: string; device_id?: string };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+
+  const admin = createAdminClient();
+
+  if (body.action === 'purge') {
+    const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      return jsonResponse({ error: 'Forbidden' }, 403);
+    }
+    return purgeDueAccounts(admin);
+  }
+
+  const user = await getRequestUser(request);
+  if (!user?.email) {
+    return jsonResponse({ error: 'Not signed in' }, 401);
+  }
+
+  const confirmation: Confirmation = {
+    password: String(body.password ?? ''),
+    code: String(body.code ?? '').trim(),
+  };
+  if (!confirmation.password && !confirmation.code) {
+    return jsonResponse({ error: 'Enter your password or the code we emailed you' }, 400);
+  }
+
+  // A stolen session must not be able to guess the password or code freely.
+  const { data: limit, error: limitError } = await admin.rpc('check_rate_limit', {
+    p_action: 'delete_account',
+    p_email: user.email,
+    p_ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown',
+    p_device_id: String(body.device_id ?? '').slice(0, 200),
+  });
+  if (limitError) {
+    console.error('Error checking rate limit:', limitError);
+    return jsonResponse({ error: 'Could not check the rate limit' }, 500);
+  }
+  if (!limit.allowed) {
+    return jsonResponse({ error: 'Too many attempts', wait_seconds: limit.wait_seconds }, 429);
+  }
+
+  if (!(await isConfirmationCorrect(user.email, confirmation))) {
+    return jsonResponse(
+      { error: confirmation.password ? 'Your password is incorrect' : 'That code is incorrect or has expired' },
+      403
+    );
+  }
+
+  const scheduledFor = new Date(Date.now() + GRACE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { error } = await admin.from('profiles').update({ deletion_scheduled_for: scheduledFor }).eq('id', user.id);
+
+  if (error) {
+    console.error('Error scheduling deletion:', error);
+    return jsonResponse({ error: 'Could not schedule the deletion' }, 500);
+  }
+
+  return jsonResponse({ scheduled_for: scheduledFor });
+});
@@ -0,0 +1,77 @@
+// Redeems a two-factor recovery code. The caller has signed in with their
+// password (aal1) but lost their authenticator; a valid unused code removes
+// their TOTP factors so they can sign in and enrol a new device.
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, getRequestUser } from '../_shared/supabase.ts';
+
+// Must match normalizeRecoveryCode in lib/mfa.ts.
+const normalizeCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const user = await getRequestUser(request);
+  if (!user) {
+    return jsonResponse({ error: 'Not signed in' }, 401);
+  }
+
+  let code = '';
+  try {
+    const body = await request.json();
+    code = normalizeCode(String(body?.code ?? ''));
+  } catch {
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+  if (!code) {
+    return jsonResponse({ error: 'Enter a recovery code' }, 400);
+  }
+
+  const admin = createAdminClient();
+  const { data: redeemed, error: redeemError } = await admin
+    .from('mfa_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .eq('code_hash', await sha256Hex(code))
+    .is('used_at', null)
+    .select('id');
+
+  if (redeemError) {
+    console.error('Error redeeming recovery code:', redeemError);
+    return jsonResponse({ error: 'Could not check the recovery code' }, 500);
+  }
+  if (!redeemed?.length) {
+    return jsonResponse({ error: 'That recovery code is not valid or has already been used' }, 400);
+  }
+
+  const { data: factors, error: listError } = await admin.auth.admin.mfa.listFactors({ userId: user.id });
+  if (listError) {
+    console.error('Error listing factors:', listError);
+    return jsonResponse({ error: 'Could not reset two-factor authentication' }, 500);
+  }
+
+  for (const factor of factors.factors) {
+    const { error } = await admin.auth.admin.mfa.deleteFactor({ userId: user.id, id: factor.id });
+    if (error) {
+      console.error('Error deleting factor:', error);
+      return jsonResponse({ error: 'Could not reset two-factor authentication' }, 500);
+    }
+  }
+
+  // The remaining codes belonged to the removed authenticator.
+  await admin.from('mfa_recovery_codes').delete().eq('user_id', user.id);
+
+  return jsonResponse({ ok: true });
+});
@@ -0,0 +1,35 @@
+-- Catalog of books shown in the app. Files and covers live in Storage and are
+-- referenced by their object path so they can be moved between buckets.
+
+create table if not exists public.books (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  subtitle text,
+  authors text[] not null default '{}',
+  subjects text[] not null default '{}',
+  language text,
+  published_year integer,
+  edition text,
+  isbn text,
+  page_count integer,
+  description text,
+  cover_path text,
+  file_path text,
+  file_format text check (file_format in ('pdf', 'epub')),
+  file_size bigint,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists books_title_idx on public.books (title);
+
+alter table public.books enable row level security;
+
+create policy "Books are readable by everyone"
+  on public.books for select
+  using (true);
+
+-- Covers are public images, book files are only reachable through signed URLs.
+insert into storage.buckets (id, name, public)
+values ('book-covers', 'book-covers', true), ('book-files', 'book-files', false)
+on conflict (id) do nothing;
@@ -0,0 +1,53 @@
+-- Full-text search and filter columns for the catalog search screen.
+
+alter table public.books
+  add column if not exists course_codes text[] not null default '{}',
+  add column if not exists authors_text text not null default '',
+  add column if not exists search_vector tsvector;
+
+-- Course codes are stored as e.g. CSE301, but people search for "CSE 301" and
+-- "CSE-301" too, so each code is indexed in all three spellings.
+create or replace function public.course_code_search_text(p_codes text[])
+returns text
+language sql
+immutable
+set search_path = ''
+as $$
+  select coalesce(string_agg(
+    code
+      || ' ' || regexp_replace(code, '^([A-Z]+)([0-9].*)$', '\1 \2')
+      || ' ' || regexp_replace(code, '^([A-Z]+)([0-9].*)$', '\1-\2'),
+    ' '
+  ), '')
+  from unnest(p_codes) as code;
+$$;
+
+create or replace function public.books_search_refresh()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.authors_text := array_to_string(new.authors, ', ');
+  new.search_vector :=
+    setweight(to_tsvector('simple', coalesce(new.title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(new.subtitle, '')), 'B') ||
+    setweight(to_tsvector('simple', new.authors_text), 'B') ||
+    setweight(to_tsvector('simple', public.course_code_search_text(new.course_codes)), 'B') ||
+    setweight(to_tsvector('simple', array_to_string(new.subjects, ' ')), 'C') ||
+    setweight(to_tsvector('english', coalesce(new.description, '')), 'D');
+  return new;
+end;
+$$;
+
+drop trigger if exists books_search_refresh on public.books;
+create trigger books_search_refresh
+  before insert or update on public.books
+  for each row execute function public.books_search_refresh();
+
+-- Backfill rows that existed before the trigger.
+update public.books set title = title;
+
+create index if not exists books_search_vector_idx on public.books using gin (search_vector);
+create index if not exists books_subjects_idx on public.books using gin (subjects);
+create index if not exists books_course_codes_idx on public.books using gin (course_codes);
+create index if not exists books_published_year_idx on public.books (published_year);
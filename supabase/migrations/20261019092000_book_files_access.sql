@@ -0,0 +1,6 @@
+-- Book files are private; signed-in readers may create signed URLs for them.
+
+create policy "Signed-in users can read book files"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'book-files');
@@ -0,0 +1,41 @@
+-- Last reading position per user and book, synced from every device.
+
+create table if not exists public.reading_progress (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  book_id uuid not null references public.books (id) on delete cascade,
+  page integer,
+  total_pages integer,
+  cfi text,
+  progress real not null default 0 check (progress >= 0 and progress <= 1),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, book_id)
+);
+
+create index if not exists reading_progress_recent_idx
+  on public.reading_progress (user_id, updated_at desc);
+
+alter table public.reading_progress enable row level security;
+
+create policy "Users manage their own reading progress"
+  on public.reading_progress for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Devices sync out of order, so the most recent position wins: an update
+-- carrying an older timestamp than the stored row is ignored.
+create or replace function public.reading_progress_keep_latest()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.updated_at < old.updated_at then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists reading_progress_keep_latest on public.reading_progress;
+create trigger reading_progress_keep_latest
+  before update on public.reading_progress
+  for each row execute function public.reading_progress_keep_latest();
@@ -0,0 +1,45 @@
+-- Bookmarks, highlights and notes made in the reader. Rows are soft-deleted so
+-- deletions made offline sync like any other edit.
+
+create table if not exists public.annotations (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  book_id uuid not null references public.books (id) on delete cascade,
+  kind text not null check (kind in ('bookmark', 'highlight', 'note')),
+  page integer,
+  cfi text,
+  quote text,
+  note text,
+  color text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index if not exists annotations_user_book_idx on public.annotations (user_id, book_id);
+create index if not exists annotations_user_updated_idx on public.annotations (user_id, updated_at);
+
+alter table public.annotations enable row level security;
+
+create policy "Users manage their own annotations"
+  on public.annotations for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Edits queued offline may arrive after newer ones from another device.
+create or replace function public.ignore_stale_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.updated_at < old.updated_at then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists annotations_ignore_stale_update on public.annotations;
+create trigger annotations_ignore_stale_update
+  before update on public.annotations
+  for each row execute function public.ignore_stale_update();
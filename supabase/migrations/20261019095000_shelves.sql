@@ -0,0 +1,65 @@
+-- Personal shelves. Every user gets the three built-in status shelves (created
+-- on first use by the app) and any number of custom collections.
+
+create table if not exists public.shelves (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(trim(name)) between 1 and 60),
+  kind text not null default 'custom' check (kind in ('want_to_read', 'reading', 'finished', 'custom')),
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists shelves_builtin_kind_idx
+  on public.shelves (user_id, kind) where kind <> 'custom';
+create index if not exists shelves_user_position_idx on public.shelves (user_id, position);
+
+create table if not exists public.shelf_books (
+  shelf_id uuid not null references public.shelves (id) on delete cascade,
+  book_id uuid not null references public.books (id) on delete cascade,
+  added_at timestamptz not null default now(),
+  primary key (shelf_id, book_id)
+);
+
+create index if not exists shelf_books_book_idx on public.shelf_books (book_id);
+
+alter table public.shelves enable row level security;
+alter table public.shelf_books enable row level security;
+
+create policy "Users manage their own shelves"
+  on public.shelves for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage books on their own shelves"
+  on public.shelf_books for all
+  using (exists (select 1 from public.shelves s where s.id = shelf_id and s.user_id = auth.uid()))
+  with check (exists (select 1 from public.shelves s where s.id = shelf_id and s.user_id = auth.uid()));
+
+-- Built-in shelves describe reading status, so a book sits on at most one of
+-- them: adding it to one takes it off the others.
+create or replace function public.shelf_books_single_status()
+returns trigger
+language plpgsql
+as $$
+declare
+  target public.shelves;
+begin
+  select * into target from public.shelves where id = new.shelf_id;
+  if target.kind <> 'custom' then
+    delete from public.shelf_books sb
+    using public.shelves s
+    where sb.shelf_id = s.id
+      and s.user_id = target.user_id
+      and s.kind <> 'custom'
+      and s.id <> target.id
+      and sb.book_id = new.book_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists shelf_books_single_status on public.shelf_books;
+create trigger shelf_books_single_status
+  before insert on public.shelf_books
+  for each row execute function public.shelf_books_single_status();
@@ -0,0 +1,125 @@
+-- Roles. Every account has a profile whose role decides what it may see and do.
+-- The role is mirrored into the user's app_metadata so it also arrives as a
+-- JWT claim, but the profiles table stays the source of truth for policies.
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  role text not null default 'student' check (role in ('student', 'faculty', 'librarian', 'admin')),
+  full_name text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce((select role from public.profiles where id = auth.uid()), 'student');
+$$;
+
+alter table public.profiles enable row level security;
+
+create policy "Users read their own profile"
+  on public.profiles for select
+  using (auth.uid() = id);
+
+create policy "Staff read all profiles"
+  on public.profiles for select
+  using (public.current_user_role() in ('librarian', 'admin'));
+
+create policy "Users update their own profile"
+  on public.profiles for update
+  using (auth.uid() = id)
+  with check (auth.uid() = id);
+
+create policy "Admins update any profile"
+  on public.profiles for update
+  using (public.current_user_role() = 'admin');
+
+-- Only admins (or the service role, which has no auth.uid()) may change roles.
+create or replace function public.profiles_protect_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role is distinct from old.role
+    and auth.uid() is not null
+    and public.current_user_role() <> 'admin' then
+    raise exception 'Only administrators can change roles';
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_role on public.profiles;
+create trigger profiles_protect_role
+  before update on public.profiles
+  for each row execute function public.profiles_protect_role();
+
+create or replace function public.profiles_sync_role_claim()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  update auth.users
+  set raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb) || jsonb_build_object('role', new.role)
+  where id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_sync_role_claim on public.profiles;
+create trigger profiles_sync_role_claim
+  after insert or update of role on public.profiles
+  for each row execute function public.profiles_sync_role_claim();
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.profiles (id, full_name)
+  values (new.id, new.raw_user_meta_data ->> 'full_name')
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+insert into public.profiles (id, full_name)
+select id, raw_user_meta_data ->> 'full_name' from auth.users
+on conflict (id) do nothing;
+
+-- Course material restricted to faculty. Hidden rows are filtered by RLS, so
+-- the catalog, search and detail queries need no changes.
+alter table public.books
+  add column if not exists visibility text not null default 'public'
+  check (visibility in ('public', 'faculty'));
+
+drop policy if exists "Books are readable by everyone" on public.books;
+create policy "Books are readable by their audience"
+  on public.books for select
+  using (visibility = 'public' or public.current_user_role() in ('faculty', 'librarian', 'admin'));
+
+-- A file is readable only when its book is; the subquery is itself filtered by
+-- the books policy above.
+drop policy if exists "Signed-in users can read book files" on storage.objects;
+create policy "Signed-in users can read files of visible books"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'book-files'
+    and exists (select 1 from public.books b where b.file_path = storage.objects.name)
+  );
@@ -0,0 +1,83 @@
+-- Librarian console: titles start as drafts and only librarians and admins
+-- may create or change catalog entries and their files.
+
+alter table public.books
+  add column if not exists status text not null default 'published'
+  check (status in ('draft', 'published'));
+
+-- Existing titles stay published; new ones start as drafts.
+alter table public.books alter column status set default 'draft';
+
+create index if not exists books_status_idx on public.books (status);
+
+drop policy if exists "Books are readable by their audience" on public.books;
+create policy "Books are readable by their audience"
+  on public.books for select
+  using (
+    public.current_user_role() in ('librarian', 'admin')
+    or (
+      status = 'published'
+      and (visibility = 'public' or public.current_user_role() = 'faculty')
+    )
+  );
+
+create policy "Staff create books"
+  on public.books for insert
+  with check (public.current_user_role() in ('librarian', 'admin'));
+
+create policy "Staff update books"
+  on public.books for update
+  using (public.current_user_role() in ('librarian', 'admin'))
+  with check (public.current_user_role() in ('librarian', 'admin'));
+
+create policy "Staff delete books"
+  on public.books for delete
+  using (public.current_user_role() in ('librarian', 'admin'));
+
+create or replace function public.books_touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists books_touch_updated_at on public.books;
+create trigger books_touch_updated_at
+  before update on public.books
+  for each row execute function public.books_touch_updated_at();
+
+create policy "Staff upload book files and covers"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id in ('book-files', 'book-covers')
+    and public.current_user_role() in ('librarian', 'admin')
+  );
+
+create policy "Staff replace book files and covers"
+  on storage.objects for update
+  to authenticated
+  using (
+    bucket_id in ('book-files', 'book-covers')
+    and public.current_user_role() in ('librarian', 'admin')
+  );
+
+create policy "Staff delete book files and covers"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id in ('book-files', 'book-covers')
+    and public.current_user_role() in ('librarian', 'admin')
+  );
+
+-- Enforce the same limits as the upload form.
+update storage.buckets
+set file_size_limit = 200 * 1024 * 1024, allowed_mime_types = array['application/pdf', 'application/epub+zip']
+where id = 'book-files';
+
+update storage.buckets
+set file_size_limit = 5 * 1024 * 1024, allowed_mime_types = array['image/jpeg', 'image/png', 'image/webp']
+where id = 'book-covers';
@@ -0,0 +1,222 @@
+-- Rate limiting for signed-out auth actions. The auth-gateway edge function
+-- counts each attempt here before it makes the auth call itself, so the app
+-- cannot skip the check. Attempts are keyed on the email together with the
+-- caller's network address, which the server sees rather than the client
+-- reporting it, so nobody can use up another person's attempts; and on the
+-- device, so clearing app storage or switching accounts on one phone does not
+-- reset them.
+
+create table if not exists public.rate_limit_config (
+  action text primary key,
+  max_requests integer not null check (max_requests > 0),
+  window_seconds integer not null check (window_seconds > 0),
+  block_seconds integer not null check (block_seconds >= 0)
+);
+
+insert into public.rate_limit_config (action, max_requests, window_seconds, block_seconds)
+values
+  ('login', 5, 60, 300),
+  ('register', 3, 60, 300),
+  ('resend', 3, 60, 300),
+  ('password_reset', 3, 60, 300)
+on conflict (action) do nothing;
+
+-- `email` is the address the attempt was for, so staff can clear every
+-- subject tied to an account.
+create table if not exists public.rate_limit_events (
+  id bigint generated always as identity primary key,
+  action text not null references public.rate_limit_config (action) on delete cascade,
+  subject text not null,
+  email text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rate_limit_events_lookup_idx
+  on public.rate_limit_events (action, subject, created_at);
+
+create index if not exists rate_limit_events_email_idx
+  on public.rate_limit_events (email);
+
+create table if not exists public.rate_limit_blocks (
+  action text not null references public.rate_limit_config (action) on delete cascade,
+  subject text not null,
+  email text not null,
+  blocked_until timestamptz not null,
+  primary key (action, subject)
+);
+
+create index if not exists rate_limit_blocks_email_idx
+  on public.rate_limit_blocks (email);
+
+-- No policies: only the auth-gateway function reaches these tables.
+alter table public.rate_limit_config enable row level security;
+alter table public.rate_limit_events enable row level security;
+alter table public.rate_limit_blocks enable row level security;
+
+-- The subjects an attempt counts against: the email with the caller's address,
+-- and the device when the app sent one.
+create or replace function public.rate_limit_subjects(p_email text, p_ip text, p_device_id text)
+returns text[]
+language sql
+immutable
+set search_path = ''
+as $$
+  select array_remove(array[
+    'email:' || lower(trim(p_email)) || '|ip:' || coalesce(nullif(trim(p_ip), ''), 'unknown'),
+    'device:' || nullif(trim(p_device_id), '')
+  ], null);
+$$;
+
+-- Records an attempt and reports whether it may go ahead. Returns
+-- { allowed, wait_seconds }; wait_seconds is 0 when allowed.
+create or replace function public.check_rate_limit(p_action text, p_email text, p_ip text, p_device_id text)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = ''
+as $$
+declare
+  config public.rate_limit_config;
+  normalized_email text := nullif(lower(trim(p_email)), '');
+  subjects text[];
+  subject text;
+  blocked timestamptz;
+  attempts integer;
+begin
+  select * into config from public.rate_limit_config where action = p_action;
+  if not found then
+    raise exception 'Unknown rate limit action: %', p_action;
+  end if;
+
+  if normalized_email is null then
+    raise exception 'An email is required';
+  end if;
+
+  subjects := public.rate_limit_subjects(normalized_email, p_ip, p_device_id);
+
+  foreach subject in array subjects loop
+    -- Serialise concurrent attempts for the same subject.
+    perform pg_advisory_xact_lock(hashtext(p_action || '|' || subject));
+  end loop;
+
+  select max(b.blocked_until) into blocked
+  from public.rate_limit_blocks b
+  where b.action = p_action and b.subject = any (subjects) and b.blocked_until > now();
+
+  if blocked is not null then
+    return jsonb_build_object(
+      'allowed', false,
+      'wait_seconds', ceil(extract(epoch from blocked - now()))::integer
+    );
+  end if;
+
+  delete from public.rate_limit_events e
+  where e.action = p_action
+    and e.subject = any (subjects)
+    and e.created_at < now() - make_interval(secs => config.window_seconds);
+
+  select max(counts.total) into attempts
+  from (
+    select count(*) as total
+    from public.rate_limit_events e
+    where e.action = p_action and e.subject = any (subjects)
+    group by e.subject
+  ) counts;
+
+  if coalesce(attempts, 0) >= config.max_requests then
+    insert into public.rate_limit_blocks (action, subject, email, blocked_until)
+    select p_action, s, normalized_email, now() + make_interval(secs => config.block_seconds)
+    from unnest(subjects) s
+    on conflict (action, subject) do update
+      set email = excluded.email, blocked_until = excluded.blocked_until;
+
+    return jsonb_build_object(
+      'allowed', false,
+      'wait_seconds', greatest(config.block_seconds, 1)
+    );
+  end if;
+
+  insert into public.rate_limit_events (action, subject, email)
+  select p_action, s, normalized_email from unnest(subjects) s;
+
+  return jsonb_build_object('allowed', true, 'wait_seconds', 0);
+end;
+$$;
+
+-- Reports what check_rate_limit would answer without recording an attempt, so
+-- the app can say when to try again before sending anything.
+create or replace function public.rate_limit_status(p_action text, p_email text, p_ip text, p_device_id text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  config public.rate_limit_config;
+  subjects text[] := public.rate_limit_subjects(p_email, p_ip, p_device_id);
+  blocked timestamptz;
+  attempts integer;
+begin
+  select * into config from public.rate_limit_config where action = p_action;
+  if not found then
+    raise exception 'Unknown rate limit action: %', p_action;
+  end if;
+
+  select max(b.blocked_until) into blocked
+  from public.rate_limit_blocks b
+  where b.action = p_action and b.subject = any (subjects) and b.blocked_until > now();
+
+  if blocked is not null then
+    return jsonb_build_object(
+      'allowed', false,
+      'wait_seconds', ceil(extract(epoch from blocked - now()))::integer
+    );
+  end if;
+
+  select max(counts.total) into attempts
+  from (
+    select count(*) as total
+    from public.rate_limit_events e
+    where e.action = p_action
+      and e.subject = any (subjects)
+      and e.created_at >= now() - make_interval(secs => config.window_seconds)
+    group by e.subject
+  ) counts;
+
+  if coalesce(attempts, 0) >= config.max_requests then
+    return jsonb_build_object('allowed', false, 'wait_seconds', greatest(config.block_seconds, 1));
+  end if;
+
+  return jsonb_build_object('allowed', true, 'wait_seconds', 0);
+end;
+$$;
+
+-- Only the auth-gateway function, which runs as the service role, counts attempts.
+revoke all on function public.check_rate_limit(text, text, text, text) from public, anon, authenticated;
+grant execute on function public.check_rate_limit(text, text, text, text) to service_role;
+revoke all on function public.rate_limit_status(text, text, text, text) from public, anon, authenticated;
+grant execute on function public.rate_limit_status(text, text, text, text) to service_role;
+
+-- check_rate_limit only trims the subjects it is asked about, so attempts for
+-- addresses that are never tried again are cleared here.
+create or replace function public.prune_rate_limits()
+returns void
+language sql
+security definer
+set search_path = ''
+as $$
+  delete from public.rate_limit_events e
+  using public.rate_limit_config c
+  where c.action = e.action
+    and e.created_at < now() - make_interval(secs => c.window_seconds);
+
+  delete from public.rate_limit_blocks where blocked_until <= now();
+$$;
+
+revoke all on function public.prune_rate_limits() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule('prune-rate-limits', '*/10 * * * *', $$select public.prune_rate_limits()$$);
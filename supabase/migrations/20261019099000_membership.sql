@@ -0,0 +1,169 @@
+-- Membership. Accounts on an institutional email domain, or whose student or
+-- staff ID matches the roster, are approved when they sign up. Everyone else
+-- waits for a librarian, and the catalog stays hidden until they are approved.
+
+create table if not exists public.allowed_email_domains (
+  domain text primary key check (domain = lower(domain) and domain not like '%@%'),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.student_roster (
+  member_id text primary key check (member_id = upper(member_id)),
+  kind text not null default 'student' check (kind in ('student', 'staff')),
+  full_name text,
+  -- The ID only verifies for this address; rows without one never auto-approve.
+  email text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.allowed_email_domains enable row level security;
+alter table public.student_roster enable row level security;
+
+-- The register form shows the domain list, so it is public.
+create policy "Allowed domains are readable by everyone"
+  on public.allowed_email_domains for select
+  using (true);
+
+create policy "Staff manage allowed domains"
+  on public.allowed_email_domains for all
+  using (public.current_user_role() in ('librarian', 'admin'))
+  with check (public.current_user_role() in ('librarian', 'admin'));
+
+create policy "Staff manage the roster"
+  on public.student_roster for all
+  using (public.current_user_role() in ('librarian', 'admin'))
+  with check (public.current_user_role() in ('librarian', 'admin'));
+
+-- Existing accounts keep their access; new ones start out pending.
+alter table public.profiles
+  add column if not exists approval_status text not null default 'approved'
+  check (approval_status in ('pending', 'approved', 'rejected'));
+alter table public.profiles alter column approval_status set default 'pending';
+alter table public.profiles add column if not exists member_id text unique;
+alter table public.profiles add column if not exists email text;
+
+update public.profiles p
+set email = u.email
+from auth.users u
+where u.id = p.id and p.email is null;
+
+create index if not exists profiles_approval_status_idx
+  on public.profiles (approval_status)
+  where approval_status <> 'approved';
+
+create or replace function public.is_allowed_email(p_email text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1
+    from public.allowed_email_domains d
+    where split_part(lower(p_email), '@', 2) = d.domain
+      or split_part(lower(p_email), '@', 2) like '%.' || d.domain
+  );
+$$;
+
+-- True when the ID is on the roster for this email and unclaimed. The
+-- auth-gateway function calls it for the sign-up form, under the register rate
+-- limit, so IDs cannot be probed from the app.
+create or replace function public.verify_member_id(p_member_id text, p_email text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1
+    from public.student_roster r
+    where r.member_id = upper(trim(p_member_id))
+      and lower(r.email) = lower(trim(p_email))
+      and not exists (select 1 from public.profiles p where p.member_id = r.member_id)
+  );
+$$;
+
+revoke all on function public.verify_member_id(text, text) from public, anon, authenticated;
+grant execute on function public.verify_member_id(text, text) to service_role;
+
+create or replace function public.is_approved_member()
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce(
+    (select approval_status = 'approved' from public.profiles where id = auth.uid()),
+    false
+  );
+$$;
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  requested_id text := nullif(upper(trim(new.raw_user_meta_data ->> 'member_id')), '');
+  verified_id text;
+begin
+  if requested_id is not null and public.verify_member_id(requested_id, new.email) then
+    verified_id := requested_id;
+  end if;
+
+  insert into public.profiles (id, full_name, email, member_id, approval_status)
+  values (
+    new.id,
+    new.raw_user_meta_data ->> 'full_name',
+    new.email,
+    verified_id,
+    case
+      when verified_id is not null or public.is_allowed_email(new.email) then 'approved'
+      else 'pending'
+    end
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+-- Role changes stay admin-only; approvals and member IDs are for staff.
+create or replace function public.profiles_protect_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null then
+    if new.role is distinct from old.role and public.current_user_role() <> 'admin' then
+      raise exception 'Only administrators can change roles';
+    end if;
+    if (new.approval_status is distinct from old.approval_status or new.member_id is distinct from old.member_id)
+      and public.current_user_role() not in ('librarian', 'admin') then
+      raise exception 'Only library staff can change membership approval';
+    end if;
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create policy "Librarians update any profile"
+  on public.profiles for update
+  using (public.current_user_role() = 'librarian');
+
+-- Unapproved accounts see nothing in the catalog; book files follow the books policy.
+drop policy if exists "Books are readable by their audience" on public.books;
+create policy "Books are readable by their audience"
+  on public.books for select
+  using (
+    public.current_user_role() in ('librarian', 'admin')
+    or (
+      status = 'published'
+      and public.is_approved_member()
+      and (visibility = 'public' or public.current_user_role() = 'faculty')
+    )
+  );
@@ -0,0 +1,138 @@
+-- Two-factor authentication. Staff changes to the catalog and to other
+-- accounts now need an aal2 session, i.e. one verified with a TOTP code.
+-- Recovery codes are stored hashed and redeemed by the mfa-recovery function.
+
+create or replace function public.is_aal2()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce((select auth.jwt() ->> 'aal'), '') = 'aal2';
+$$;
+
+create or replace function public.is_verified_staff()
+returns boolean
+language sql
+stable
+as $$
+  select public.current_user_role() in ('librarian', 'admin') and public.is_aal2();
+$$;
+
+create table if not exists public.mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, code_hash)
+);
+
+alter table public.mfa_recovery_codes enable row level security;
+
+-- Users may see how many codes they have left, never the hashes of other users.
+create policy "Users read their own recovery codes"
+  on public.mfa_recovery_codes for select
+  using (auth.uid() = user_id);
+
+-- Replaces the caller's codes. Only a session verified with the authenticator
+-- may do this, so a stolen password alone cannot mint new codes.
+create or replace function public.replace_mfa_recovery_codes(p_code_hashes text[])
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if auth.uid() is null or not public.is_aal2() then
+    raise exception 'Verify with your authenticator app first';
+  end if;
+  if coalesce(array_length(p_code_hashes, 1), 0) = 0 then
+    raise exception 'No recovery codes given';
+  end if;
+
+  delete from public.mfa_recovery_codes where user_id = auth.uid();
+  insert into public.mfa_recovery_codes (user_id, code_hash)
+  select auth.uid(), hash from unnest(p_code_hashes) hash;
+end;
+$$;
+
+revoke all on function public.replace_mfa_recovery_codes(text[]) from public;
+grant execute on function public.replace_mfa_recovery_codes(text[]) to authenticated;
+
+drop policy if exists "Staff create books" on public.books;
+create policy "Staff create books"
+  on public.books for insert
+  with check (public.is_verified_staff());
+
+drop policy if exists "Staff update books" on public.books;
+create policy "Staff update books"
+  on public.books for update
+  using (public.is_verified_staff())
+  with check (public.is_verified_staff());
+
+drop policy if exists "Staff delete books" on public.books;
+create policy "Staff delete books"
+  on public.books for delete
+  using (public.is_verified_staff());
+
+drop policy if exists "Staff upload book files and covers" on storage.objects;
+create policy "Staff upload book files and covers"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id in ('book-files', 'book-covers') and public.is_verified_staff());
+
+drop policy if exists "Staff replace book files and covers" on storage.objects;
+create policy "Staff replace book files and covers"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id in ('book-files', 'book-covers') and public.is_verified_staff());
+
+drop policy if exists "Staff delete book files and covers" on storage.objects;
+create policy "Staff delete book files and covers"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id in ('book-files', 'book-covers') and public.is_verified_staff());
+
+-- Changing who may register needs a verified session too; staff still read
+-- both lists from an aal1 session.
+drop policy if exists "Staff manage allowed domains" on public.allowed_email_domains;
+create policy "Staff add allowed domains"
+  on public.allowed_email_domains for insert
+  with check (public.is_verified_staff());
+
+create policy "Staff update allowed domains"
+  on public.allowed_email_domains for update
+  using (public.is_verified_staff())
+  with check (public.is_verified_staff());
+
+create policy "Staff remove allowed domains"
+  on public.allowed_email_domains for delete
+  using (public.is_verified_staff());
+
+drop policy if exists "Staff manage the roster" on public.student_roster;
+create policy "Staff read the roster"
+  on public.student_roster for select
+  using (public.current_user_role() in ('librarian', 'admin'));
+
+create policy "Staff add to the roster"
+  on public.student_roster for insert
+  with check (public.is_verified_staff());
+
+create policy "Staff update the roster"
+  on public.student_roster for update
+  using (public.is_verified_staff())
+  with check (public.is_verified_staff());
+
+create policy "Staff remove from the roster"
+  on public.student_roster for delete
+  using (public.is_verified_staff());
+
+drop policy if exists "Admins update any profile" on public.profiles;
+create policy "Admins update any profile"
+  on public.profiles for update
+  using (public.current_user_role() = 'admin' and public.is_aal2());
+
+drop policy if exists "Librarians update any profile" on public.profiles;
+create policy "Librarians update any profile"
+  on public.profiles for update
+  using (public.current_user_role() = 'librarian' and public.is_aal2());
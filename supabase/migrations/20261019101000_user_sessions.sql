@@ -0,0 +1,67 @@
+-- Signed-in devices. The app records each auth session with the device it
+-- runs on, so users can see where they are signed in and revoke a device.
+-- Rows whose auth session has ended are hidden by list_my_sessions.
+
+create table if not exists public.user_sessions (
+  session_id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  platform text not null,
+  device_name text,
+  app_version text,
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now()
+);
+
+create index if not exists user_sessions_user_idx on public.user_sessions (user_id, last_seen_at desc);
+
+alter table public.user_sessions enable row level security;
+
+-- Clients may only record the session they are using.
+create policy "Users record their current session"
+  on public.user_sessions for insert
+  with check (auth.uid() = user_id and session_id = (select (auth.jwt() ->> 'session_id')::uuid));
+
+create policy "Users update their current session"
+  on public.user_sessions for update
+  using (auth.uid() = user_id and session_id = (select (auth.jwt() ->> 'session_id')::uuid));
+
+create policy "Users read their own sessions"
+  on public.user_sessions for select
+  using (auth.uid() = user_id);
+
+create or replace function public.list_my_sessions()
+returns setof public.user_sessions
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select us.*
+  from public.user_sessions us
+  where us.user_id = auth.uid()
+    and exists (select 1 from auth.sessions s where s.id = us.session_id)
+  order by us.last_seen_at desc;
+$$;
+
+-- Ends one of the caller's sessions. Its refresh token stops working at once;
+-- an access token it already holds stays valid until it expires.
+create or replace function public.revoke_user_session(p_session_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  delete from auth.sessions where id = p_session_id and user_id = auth.uid();
+  delete from public.user_sessions where session_id = p_session_id and user_id = auth.uid();
+end;
+$$;
+
+revoke all on function public.list_my_sessions() from public;
+revoke all on function public.revoke_user_session(uuid) from public;
+grant execute on function public.list_my_sessions() to authenticated;
+grant execute on function public.revoke_user_session(uuid) to authenticated;
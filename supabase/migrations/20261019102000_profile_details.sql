@@ -0,0 +1,67 @@
+-- Profile details. Members can describe themselves with a department, year of
+-- study and an avatar. Avatars live in a public bucket, one folder per user.
+
+alter table public.profiles add column if not exists department text;
+alter table public.profiles add column if not exists study_year smallint check (study_year between 1 and 8);
+alter table public.profiles add column if not exists avatar_path text;
+
+-- profiles.email mirrors the auth email, so it follows a confirmed change.
+create or replace function public.sync_profile_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  update public.profiles set email = new.email where id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_email_changed on auth.users;
+create trigger on_auth_user_email_changed
+  after update of email on auth.users
+  for each row
+  when (new.email is distinct from old.email)
+  execute function public.sync_profile_email();
+
+create or replace function public.profiles_protect_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null then
+    if new.role is distinct from old.role and public.current_user_role() <> 'admin' then
+      raise exception 'Only administrators can change roles';
+    end if;
+    if (new.approval_status is distinct from old.approval_status or new.member_id is distinct from old.member_id)
+      and public.current_user_role() not in ('librarian', 'admin') then
+      raise exception 'Only library staff can change membership approval';
+    end if;
+    if new.email is distinct from old.email then
+      raise exception 'Email changes must be confirmed through the account settings';
+    end if;
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('avatars', 'avatars', true, 2 * 1024 * 1024, array['image/jpeg', 'image/png', 'image/webp'])
+on conflict (id) do nothing;
+
+create policy "Users upload their own avatar"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users replace their own avatar"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users delete their own avatar"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,57 @@
+-- Account deletion. The delete-account edge function schedules a deletion
+-- once the user has confirmed their password. Until the date passes, signing
+-- back in and cancelling keeps the account; afterwards a nightly job calls the
+-- same function to remove the auth user, and every table that references it
+-- cascades.
+
+alter table public.profiles add column if not exists deletion_scheduled_for timestamptz;
+
+-- Users may cancel a scheduled deletion but only the edge function (service
+-- role, no auth.uid()) may schedule one.
+create or replace function public.profiles_protect_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null then
+    if new.role is distinct from old.role and public.current_user_role() <> 'admin' then
+      raise exception 'Only administrators can change roles';
+    end if;
+    if (new.approval_status is distinct from old.approval_status or new.member_id is distinct from old.member_id)
+      and public.current_user_role() not in ('librarian', 'admin') then
+      raise exception 'Only library staff can change membership approval';
+    end if;
+    if new.email is distinct from old.email then
+      raise exception 'Email changes must be confirmed through the account settings';
+    end if;
+    if new.deletion_scheduled_for is not null
+      and new.deletion_scheduled_for is distinct from old.deletion_scheduled_for then
+      raise exception 'Account deletion must be requested through the delete-account function';
+    end if;
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- The edge function deletes due accounts with the admin API. This job reads the
+-- project URL and service role key from Vault, which are set up per project:
+--   select vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+select cron.schedule(
+  'purge-deleted-accounts',
+  '0 3 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/delete-account',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{"action": "purge"}'::jsonb
+  );
+  $$
+);
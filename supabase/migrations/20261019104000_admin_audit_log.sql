@@ -0,0 +1,24 @@
+-- Audit trail for account administration. The admin-users edge function
+-- writes a row before every action it performs; admins can read the log but
+-- nobody can change it from the app.
+
+create table if not exists public.admin_audit_log (
+  id bigint generated always as identity primary key,
+  actor_id uuid references auth.users (id) on delete set null,
+  target_user_id uuid references auth.users (id) on delete set null,
+  target_email text,
+  action text not null check (action in (
+    'resend_confirmation', 'confirm_email', 'ban', 'unban', 'set_role', 'reset_rate_limits'
+  )),
+  details jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_target_idx on public.admin_audit_log (target_user_id, created_at desc);
+create index if not exists admin_audit_log_created_idx on public.admin_audit_log (created_at desc);
+
+alter table public.admin_audit_log enable row level security;
+
+create policy "Admins read the audit log"
+  on public.admin_audit_log for select
+  using (public.current_user_role() = 'admin');
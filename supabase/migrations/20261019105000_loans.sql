@@ -0,0 +1,213 @@
+-- Digital lending. Reading a book's file now needs an active loan. A title
+-- licensed for N simultaneous readers (books.license_count) lends at most N
+-- copies at once; titles without a count lend without limit. Loans end on
+-- their due date, when expire_loans marks them expired and storage access
+-- stops; the app deletes the offline copy at the same time.
+
+alter table public.books
+  add column if not exists license_count integer check (license_count is null or license_count > 0);
+
+create table if not exists public.loans (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  book_id uuid not null references public.books (id) on delete cascade,
+  borrowed_at timestamptz not null default now(),
+  due_at timestamptz not null,
+  returned_at timestamptz,
+  renewals integer not null default 0,
+  status text not null default 'active' check (status in ('active', 'returned', 'expired'))
+);
+
+create unique index if not exists loans_one_active_per_book_idx
+  on public.loans (user_id, book_id) where status = 'active';
+create index if not exists loans_book_active_idx on public.loans (book_id) where status = 'active';
+create index if not exists loans_user_idx on public.loans (user_id, borrowed_at desc);
+create index if not exists loans_due_idx on public.loans (due_at) where status = 'active';
+
+-- Loans only change through the functions below.
+alter table public.loans enable row level security;
+
+create policy "Users read their own loans"
+  on public.loans for select
+  using (auth.uid() = user_id);
+
+create policy "Staff read all loans"
+  on public.loans for select
+  using (public.current_user_role() in ('librarian', 'admin'));
+
+create or replace function public.loan_period()
+returns interval
+language sql
+immutable
+as $$
+  select interval '14 days';
+$$;
+
+create or replace function public.expire_loans()
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  expired integer;
+begin
+  update public.loans set status = 'expired'
+  where status = 'active' and due_at <= now();
+  get diagnostics expired = row_count;
+  return expired;
+end;
+$$;
+
+create or replace function public.has_active_loan(p_book_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.loans
+    where user_id = auth.uid() and book_id = p_book_id and status = 'active' and due_at > now()
+  );
+$$;
+
+-- Copies of a title that can still be borrowed; null when it has no limit.
+create or replace function public.available_copies(p_book_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select b.license_count - (
+    select count(*)::integer from public.loans l
+    where l.book_id = b.id and l.status = 'active' and l.due_at > now()
+  )
+  from public.books b
+  where b.id = p_book_id;
+$$;
+
+create or replace function public.borrow_book(p_book_id uuid)
+returns public.loans
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  book public.books;
+  loan public.loans;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  -- Locking the book serialises borrowers, so the last copy is lent once.
+  select * into book from public.books where id = p_book_id for update;
+  if not found or book.file_path is null then
+    raise exception 'This book cannot be borrowed';
+  end if;
+  if public.current_user_role() not in ('librarian', 'admin') and not (
+    book.status = 'published'
+    and public.is_approved_member()
+    and (book.visibility = 'public' or public.current_user_role() = 'faculty')
+  ) then
+    raise exception 'This book cannot be borrowed';
+  end if;
+
+  update public.loans set status = 'expired'
+  where book_id = p_book_id and status = 'active' and due_at <= now();
+
+  select * into loan from public.loans
+  where user_id = auth.uid() and book_id = p_book_id and status = 'active';
+  if found then
+    return loan;
+  end if;
+
+  if book.license_count is not null and (
+    select count(*) from public.loans where book_id = p_book_id and status = 'active'
+  ) >= book.license_count then
+    raise exception 'All licensed copies are on loan';
+  end if;
+
+  insert into public.loans (user_id, book_id, due_at)
+  values (auth.uid(), p_book_id, now() + public.loan_period())
+  returning * into loan;
+  return loan;
+end;
+$$;
+
+create or replace function public.renew_loan(p_loan_id uuid)
+returns public.loans
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  max_renewals constant integer := 2;
+  loan public.loans;
+begin
+  select * into loan from public.loans
+  where id = p_loan_id and user_id = auth.uid()
+  for update;
+  if not found or loan.status <> 'active' or loan.due_at <= now() then
+    raise exception 'This loan has ended';
+  end if;
+  if loan.renewals >= max_renewals then
+    raise exception 'This loan cannot be renewed again';
+  end if;
+
+  update public.loans
+  set due_at = due_at + public.loan_period(), renewals = renewals + 1
+  where id = p_loan_id
+  returning * into loan;
+  return loan;
+end;
+$$;
+
+create or replace function public.return_loan(p_loan_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  update public.loans
+  set status = 'returned', returned_at = now()
+  where id = p_loan_id and user_id = auth.uid() and status = 'active';
+end;
+$$;
+
+revoke all on function public.expire_loans() from public;
+revoke all on function public.has_active_loan(uuid) from public;
+revoke all on function public.available_copies(uuid) from public;
+revoke all on function public.borrow_book(uuid) from public;
+revoke all on function public.renew_loan(uuid) from public;
+revoke all on function public.return_loan(uuid) from public;
+grant execute on function public.has_active_loan(uuid) to authenticated;
+grant execute on function public.available_copies(uuid) to authenticated;
+grant execute on function public.borrow_book(uuid) to authenticated;
+grant execute on function public.renew_loan(uuid) to authenticated;
+grant execute on function public.return_loan(uuid) to authenticated;
+
+-- Book files: borrowers with a current loan, and staff managing the catalog.
+-- This replaces the visible-books policy, which would otherwise still grant
+-- every member access since storage policies are OR'd.
+drop policy if exists "Signed-in users can read files of visible books" on storage.objects;
+create policy "Borrowers and staff read book files"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'book-files'
+    and (
+      public.current_user_role() in ('librarian', 'admin')
+      or exists (
+        select 1 from public.books b
+        where b.file_path = storage.objects.name and public.has_active_loan(b.id)
+      )
+    )
+  );
+
+create extension if not exists pg_cron;
+
+select cron.schedule('expire-loans', '*/15 * * * *', $$select public.expire_loans()$$);
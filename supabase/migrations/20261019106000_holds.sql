@@ -0,0 +1,454 @@
+-- Holds on fully borrowed titles. Readers join a first-in, first-out queue
+-- per title. When a copy comes back, the next hold becomes ready and keeps
+-- that copy for the pickup window; an unclaimed copy passes to the next
+-- reader. Staff can reorder waiting holds or remove any hold.
+
+create table if not exists public.holds (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  book_id uuid not null references public.books (id) on delete cascade,
+  position integer not null,
+  status text not null default 'waiting' check (status in ('waiting', 'ready', 'fulfilled', 'cancelled', 'expired')),
+  created_at timestamptz not null default now(),
+  ready_at timestamptz,
+  pickup_expires_at timestamptz
+);
+
+create unique index if not exists holds_one_open_per_book_idx
+  on public.holds (user_id, book_id) where status in ('waiting', 'ready');
+create index if not exists holds_book_queue_idx on public.holds (book_id, position) where status in ('waiting', 'ready');
+create index if not exists holds_user_idx on public.holds (user_id, created_at desc);
+
+-- Holds only change through the functions below.
+alter table public.holds enable row level security;
+
+create policy "Users read their own holds"
+  on public.holds for select
+  using (auth.uid() = user_id);
+
+create policy "Staff read all holds"
+  on public.holds for select
+  using (public.current_user_role() in ('librarian', 'admin'));
+
+create or replace function public.hold_pickup_window()
+returns interval
+language sql
+immutable
+as $$
+  select interval '48 hours';
+$$;
+
+-- Makes waiting holds ready while copies are free, in queue order.
+create or replace function public.promote_holds(p_book_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  book public.books;
+  free integer;
+begin
+  select * into book from public.books where id = p_book_id;
+  if not found then
+    return;
+  end if;
+
+  free := book.license_count
+    - (select count(*) from public.loans where book_id = p_book_id and status = 'active' and due_at > now())
+    - (select count(*) from public.holds where book_id = p_book_id and status = 'ready');
+
+  -- A null limit means the title is no longer capped, so every hold is ready.
+  update public.holds
+  set status = 'ready', ready_at = now(), pickup_expires_at = now() + public.hold_pickup_window()
+  where id in (
+    select id from public.holds
+    where book_id = p_book_id and status = 'waiting'
+    order by position, created_at
+    limit case when book.license_count is null then null else greatest(free, 0) end
+  );
+end;
+$$;
+
+-- Extra licences are handed to the queue straight away rather than at the
+-- next expire_loans run.
+create or replace function public.books_promote_holds()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  perform public.promote_holds(new.id);
+  return null;
+end;
+$$;
+
+drop trigger if exists books_promote_holds on public.books;
+create trigger books_promote_holds
+  after update of license_count on public.books
+  for each row
+  when (new.license_count is distinct from old.license_count)
+  execute function public.books_promote_holds();
+
+create or replace function public.expire_loans()
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  expired integer;
+  waiting_book uuid;
+begin
+  update public.loans set status = 'expired'
+  where status = 'active' and due_at <= now();
+  get diagnostics expired = row_count;
+
+  update public.holds set status = 'expired'
+  where status = 'ready' and pickup_expires_at <= now();
+
+  for waiting_book in select distinct book_id from public.holds where status = 'waiting' loop
+    perform public.promote_holds(waiting_book);
+  end loop;
+  return expired;
+end;
+$$;
+
+-- Reserved copies and the queue count as taken.
+create or replace function public.available_copies(p_book_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select b.license_count
+    - (
+      select count(*)::integer from public.loans l
+      where l.book_id = b.id and l.status = 'active' and l.due_at > now()
+    )
+    - (
+      select count(*)::integer from public.holds h
+      where h.book_id = b.id and h.status in ('waiting', 'ready')
+    )
+  from public.books b
+  where b.id = p_book_id;
+$$;
+
+create or replace function public.borrow_book(p_book_id uuid)
+returns public.loans
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  book public.books;
+  loan public.loans;
+  ready_hold public.holds;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  -- Locking the book serialises borrowers, so the last copy is lent once.
+  select * into book from public.books where id = p_book_id for update;
+  if not found or book.file_path is null then
+    raise exception 'This book cannot be borrowed';
+  end if;
+  if public.current_user_role() not in ('librarian', 'admin') and not (
+    book.status = 'published'
+    and public.is_approved_member()
+    and (book.visibility = 'public' or public.current_user_role() = 'faculty')
+  ) then
+    raise exception 'This book cannot be borrowed';
+  end if;
+
+  update public.loans set status = 'expired'
+  where book_id = p_book_id and status = 'active' and due_at <= now();
+  update public.holds set status = 'expired'
+  where book_id = p_book_id and status = 'ready' and pickup_expires_at <= now();
+  perform public.promote_holds(p_book_id);
+
+  select * into loan from public.loans
+  where user_id = auth.uid() and book_id = p_book_id and status = 'active';
+  if found then
+    return loan;
+  end if;
+
+  -- A ready hold already has a copy set aside for this reader.
+  select * into ready_hold from public.holds
+  where user_id = auth.uid() and book_id = p_book_id and status = 'ready';
+  if found then
+    update public.holds set status = 'fulfilled' where id = ready_hold.id;
+  elsif book.license_count is not null and (
+    (select count(*) from public.loans where book_id = p_book_id and status = 'active')
+    + (select count(*) from public.holds where book_id = p_book_id and status in ('waiting', 'ready'))
+  ) >= book.license_count then
+    raise exception 'All licensed copies are on loan';
+  end if;
+
+  insert into public.loans (user_id, book_id, due_at)
+  values (auth.uid(), p_book_id, now() + public.loan_period())
+  returning * into loan;
+  return loan;
+end;
+$$;
+
+create or replace function public.renew_loan(p_loan_id uuid)
+returns public.loans
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  max_renewals constant integer := 2;
+  loan public.loans;
+begin
+  select * into loan from public.loans
+  where id = p_loan_id and user_id = auth.uid()
+  for update;
+  if not found or loan.status <> 'active' or loan.due_at <= now() then
+    raise exception 'This loan has ended';
+  end if;
+  if loan.renewals >= max_renewals then
+    raise exception 'This loan cannot be renewed again';
+  end if;
+  if exists (select 1 from public.holds where book_id = loan.book_id and status = 'waiting') then
+    raise exception 'Other readers are waiting for this book';
+  end if;
+
+  update public.loans
+  set due_at = due_at + public.loan_period(), renewals = renewals + 1
+  where id = p_loan_id
+  returning * into loan;
+  return loan;
+end;
+$$;
+
+create or replace function public.return_loan(p_loan_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  returned_book uuid;
+begin
+  update public.loans
+  set status = 'returned', returned_at = now()
+  where id = p_loan_id and user_id = auth.uid() and status = 'active'
+  returning book_id into returned_book;
+
+  if returned_book is not null then
+    perform public.promote_holds(returned_book);
+  end if;
+end;
+$$;
+
+create or replace function public.place_hold(p_book_id uuid)
+returns public.holds
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  book public.books;
+  hold public.holds;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  -- Same lock as borrow_book, so positions are handed out one at a time.
+  select * into book from public.books where id = p_book_id for update;
+  if not found or book.file_path is null or book.license_count is null then
+    raise exception 'Holds cannot be placed on this book';
+  end if;
+  if public.current_user_role() not in ('librarian', 'admin') and not (
+    book.status = 'published'
+    and public.is_approved_member()
+    and (book.visibility = 'public' or public.current_user_role() = 'faculty')
+  ) then
+    raise exception 'Holds cannot be placed on this book';
+  end if;
+
+  select * into hold from public.holds
+  where user_id = auth.uid() and book_id = p_book_id and status in ('waiting', 'ready');
+  if found then
+    return hold;
+  end if;
+  if public.has_active_loan(p_book_id) then
+    raise exception 'You already have this book on loan';
+  end if;
+  if public.available_copies(p_book_id) > 0 then
+    raise exception 'A copy is available to borrow now';
+  end if;
+
+  insert into public.holds (user_id, book_id, position)
+  values (
+    auth.uid(),
+    p_book_id,
+    coalesce((select max(position) from public.holds where book_id = p_book_id and status = 'waiting'), 0) + 1
+  )
+  returning * into hold;
+  return hold;
+end;
+$$;
+
+-- Readers cancel their own holds; staff can remove anyone's.
+create or replace function public.cancel_hold(p_hold_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  cancelled_book uuid;
+begin
+  update public.holds
+  set status = 'cancelled'
+  where id = p_hold_id
+    and status in ('waiting', 'ready')
+    and (user_id = auth.uid() or public.is_verified_staff())
+  returning book_id into cancelled_book;
+
+  if cancelled_book is null then
+    raise exception 'This hold is no longer open';
+  end if;
+  perform public.promote_holds(cancelled_book);
+end;
+$$;
+
+-- Moves a waiting hold to a 1-based place in its title's queue.
+create or replace function public.move_hold(p_hold_id uuid, p_position integer)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  hold public.holds;
+begin
+  if not public.is_verified_staff() then
+    raise exception 'Only staff can reorder holds';
+  end if;
+
+  select * into hold from public.holds where id = p_hold_id;
+  if not found or hold.status <> 'waiting' then
+    raise exception 'Only waiting holds can be moved';
+  end if;
+
+  with others as (
+    select id, row_number() over (order by position, created_at)::numeric as rank_key
+    from public.holds
+    where book_id = hold.book_id and status = 'waiting' and id <> p_hold_id
+  ),
+  ranked as (
+    select id, rank_key from others
+    union all
+    select p_hold_id, greatest(p_position, 1) - 0.5
+  ),
+  numbered as (
+    select id, row_number() over (order by rank_key)::integer as new_position from ranked
+  )
+  update public.holds h
+  set position = n.new_position
+  from numbered n
+  where h.id = n.id;
+end;
+$$;
+
+-- The caller's open holds with their place in each queue (0 once ready).
+create or replace function public.my_holds(p_book_id uuid default null)
+returns table (
+  id uuid,
+  book_id uuid,
+  book_title text,
+  status text,
+  queue_position integer,
+  created_at timestamptz,
+  pickup_expires_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select
+    h.id,
+    h.book_id,
+    b.title,
+    h.status,
+    case when h.status = 'ready' then 0 else (
+      select count(*)::integer from public.holds w
+      where w.book_id = h.book_id and w.status = 'waiting'
+        and (w.position, w.created_at) <= (h.position, h.created_at)
+    ) end,
+    h.created_at,
+    h.pickup_expires_at
+  from public.holds h
+  join public.books b on b.id = h.book_id
+  where h.user_id = auth.uid()
+    and h.status in ('waiting', 'ready')
+    and (p_book_id is null or h.book_id = p_book_id)
+  order by h.created_at;
+$$;
+
+-- Every open hold, for the librarian queue screen.
+create or replace function public.hold_queue()
+returns table (
+  id uuid,
+  book_id uuid,
+  book_title text,
+  user_id uuid,
+  member_name text,
+  member_email text,
+  status text,
+  queue_position integer,
+  created_at timestamptz,
+  pickup_expires_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+begin
+  if public.current_user_role() not in ('librarian', 'admin') then
+    raise exception 'Only staff can view the hold queue';
+  end if;
+
+  return query
+  select
+    h.id,
+    h.book_id,
+    b.title,
+    h.user_id,
+    p.full_name,
+    p.email,
+    h.status,
+    case when h.status = 'ready' then 0 else (
+      row_number() over (partition by h.book_id, h.status order by h.position, h.created_at)
+    )::integer end,
+    h.created_at,
+    h.pickup_expires_at
+  from public.holds h
+  join public.books b on b.id = h.book_id
+  left join public.profiles p on p.id = h.user_id
+  where h.status in ('waiting', 'ready')
+  order by b.title, h.book_id, h.status = 'waiting', h.position, h.created_at;
+end;
+$$;
+
+revoke all on function public.promote_holds(uuid) from public;
+revoke all on function public.place_hold(uuid) from public;
+revoke all on function public.cancel_hold(uuid) from public;
+revoke all on function public.move_hold(uuid, integer) from public;
+revoke all on function public.my_holds(uuid) from public;
+revoke all on function public.hold_queue() from public;
+grant execute on function public.place_hold(uuid) to authenticated;
+grant execute on function public.cancel_hold(uuid) to authenticated;
+grant execute on function public.move_hold(uuid, integer) to authenticated;
+grant execute on function public.my_holds(uuid) to authenticated;
+grant execute on function public.hold_queue() to authenticated;
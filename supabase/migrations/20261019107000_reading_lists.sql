@@ -0,0 +1,269 @@
+-- Course reading lists. Faculty publish ordered lists of titles for a course
+-- and semester, with a note per title for the chapters or pages to read.
+-- Members browse and follow lists; a list's updated_at moves whenever it or
+-- its titles change, so followers can tell it has changed since they last
+-- opened it. Titles marked as course reserves lend for a shorter period.
+
+create table if not exists public.reading_lists (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  title text not null check (char_length(trim(title)) between 1 and 120),
+  course_code text not null check (course_code ~ '^[A-Z0-9]{2,16}$'),
+  semester text not null check (char_length(trim(semester)) between 1 and 40),
+  description text check (description is null or char_length(description) <= 2000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists reading_lists_course_idx on public.reading_lists (course_code, semester);
+create index if not exists reading_lists_owner_idx on public.reading_lists (owner_id);
+
+create table if not exists public.reading_list_items (
+  id uuid primary key default gen_random_uuid(),
+  list_id uuid not null references public.reading_lists (id) on delete cascade,
+  book_id uuid not null references public.books (id) on delete cascade,
+  position integer not null default 0,
+  -- Which chapters or pages to read, e.g. "Ch. 3–5, pp. 80–142".
+  note text check (note is null or char_length(note) <= 500),
+  on_reserve boolean not null default false,
+  added_at timestamptz not null default now(),
+  unique (list_id, book_id)
+);
+
+create index if not exists reading_list_items_list_idx on public.reading_list_items (list_id, position);
+create index if not exists reading_list_items_reserve_idx on public.reading_list_items (book_id) where on_reserve;
+
+create table if not exists public.reading_list_follows (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  list_id uuid not null references public.reading_lists (id) on delete cascade,
+  followed_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  primary key (user_id, list_id)
+);
+
+create index if not exists reading_list_follows_list_idx on public.reading_list_follows (list_id);
+
+alter table public.reading_lists enable row level security;
+alter table public.reading_list_items enable row level security;
+alter table public.reading_list_follows enable row level security;
+
+create policy "Members read reading lists"
+  on public.reading_lists for select
+  using (public.is_approved_member() or public.current_user_role() in ('librarian', 'admin'));
+
+create policy "Faculty manage their own reading lists"
+  on public.reading_lists for all
+  using (auth.uid() = owner_id and public.current_user_role() = 'faculty')
+  with check (auth.uid() = owner_id and public.current_user_role() = 'faculty');
+
+create policy "Staff remove reading lists"
+  on public.reading_lists for delete
+  using (public.is_verified_staff());
+
+create policy "Members read reading list titles"
+  on public.reading_list_items for select
+  using (public.is_approved_member() or public.current_user_role() in ('librarian', 'admin'));
+
+create policy "Faculty manage titles on their own reading lists"
+  on public.reading_list_items for all
+  using (
+    public.current_user_role() = 'faculty'
+    and exists (select 1 from public.reading_lists l where l.id = list_id and l.owner_id = auth.uid())
+  )
+  with check (
+    public.current_user_role() = 'faculty'
+    and exists (select 1 from public.reading_lists l where l.id = list_id and l.owner_id = auth.uid())
+  );
+
+create policy "Users manage their own follows"
+  on public.reading_list_follows for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create or replace function public.reading_lists_touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists reading_lists_touch_updated_at on public.reading_lists;
+create trigger reading_lists_touch_updated_at
+  before update on public.reading_lists
+  for each row execute function public.reading_lists_touch_updated_at();
+
+-- Adding, reordering or removing a title counts as a change to the list. It
+-- runs as definer so titles removed with a deleted book still flag the list.
+create or replace function public.reading_list_items_touch_list()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  update public.reading_lists
+  set updated_at = now()
+  where id = coalesce(new.list_id, old.list_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists reading_list_items_touch_list on public.reading_list_items;
+create trigger reading_list_items_touch_list
+  after insert or update or delete on public.reading_list_items
+  for each row execute function public.reading_list_items_touch_list();
+
+-- The update badge compares last_seen_at with updated_at, so both come from
+-- the database clock; a device with a wrong clock could otherwise hide or
+-- pin the badge.
+create or replace function public.reading_list_follows_set_times()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.followed_at := now();
+  else
+    new.followed_at := old.followed_at;
+  end if;
+  new.last_seen_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists reading_list_follows_set_times on public.reading_list_follows;
+create trigger reading_list_follows_set_times
+  before insert or update on public.reading_list_follows
+  for each row execute function public.reading_list_follows_set_times();
+
+create or replace function public.mark_reading_list_seen(p_list_id uuid)
+returns void
+language sql
+security definer
+set search_path = ''
+as $$
+  update public.reading_list_follows
+  set last_seen_at = now()
+  where user_id = auth.uid() and list_id = p_list_id;
+$$;
+
+revoke all on function public.mark_reading_list_seen(uuid) from public, anon;
+grant execute on function public.mark_reading_list_seen(uuid) to authenticated;
+
+create or replace function public.reserve_loan_period()
+returns interval
+language sql
+immutable
+as $$
+  select interval '3 days';
+$$;
+
+-- Titles on reserve for any course lend for the shorter reserve period.
+create or replace function public.loan_period_for(p_book_id uuid)
+returns interval
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select case
+    when exists (select 1 from public.reading_list_items where book_id = p_book_id and on_reserve)
+      then public.reserve_loan_period()
+    else public.loan_period()
+  end;
+$$;
+
+revoke all on function public.loan_period_for(uuid) from public;
+
+create or replace function public.borrow_book(p_book_id uuid)
+returns public.loans
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  book public.books;
+  loan public.loans;
+  ready_hold public.holds;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  -- Locking the book serialises borrowers, so the last copy is lent once.
+  select * into book from public.books where id = p_book_id for update;
+  if not found or book.file_path is null then
+    raise exception 'This book cannot be borrowed';
+  end if;
+  if public.current_user_role() not in ('librarian', 'admin') and not (
+    book.status = 'published'
+    and public.is_approved_member()
+    and (book.visibility = 'public' or public.current_user_role() = 'faculty')
+  ) then
+    raise exception 'This book cannot be borrowed';
+  end if;
+
+  update public.loans set status = 'expired'
+  where book_id = p_book_id and status = 'active' and due_at <= now();
+  update public.holds set status = 'expired'
+  where book_id = p_book_id and status = 'ready' and pickup_expires_at <= now();
+  perform public.promote_holds(p_book_id);
+
+  select * into loan from public.loans
+  where user_id = auth.uid() and book_id = p_book_id and status = 'active';
+  if found then
+    return loan;
+  end if;
+
+  -- A ready hold already has a copy set aside for this reader.
+  select * into ready_hold from public.holds
+  where user_id = auth.uid() and book_id = p_book_id and status = 'ready';
+  if found then
+    update public.holds set status = 'fulfilled' where id = ready_hold.id;
+  elsif book.license_count is not null and (
+    (select count(*) from public.loans where book_id = p_book_id and status = 'active')
+    + (select count(*) from public.holds where book_id = p_book_id and status in ('waiting', 'ready'))
+  ) >= book.license_count then
+    raise exception 'All licensed copies are on loan';
+  end if;
+
+  insert into public.loans (user_id, book_id, due_at)
+  values (auth.uid(), p_book_id, now() + public.loan_period_for(p_book_id))
+  returning * into loan;
+  return loan;
+end;
+$$;
+
+create or replace function public.renew_loan(p_loan_id uuid)
+returns public.loans
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  max_renewals constant integer := 2;
+  loan public.loans;
+begin
+  select * into loan from public.loans
+  where id = p_loan_id and user_id = auth.uid()
+  for update;
+  if not found or loan.status <> 'active' or loan.due_at <= now() then
+    raise exception 'This loan has ended';
+  end if;
+  if loan.renewals >= max_renewals then
+    raise exception 'This loan cannot be renewed again';
+  end if;
+  if exists (select 1 from public.holds where book_id = loan.book_id and status = 'waiting') then
+    raise exception 'Other readers are waiting for this book';
+  end if;
+
+  update public.loans
+  set due_at = due_at + public.loan_period_for(loan.book_id), renewals = renewals + 1
+  where id = p_loan_id
+  returning * into loan;
+  return loan;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- The change-password edge function counts attempts at the current password
+-- under their own limit, so a stolen session cannot guess it.
+
+insert into public.rate_limit_config (action, max_requests, window_seconds, block_seconds)
+values ('change_password', 5, 60, 300)
+on conflict (action) do nothing;
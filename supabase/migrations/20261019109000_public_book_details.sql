@@ -0,0 +1,8 @@
+-- Signed-out visitors can open the detail page of published public titles.
+-- They only see catalog metadata: book files stay behind the loan policy on
+-- storage, and borrowing needs an approved account.
+
+create policy "Visitors read public book details"
+  on public.books for select
+  to anon
+  using (status = 'published' and visibility = 'public');
@@ -0,0 +1,6 @@
+-- The delete-account edge function counts attempts at the password or emailed
+-- code under their own limit, so a stolen session cannot guess either.
+
+insert into public.rate_limit_config (action, max_requests, window_seconds, block_seconds)
+values ('delete_account', 5, 60, 300)
+on conflict (action) do nothing;
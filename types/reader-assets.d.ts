@@ -0,0 +1,6 @@
+// Metro bundles .txt files as assets (see metro.config.js), so importing one
+// gives the asset's module id for expo-asset.
+declare module '*.txt' {
+  const moduleId: number;
+  export default moduleId;
+}